@@ -1,21 +1,35 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { FileUpload } from './components/FileUpload';
 import { DataTable } from './components/DataTable';
 import { DataVisualizer } from './components/DataVisualizer';
+import { PivotTable } from './components/PivotTable';
 import { AiAssistant } from './components/AiAssistant';
 import { DataComparator } from './components/DataComparator';
-import { AppView, DashboardTab, CsvRow, ParseResult } from './types';
-import { LayoutGrid, Table as TableIcon, BarChart2, MessageSquare, Database, X, ArrowLeftRight, Check, FileSpreadsheet, Play, Download, Table2 } from 'lucide-react';
+import { ParseDiagnostics, describeDiagnostic } from './components/ParseDiagnostics';
+import { HistoryPanel } from './components/HistoryPanel';
+import { AppView, DashboardTab, CsvRow, ParseResult, ColumnType } from './types';
+import { LayoutGrid, Table as TableIcon, BarChart2, MessageSquare, Database, X, ArrowLeftRight, Check, FileSpreadsheet, Play, Download, Table2, AlertTriangle, Wrench, Undo2, Redo2, History } from 'lucide-react';
 import { Button } from './components/Button';
-import * as d3 from 'd3';
-import * as XLSX from 'xlsx';
+import { downloadCsv, downloadExcel } from './utils/export';
+import { FormatRule } from './utils/formatting';
+import { PivotDrill, matchingRows } from './utils/pivot';
+import { getColumnName } from './utils/columns';
+import { COLUMN_TYPES, retypeColumn } from './utils/schema';
+import { EMPTY_HISTORY, EditCommand, EditHistory, applyCommand, deleteRowsCommand, recordCommand, travelTo } from './utils/history';
+import { refreshComputedColumns } from './utils/formula';
 
 const App: React.FC = () => {
   const [view, setView] = useState<AppView>(AppView.UPLOAD);
   const [data, setData] = useState<ParseResult | null>(null);
   const [data2, setData2] = useState<ParseResult | null>(null);
   const [activeTab, setActiveTab] = useState<DashboardTab>(DashboardTab.DATA);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [isFixingRows, setIsFixingRows] = useState(false);
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+  const [showHistory, setShowHistory] = useState(false);
+  const [formatRules, setFormatRules] = useState<FormatRule[]>([]);
+  const [drill, setDrill] = useState<PivotDrill | null>(null);
 
   // Upload Screen State
   const [uploadMode, setUploadMode] = useState<'single' | 'compare'>('single');
@@ -24,7 +38,12 @@ const App: React.FC = () => {
 
   const handleDataLoaded = (result: ParseResult) => {
     setData(result);
+    setHistory(EMPTY_HISTORY);
+    setFormatRules([]);
+    setDrill(null);
     setView(AppView.DASHBOARD);
+    setShowDiagnostics(!!result.meta.diagnostics?.length);
+    setIsFixingRows(false);
   };
 
   const handleData2Loaded = (result: ParseResult) => {
@@ -34,6 +53,9 @@ const App: React.FC = () => {
   const handleStartComparison = () => {
     if (compareData1 && compareData2) {
       setData(compareData1);
+      setHistory(EMPTY_HISTORY);
+      setFormatRules([]);
+      setDrill(null);
       setData2(compareData2);
       setView(AppView.DASHBOARD);
       setActiveTab(DashboardTab.COMPARISON);
@@ -42,12 +64,18 @@ const App: React.FC = () => {
 
   const handleReset = () => {
     setData(null);
+    setHistory(EMPTY_HISTORY);
+    setFormatRules([]);
+    setDrill(null);
+    setShowHistory(false);
     setData2(null);
     setCompareData1(null);
     setCompareData2(null);
     setView(AppView.UPLOAD);
     setActiveTab(DashboardTab.DATA);
     setUploadMode('single');
+    setShowDiagnostics(false);
+    setIsFixingRows(false);
   };
 
   const handleClearComparison = (e: React.MouseEvent) => {
@@ -58,13 +86,56 @@ const App: React.FC = () => {
     }
   };
 
-  const handleDataUpdate = (newData: CsvRow[]) => {
-    if (data) {
-      setData({
-        ...data,
-        data: newData
-      });
-    }
+  // --- Edits, recorded so they can be undone ---
+
+  const commitEdit = (command: EditCommand) => {
+    if (!data) return;
+    // Live computed columns follow whatever the edit changed
+    setData(refreshComputedColumns(applyCommand(data, command)));
+    setHistory(recordCommand(history, command));
+  };
+
+  const handleHistoryJump = (position: number) => {
+    if (!data || position === history.position) return;
+    const next = travelTo(data, history, position);
+    setData(refreshComputedColumns(next.result));
+    setHistory(next.history);
+  };
+
+  const handleUndo = () => handleHistoryJump(history.position - 1);
+  const handleRedo = () => handleHistoryJump(history.position + 1);
+
+  useEffect(() => {
+    if (view !== AppView.DASHBOARD || !data) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      // Text fields keep their own undo
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleColumnTypeChange = (col: string, type: ColumnType) => {
+    if (!data) return;
+    const result = retypeColumn(data.data, col, data.schema[col], type);
+    commitEdit({
+      kind: 'set-column',
+      label: `Change ${getColumnName(data.columnMeta, col)} to ${COLUMN_TYPES.find(t => t.value === type)?.label || type}`,
+      column: col,
+      before: { schema: data.schema[col], values: data.data.map(row => row[col]) },
+      after: { schema: result.schema, values: result.data.map(row => row[col]) }
+    });
   };
 
   const handleAddRow = () => {
@@ -72,57 +143,93 @@ const App: React.FC = () => {
     const newRow: CsvRow = {};
     // Initialize with empty strings or reasonable defaults
     data.columns.forEach(col => newRow[col] = '');
-    
-    const newData = [...data.data, newRow];
-    
-    setData({
-      ...data,
-      data: newData,
-      meta: { ...data.meta, rowCount: newData.length }
-    });
+
+    commitEdit({ kind: 'insert-rows', label: 'Add row', indices: [data.data.length], rows: [newRow] });
+  };
+
+  const handleDeleteRows = (indices: number[], label: string) => {
+    if (!data || indices.length === 0) return;
+    commitEdit(deleteRowsCommand(data, indices, label));
   };
 
   const handleDeleteRow = (originalIndex: number) => {
     if (!data) return;
-    const newData = [...data.data];
-    if (originalIndex >= 0 && originalIndex < newData.length) {
-      newData.splice(originalIndex, 1);
-      setData({
-        ...data,
-        data: newData,
-        meta: { ...data.meta, rowCount: newData.length }
-      });
+    if (originalIndex >= 0 && originalIndex < data.data.length) {
+      commitEdit(deleteRowsCommand(data, [originalIndex], `Delete row ${originalIndex + 1}`));
+      const remaining = data.meta.diagnostics?.filter(d => d.rowIndex !== originalIndex).length;
+      if (isFixingRows && !remaining) setIsFixingRows(false);
+    }
+  };
+
+  // --- Malformed rows reported by the importer ---
+
+  const handleSkipMalformedRows = () => {
+    if (!data?.meta.diagnostics) return;
+    const rows = data.meta.diagnostics.map(d => d.rowIndex);
+    commitEdit(deleteRowsCommand(data, rows, `Skip ${rows.length.toLocaleString()} malformed rows`));
+    setShowDiagnostics(false);
+    setIsFixingRows(false);
+  };
+
+  const handleFixMalformedRows = () => {
+    setShowDiagnostics(false);
+    setIsFixingRows(true);
+    setDrill(null);
+    setActiveTab(DashboardTab.DATA);
+  };
+
+  // Recorded like an edit, so undoing a fix made before it brings the report back too
+  const handleFinishFixing = () => {
+    if (data?.meta.diagnostics) {
+      commitEdit({ kind: 'set-diagnostics', label: 'Mark malformed rows as fixed', before: data.meta.diagnostics });
     }
+    setIsFixingRows(false);
+  };
+
+  // --- Pivot drill-down ---
+
+  const handleDrill = (next: PivotDrill) => {
+    setDrill(next);
+    setIsFixingRows(false);
+    setActiveTab(DashboardTab.DATA);
+  };
+
+  const handleBackToPivot = () => {
+    setDrill(null);
+    setActiveTab(DashboardTab.PIVOT);
   };
 
+  // Matched again after every edit, so the grid keeps showing the cell's rows
+  const drillRows = useMemo(
+    () => (data && drill ? matchingRows(data.data, data.data.map((_, idx) => idx), drill.filters, data.schema) : undefined),
+    [data, drill]
+  );
+
+  const malformedRows = useMemo(() => data?.meta.diagnostics?.map(d => d.rowIndex), [data]);
+
+  const malformedNotes = useMemo(() => {
+    const notes = new Map<number, string>();
+    data?.meta.diagnostics?.forEach(d => {
+      notes.set(d.rowIndex, `${d.fileName ? `${d.fileName}, ` : ''}line ${d.line}: ${describeDiagnostic(d)}\n${d.raw}`);
+    });
+    return notes;
+  }, [data]);
+
   const handleExportCsv = () => {
     if (!data) return;
-    const csv = d3.csvFormat(data.data, data.columns);
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
     const originalName = data.meta.fileName || 'export.csv';
     const timestamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 12);
     const filename = originalName.startsWith('edited_') 
       ? originalName.replace('.csv', `_${timestamp}.csv`) 
       : `edited_${originalName.replace('.csv', '')}_${timestamp}.csv`;
     
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', filename);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    // Write values back in the source file's locale and delimiter
+    downloadCsv(data.data, data.columnMeta, filename, { schema: data.schema, delimiter: data.meta.dialect?.delimiter });
   };
 
   const handleExportExcel = () => {
     if (!data) return;
     
-    // Create a new workbook and worksheet from JSON data
-    const worksheet = XLSX.utils.json_to_sheet(data.data);
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, "Data");
-    
     // Prepare filename with timestamp
     const timestamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 12); // Format: YYYYMMDDHHmm
     const originalName = data.meta.fileName || 'export.xlsx';
@@ -131,8 +238,8 @@ const App: React.FC = () => {
     let filename = `${baseFileName}_${timestamp}.xlsx`;
     if (!filename.startsWith('edited_')) filename = `edited_${filename}`;
 
-    // Export the file
-    XLSX.writeFile(workbook, filename);
+    // Export the file, keeping the original header names and the grid's conditional formats
+    downloadExcel(data.data, data.columnMeta, filename, 'Data', data.schema, formatRules);
   };
 
   const TabButton = ({ tab, label, icon }: { tab: DashboardTab, label: string, icon: React.ReactNode }) => (
@@ -169,11 +276,64 @@ const App: React.FC = () => {
               <span className="flex items-center">
                 <span className="font-semibold text-slate-700 mr-1">{data.columns.length}</span> Columns
               </span>
-              <span className="truncate max-w-[150px]" title={data.meta.fileName}>
+              <span className="truncate max-w-[150px]" title={data.meta.sourceFiles?.join('\n') || data.meta.fileName}>
                 {data.meta.fileName}
               </span>
+              {data.meta.sourceFiles && data.meta.sourceFiles.length > 1 && (
+                <span className="text-xs text-slate-400 whitespace-nowrap">+{data.meta.sourceFiles.length - 1} files</span>
+              )}
+              {data.meta.diagnostics && !isFixingRows && (
+                <button
+                  onClick={() => setShowDiagnostics(true)}
+                  className="flex items-center text-amber-600 hover:text-amber-700 whitespace-nowrap"
+                  title="Review malformed rows"
+                >
+                  <Wrench className="w-4 h-4 mr-1" />
+                  {data.meta.diagnostics.length} malformed
+                </button>
+              )}
+              {data.meta.warnings && data.meta.warnings.length > 0 && (
+                <span className="flex items-center text-amber-600" title={data.meta.warnings.join('\n')}>
+                  <AlertTriangle className="w-4 h-4 mr-1" />
+                  {data.meta.warnings.length}
+                </span>
+              )}
             </div>
             
+            <div className="relative flex items-center space-x-1">
+              <button
+                onClick={handleUndo}
+                disabled={history.position === 0}
+                className="text-slate-500 hover:text-slate-800 hover:bg-slate-100 p-2 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={handleRedo}
+                disabled={history.position === history.commands.length}
+                className="text-slate-500 hover:text-slate-800 hover:bg-slate-100 p-2 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className={`p-2 rounded-lg transition-colors ${showHistory ? 'bg-slate-100 text-slate-800' : 'text-slate-500 hover:text-slate-800 hover:bg-slate-100'}`}
+                title="Edit history"
+              >
+                <History className="w-4 h-4" />
+              </button>
+              {showHistory && (
+                <HistoryPanel
+                  history={history}
+                  fileName={data.meta.fileName}
+                  onJump={handleHistoryJump}
+                  onClose={() => setShowHistory(false)}
+                />
+              )}
+            </div>
+
             <div className="flex items-center space-x-1 sm:space-x-2">
               <button 
                 onClick={handleExportCsv}
@@ -326,6 +486,7 @@ const App: React.FC = () => {
             <div className="flex items-center space-x-2 mb-6 bg-white/50 p-1 rounded-xl w-fit backdrop-blur-sm border border-slate-200/60 overflow-x-auto max-w-full">
               <TabButton tab={DashboardTab.DATA} label="Data Grid" icon={<TableIcon className="w-4 h-4" />} />
               <TabButton tab={DashboardTab.CHARTS} label="Visualization" icon={<BarChart2 className="w-4 h-4" />} />
+              <TabButton tab={DashboardTab.PIVOT} label="Pivot" icon={<LayoutGrid className="w-4 h-4" />} />
               <TabButton tab={DashboardTab.INSIGHTS} label="AI Insights" icon={<MessageSquare className="w-4 h-4" />} />
               
               <div className="w-px h-6 bg-slate-300 mx-1"></div>
@@ -356,18 +517,68 @@ const App: React.FC = () => {
             <div className="flex-1 min-h-0 animate-fade-in">
               {data && (
                 <>
-                  <div className={`h-full ${activeTab === DashboardTab.DATA ? 'block' : 'hidden'}`}>
-                    <DataTable 
-                      data={data.data} 
-                      columns={data.columns} 
-                      isEditable={true}
-                      onDataChange={handleDataUpdate}
-                      onRowAdd={handleAddRow}
-                      onRowDelete={handleDeleteRow}
-                    />
+                  <div className={`h-full flex-col gap-3 ${activeTab === DashboardTab.DATA ? 'flex' : 'hidden'}`}>
+                    {isFixingRows && (
+                      <div className="flex items-center justify-between p-3 bg-amber-50 text-amber-800 rounded-xl border border-amber-200 text-sm">
+                        <span className="flex items-center">
+                          <Wrench className="w-4 h-4 mr-2 flex-shrink-0" />
+                          Showing {malformedRows?.length ?? 0} malformed rows. Hover a row number to see its original line, then edit or delete it.
+                        </span>
+                        <Button size="sm" onClick={handleFinishFixing} icon={<Check className="w-4 h-4" />}>
+                          Done
+                        </Button>
+                      </div>
+                    )}
+                    {drill && (
+                      <div className="flex items-center justify-between p-3 bg-blue-50 text-blue-800 rounded-xl border border-blue-200 text-sm">
+                        <span className="flex items-center min-w-0">
+                          <LayoutGrid className="w-4 h-4 mr-2 flex-shrink-0" />
+                          <span className="truncate">
+                            Showing {drillRows?.length.toLocaleString() ?? 0} rows behind {drill.description}
+                          </span>
+                        </span>
+                        <div className="flex items-center gap-2 ml-3 flex-shrink-0">
+                          <Button size="sm" variant="ghost" onClick={() => setDrill(null)}>
+                            Show all rows
+                          </Button>
+                          <Button size="sm" onClick={handleBackToPivot}>
+                            Back to pivot
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                    <div className="flex-1 min-h-0">
+                      <DataTable 
+                        data={data.data} 
+                        columns={data.columns} 
+                        columnMeta={data.columnMeta}
+                        schema={data.schema}
+                        onColumnTypeChange={handleColumnTypeChange}
+                        isEditable={true}
+                        onEdit={commitEdit}
+                        onRowAdd={isFixingRows || drill ? undefined : handleAddRow}
+                        onRowDelete={handleDeleteRow}
+                        onRowsDelete={handleDeleteRows}
+                        rowSubset={isFixingRows ? malformedRows : drillRows}
+                        rowNotes={malformedNotes}
+                        layoutKey={data.meta.fileName}
+                        formatRules={formatRules}
+                        onFormatRulesChange={setFormatRules}
+                      />
+                    </div>
                   </div>
                   <div className={`h-full ${activeTab === DashboardTab.CHARTS ? 'block' : 'hidden'}`}>
-                    <DataVisualizer data={data.data} columns={data.columns} />
+                    <DataVisualizer data={data.data} columns={data.columns} schema={data.schema} />
+                  </div>
+                  <div className={`h-full ${activeTab === DashboardTab.PIVOT ? 'block' : 'hidden'}`}>
+                    <PivotTable
+                      data={data.data}
+                      columns={data.columns}
+                      columnMeta={data.columnMeta}
+                      schema={data.schema}
+                      fileName={data.meta.fileName}
+                      onDrill={handleDrill}
+                    />
                   </div>
                   <div className={`h-full ${activeTab === DashboardTab.INSIGHTS ? 'block' : 'hidden'}`}>
                     <AiAssistant 
@@ -399,6 +610,15 @@ const App: React.FC = () => {
           </div>
         )}
       </main>
+
+      {data?.meta.diagnostics && showDiagnostics && (
+        <ParseDiagnostics
+          diagnostics={data.meta.diagnostics}
+          onSkip={handleSkipMalformedRows}
+          onKeep={() => setShowDiagnostics(false)}
+          onFix={handleFixMalformedRows}
+        />
+      )}
     </div>
   );
 };
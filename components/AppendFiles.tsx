@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowLeft, Check, FileText, AlertTriangle, Layers } from 'lucide-react';
+import { ParseResult } from '../types';
+import { SOURCE_FILE_COLUMN, getAppendReport } from '../utils/append';
+import { Button } from './Button';
+
+interface AppendFilesProps {
+  results: ParseResult[];
+  onConfirm: (addSourceColumn: boolean) => void;
+  onCancel: () => void;
+  isCompact?: boolean;
+}
+
+export const AppendFiles: React.FC<AppendFilesProps> = ({
+  results,
+  onConfirm,
+  onCancel,
+  isCompact = false
+}) => {
+  const [addSourceColumn, setAddSourceColumn] = useState(true);
+  const report = useMemo(() => getAppendReport(results), [results]);
+
+  const totalRows = report.reduce((sum, file) => sum + file.rowCount, 0);
+  // The first file's columns plus the ones it lacks make up the union
+  const columnCount = (results[0]?.columns.length || 0) + (report[0]?.missingColumns.length || 0);
+  const driftCount = report.filter(file => file.missingColumns.length > 0).length;
+
+  return (
+    <div className="w-full space-y-4 animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onCancel}
+          className="flex items-center text-slate-500 hover:text-slate-800 text-sm font-medium transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </button>
+        <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">
+          Append {results.length} files
+        </span>
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-2xl p-4 shadow-sm space-y-3">
+        <div className="flex items-center text-sm text-slate-700">
+          <Layers className="w-4 h-4 mr-2 text-blue-600" />
+          <span className="font-semibold mr-1">Combined:</span>
+          <span className="text-slate-500">
+            {totalRows.toLocaleString()} rows, {columnCount + (addSourceColumn ? 1 : 0)} columns
+          </span>
+        </div>
+
+        <label className="flex items-center text-sm text-slate-700 space-x-2 cursor-pointer">
+          <input
+            type="checkbox"
+            className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+            checked={addSourceColumn}
+            onChange={(e) => setAddSourceColumn(e.target.checked)}
+          />
+          <span>Add a <code className="font-mono text-xs bg-slate-100 px-1 rounded">{SOURCE_FILE_COLUMN}</code> column</span>
+        </label>
+      </div>
+
+      {driftCount > 0 && (
+        <div className="flex items-center p-3 bg-amber-50 text-amber-800 rounded-xl border border-amber-200 text-xs">
+          <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+          Columns differ in {driftCount} of {results.length} files. Missing columns are left empty.
+        </div>
+      )}
+
+      <ul className={`border border-slate-200 rounded-2xl bg-white shadow-sm divide-y divide-slate-100 overflow-auto ${isCompact ? 'max-h-48' : 'max-h-64'}`}>
+        {report.map((file, i) => (
+          <li key={`${file.fileName}-${i}`} className="px-4 py-2.5 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="flex items-center font-medium text-slate-700 truncate mr-4" title={file.fileName}>
+                <FileText className="w-4 h-4 mr-2 text-slate-400 flex-shrink-0" />
+                {file.fileName}
+              </span>
+              <span className="text-xs text-slate-400 whitespace-nowrap">{file.rowCount.toLocaleString()} rows</span>
+            </div>
+            {file.missingColumns.length > 0 && (
+              <p className="text-xs text-amber-700 mt-1 ml-6">
+                Missing: {file.missingColumns.join(', ')}
+              </p>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      <Button
+        className="w-full py-3 rounded-xl shadow-lg shadow-blue-100"
+        onClick={() => onConfirm(addSourceColumn)}
+        icon={<Check className="w-4 h-4" />}
+      >
+        Combine Files
+      </Button>
+    </div>
+  );
+};
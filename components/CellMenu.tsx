@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { ArrowDownToLine, ArrowRightToLine, Eraser, ListOrdered, PenLine } from 'lucide-react';
+
+export type CellAction = 'fill-down' | 'fill-right' | 'fill-series' | 'clear';
+
+interface CellMenuProps {
+  cellCount: number;
+  position: { x: number; y: number };
+  onAction: (action: CellAction) => void;
+  onSetValue: (text: string) => void;
+  onClose: () => void;
+}
+
+const MENU_WIDTH = 240;
+
+export const CellMenu: React.FC<CellMenuProps> = ({ cellCount, position, onAction, onSetValue, onClose }) => {
+  const [isSettingValue, setIsSettingValue] = useState(false);
+  const [value, setValue] = useState('');
+
+  const items: { action: CellAction; label: string; icon: React.ReactNode; shortcut?: string }[] = [
+    { action: 'fill-down', label: 'Fill down', icon: <ArrowDownToLine className="w-4 h-4" />, shortcut: 'Ctrl+D' },
+    { action: 'fill-right', label: 'Fill right', icon: <ArrowRightToLine className="w-4 h-4" />, shortcut: 'Ctrl+R' },
+    { action: 'fill-series', label: 'Fill series', icon: <ListOrdered className="w-4 h-4" /> },
+    { action: 'clear', label: 'Clear cells', icon: <Eraser className="w-4 h-4" />, shortcut: 'Del' }
+  ];
+
+  const left = Math.max(8, Math.min(position.x, window.innerWidth - MENU_WIDTH - 8));
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onMouseDown={onClose} onContextMenu={(e) => { e.preventDefault(); onClose(); }} />
+      <div
+        className="fixed z-50 bg-white rounded-xl shadow-2xl border border-slate-200 py-1 text-sm animate-in fade-in duration-150"
+        style={{ top: position.y, left, width: MENU_WIDTH }}
+      >
+        {isSettingValue ? (
+          <div className="p-2 space-y-2">
+            <input
+              autoFocus
+              className="w-full bg-white border border-slate-300 rounded-lg text-sm py-1.5 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Leave empty to clear"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') onSetValue(value);
+                else if (e.key === 'Escape') onClose();
+              }}
+            />
+            <p className="text-xs text-slate-400">Enter to set {cellCount.toLocaleString()} {cellCount === 1 ? 'cell' : 'cells'}, Esc to cancel</p>
+          </div>
+        ) : (
+          <>
+            <div className="px-3 py-1.5 text-xs font-semibold text-slate-400 uppercase tracking-wider">
+              {cellCount.toLocaleString()} {cellCount === 1 ? 'cell' : 'cells'} selected
+            </div>
+            <button
+              onClick={() => setIsSettingValue(true)}
+              className="w-full flex items-center px-3 py-1.5 text-slate-700 hover:bg-slate-50"
+            >
+              <PenLine className="w-4 h-4 mr-2 text-slate-400" />
+              Set value...
+            </button>
+            {items.map(item => (
+              <button
+                key={item.action}
+                onClick={() => onAction(item.action)}
+                className="w-full flex items-center px-3 py-1.5 text-slate-700 hover:bg-slate-50"
+              >
+                <span className="mr-2 text-slate-400">{item.icon}</span>
+                {item.label}
+                {item.shortcut && <span className="ml-auto text-xs text-slate-400">{item.shortcut}</span>}
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+    </>
+  );
+};
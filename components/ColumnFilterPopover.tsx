@@ -0,0 +1,229 @@
+import React, { useMemo, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { ColumnSchema, CsvRow } from '../types';
+import { FilterCondition, FilterOperator, createFilterId, getDistinctValues, validateCondition } from '../utils/filters';
+import { formatValue, isNumericType, parseValue } from '../utils/schema';
+import { Button } from './Button';
+
+interface ColumnFilterPopoverProps {
+  column: string;
+  columnName: string;
+  schema?: ColumnSchema;
+  data: CsvRow[];
+  conditions: FilterCondition[]; // Current header filters on this column
+  anchor: DOMRect;
+  onApply: (conditions: FilterCondition[]) => void;
+  onClose: () => void;
+}
+
+const POPOVER_WIDTH = 288;
+
+const TEXT_OPERATORS: { value: FilterOperator; label: string }[] = [
+  { value: 'contains', label: 'Contains' },
+  { value: 'not-contains', label: 'Does not contain' },
+  { value: 'equals', label: 'Equals' },
+  { value: 'regex', label: 'Matches regex' },
+  { value: 'empty', label: 'Is empty' },
+  { value: 'not-empty', label: 'Is not empty' }
+];
+
+export const ColumnFilterPopover: React.FC<ColumnFilterPopoverProps> = ({
+  column,
+  columnName,
+  schema,
+  data,
+  conditions,
+  anchor,
+  onApply,
+  onClose
+}) => {
+  const isNumeric = isNumericType(schema?.type);
+  const isDate = schema?.type === 'date';
+  const find = (...operators: FilterOperator[]) => conditions.find(c => operators.includes(c.operator));
+
+  // Range (numeric columns), shown in the column's own format
+  const range = find('between');
+  const [minText, setMinText] = useState(range?.min !== undefined ? formatValue(range.min, schema) : '');
+  const [maxText, setMaxText] = useState(range?.max !== undefined ? formatValue(range.max, schema) : '');
+
+  // Before / after (date columns)
+  const [afterDate, setAfterDate] = useState(find('after')?.value || '');
+  const [beforeDate, setBeforeDate] = useState(find('before')?.value || '');
+
+  // Text conditions
+  const textCondition = find('contains', 'not-contains', 'equals', 'regex', 'empty', 'not-empty');
+  const [textOperator, setTextOperator] = useState<FilterOperator>(textCondition?.operator || 'contains');
+  const [textValue, setTextValue] = useState(textCondition?.value || '');
+
+  // Value checklist (categorical columns)
+  const distinct = useMemo(
+    () => (isNumeric || isDate ? null : getDistinctValues(data, column, schema)),
+    [isNumeric, isDate, data, column, schema]
+  );
+  const [checked, setChecked] = useState<Set<string>>(
+    () => new Set(find('in')?.values ?? distinct?.map(d => d.value) ?? [])
+  );
+  const [valueSearch, setValueSearch] = useState('');
+
+  const shownValues = useMemo(() => {
+    if (!distinct) return [];
+    const term = valueSearch.toLowerCase();
+    return term ? distinct.filter(d => d.value.toLowerCase().includes(term)) : distinct;
+  }, [distinct, valueSearch]);
+
+  const parseBound = (text: string) => {
+    if (!text.trim() || !schema) return undefined;
+    const parsed = parseValue(text, schema);
+    return typeof parsed === 'number' ? parsed : undefined;
+  };
+  const minValue = parseBound(minText);
+  const maxValue = parseBound(maxText);
+  const rangeError = (minText.trim() && minValue === undefined) || (maxText.trim() && maxValue === undefined)
+    ? 'Enter numbers in the column\'s format.'
+    : null;
+
+  const pendingText: FilterCondition | null = schema?.type === 'boolean' || isNumeric || isDate
+    ? null
+    : textOperator === 'empty' || textOperator === 'not-empty' || textValue
+      ? { id: textCondition?.id || createFilterId(), column, operator: textOperator, value: textValue }
+      : null;
+  const textError = pendingText ? validateCondition(pendingText) : null;
+
+  const buildConditions = (): FilterCondition[] => {
+    const result: FilterCondition[] = [];
+    if (isNumeric && (minValue !== undefined || maxValue !== undefined)) {
+      result.push({ id: range?.id || createFilterId(), column, operator: 'between', min: minValue, max: maxValue });
+    }
+    if (isDate) {
+      if (afterDate) result.push({ id: createFilterId(), column, operator: 'after', value: afterDate });
+      if (beforeDate) result.push({ id: createFilterId(), column, operator: 'before', value: beforeDate });
+    }
+    if (pendingText) result.push(pendingText);
+    if (distinct && checked.size < distinct.length) {
+      result.push({ id: find('in')?.id || createFilterId(), column, operator: 'in', values: [...checked] });
+    }
+    return result;
+  };
+
+  const toggleValue = (value: string) => {
+    const next = new Set(checked);
+    if (next.has(value)) next.delete(value);
+    else next.add(value);
+    setChecked(next);
+  };
+
+  const allShownChecked = shownValues.every(d => checked.has(d.value));
+  const toggleAllShown = () => {
+    const next = new Set(checked);
+    shownValues.forEach(d => (allShownChecked ? next.delete(d.value) : next.add(d.value)));
+    setChecked(next);
+  };
+
+  const inputClass = "w-full bg-white border border-slate-300 rounded-lg text-sm py-1.5 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500";
+  const left = Math.max(8, Math.min(anchor.left, window.innerWidth - POPOVER_WIDTH - 8));
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onMouseDown={onClose} />
+      <div
+        className="fixed z-50 bg-white rounded-xl shadow-2xl border border-slate-200 p-3 space-y-3 text-sm animate-in fade-in duration-150"
+        style={{ top: anchor.bottom + 4, left, width: POPOVER_WIDTH }}
+      >
+        <div className="flex items-center justify-between">
+          <span className="font-semibold text-slate-700 truncate">Filter {columnName}</span>
+          <button onClick={onClose} className="p-1 text-slate-400 hover:text-slate-600 rounded">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {isNumeric && (
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+              <span>Min</span>
+              <input className={inputClass} value={minText} onChange={(e) => setMinText(e.target.value)} />
+            </label>
+            <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+              <span>Max</span>
+              <input className={inputClass} value={maxText} onChange={(e) => setMaxText(e.target.value)} />
+            </label>
+            {rangeError && <p className="col-span-2 text-xs text-red-600">{rangeError}</p>}
+          </div>
+        )}
+
+        {isDate && (
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+              <span>After</span>
+              <input type="date" className={inputClass} value={afterDate} onChange={(e) => setAfterDate(e.target.value)} />
+            </label>
+            <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+              <span>Before</span>
+              <input type="date" className={inputClass} value={beforeDate} onChange={(e) => setBeforeDate(e.target.value)} />
+            </label>
+          </div>
+        )}
+
+        {!isNumeric && !isDate && schema?.type !== 'boolean' && (
+          <div className="space-y-2">
+            <select
+              className={inputClass}
+              value={textOperator}
+              onChange={(e) => setTextOperator(e.target.value as FilterOperator)}
+            >
+              {TEXT_OPERATORS.map(op => <option key={op.value} value={op.value}>{op.label}</option>)}
+            </select>
+            {textOperator !== 'empty' && textOperator !== 'not-empty' && (
+              <input
+                className={`${inputClass} ${textOperator === 'regex' ? 'font-mono' : ''}`}
+                placeholder={textOperator === 'regex' ? '^INV-\\d+$' : 'Text...'}
+                value={textValue}
+                onChange={(e) => setTextValue(e.target.value)}
+              />
+            )}
+            {textError && <p className="text-xs text-red-600">{textError}</p>}
+          </div>
+        )}
+
+        {distinct && (
+          <div className="border border-slate-200 rounded-lg overflow-hidden">
+            <div className="relative border-b border-slate-200">
+              <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-400" />
+              <input
+                className="w-full pl-7 pr-2 py-1.5 text-xs focus:outline-none"
+                placeholder="Search values..."
+                value={valueSearch}
+                onChange={(e) => setValueSearch(e.target.value)}
+              />
+            </div>
+            <ul className="max-h-48 overflow-auto py-1">
+              <li>
+                <label className="flex items-center px-2 py-1 text-xs font-medium text-slate-600 hover:bg-slate-50 cursor-pointer">
+                  <input type="checkbox" className="mr-2 rounded border-slate-300" checked={allShownChecked} onChange={toggleAllShown} />
+                  Select all
+                </label>
+              </li>
+              {shownValues.map(d => (
+                <li key={d.value}>
+                  <label className="flex items-center px-2 py-1 text-xs text-slate-600 hover:bg-slate-50 cursor-pointer">
+                    <input type="checkbox" className="mr-2 rounded border-slate-300" checked={checked.has(d.value)} onChange={() => toggleValue(d.value)} />
+                    <span className={`flex-1 truncate ${d.value === '' ? 'italic text-slate-400' : ''}`}>{d.value === '' ? '(Blank)' : d.value}</span>
+                    <span className="ml-2 text-slate-400">{d.count.toLocaleString()}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {!distinct && !isNumeric && !isDate && (
+          <p className="text-xs text-slate-400">Too many distinct values to list; use a text condition instead.</p>
+        )}
+
+        <div className="flex justify-end gap-2 pt-1">
+          <Button size="sm" variant="ghost" onClick={() => onApply([])}>Clear</Button>
+          <Button size="sm" onClick={() => onApply(buildConditions())} disabled={!!rangeError || !!textError}>Apply</Button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Columns3, Pin, PinOff, Search } from 'lucide-react';
+import { ColumnMeta } from '../types';
+import { ColumnLayout, EMPTY_LAYOUT } from '../utils/layout';
+
+interface ColumnLayoutPanelProps {
+  columnMeta: ColumnMeta[];
+  layout: ColumnLayout;
+  onChange: (layout: ColumnLayout) => void;
+  onClose: () => void;
+}
+
+const toggle = (list: string[], key: string) => (list.includes(key) ? list.filter(k => k !== key) : [...list, key]);
+
+export const ColumnLayoutPanel: React.FC<ColumnLayoutPanelProps> = ({ columnMeta, layout, onChange, onClose }) => {
+  const [search, setSearch] = useState('');
+  const lowerSearch = search.toLowerCase();
+  const matching = columnMeta.filter(col => col.name.toLowerCase().includes(lowerSearch));
+  const hiddenCount = columnMeta.filter(col => layout.hidden.includes(col.key)).length;
+
+  // Toggles the matching columns together, so a search can show or hide a group at once
+  const setAllVisible = (visible: boolean) => {
+    const keys = new Set(matching.map(col => col.key));
+    if (visible) {
+      onChange({ ...layout, hidden: layout.hidden.filter(key => !keys.has(key)) });
+      return;
+    }
+    const hidden = new Set([...layout.hidden, ...keys]);
+    // Keep at least one column on screen
+    if (columnMeta.every(col => hidden.has(col.key))) hidden.delete(columnMeta[0].key);
+    onChange({ ...layout, hidden: [...hidden] });
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onMouseDown={onClose} />
+      <div className="absolute right-0 top-full mt-2 z-50 w-72 bg-white rounded-xl shadow-2xl border border-slate-200 overflow-hidden animate-in fade-in duration-150">
+        <div className="px-4 py-2.5 border-b border-slate-100 flex items-center justify-between text-sm font-semibold text-slate-700">
+          <span className="flex items-center">
+            <Columns3 className="w-4 h-4 mr-2 text-slate-400" />
+            Columns
+          </span>
+          <span className="text-xs font-normal text-slate-400">
+            {(columnMeta.length - hiddenCount).toLocaleString()} of {columnMeta.length.toLocaleString()} shown
+          </span>
+        </div>
+        <div className="p-2 border-b border-slate-100">
+          <div className="relative">
+            <Search className="absolute left-2.5 top-2 w-4 h-4 text-slate-400 pointer-events-none" />
+            <input
+              autoFocus
+              className="w-full pl-8 pr-2 py-1.5 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder="Find a column..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+        </div>
+        <ul className="max-h-80 overflow-auto py-1 text-sm">
+          {matching.map(col => {
+            const isHidden = layout.hidden.includes(col.key);
+            const isPinned = layout.pinned.includes(col.key);
+            const isLastShown = !isHidden && hiddenCount === columnMeta.length - 1;
+            return (
+              <li key={col.key} className="flex items-center px-3 py-1 hover:bg-slate-50 group">
+                <label className={`flex-1 flex items-center min-w-0 ${isLastShown ? 'cursor-not-allowed' : 'cursor-pointer'}`}>
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={!isHidden}
+                    disabled={isLastShown}
+                    onChange={() => onChange({ ...layout, hidden: toggle(layout.hidden, col.key) })}
+                  />
+                  <span className={`truncate ${isHidden ? 'text-slate-400' : 'text-slate-700'}`}>{col.name}</span>
+                </label>
+                <button
+                  onClick={() => onChange({ ...layout, pinned: toggle(layout.pinned, col.key) })}
+                  className={`p-1 rounded hover:bg-slate-200 transition-opacity
+                    ${isPinned ? 'text-blue-600' : 'text-slate-400 opacity-0 group-hover:opacity-100'}`}
+                  title={isPinned ? 'Unpin column' : 'Pin to the left'}
+                >
+                  {isPinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                </button>
+              </li>
+            );
+          })}
+          {matching.length === 0 && <li className="px-4 py-2 text-slate-400">No matching columns</li>}
+        </ul>
+        <div className="px-3 py-2 border-t border-slate-100 bg-slate-50 flex items-center justify-between text-xs font-medium">
+          <div className="space-x-3">
+            <button onClick={() => setAllVisible(true)} className="text-slate-600 hover:text-slate-900">Show all</button>
+            <button onClick={() => setAllVisible(false)} className="text-slate-600 hover:text-slate-900">Hide all</button>
+          </div>
+          <button onClick={() => onChange(EMPTY_LAYOUT)} className="text-slate-500 hover:text-slate-800" title="Show, unpin and re-size every column">
+            Reset layout
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
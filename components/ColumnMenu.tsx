@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { ArrowLeftToLine, ArrowRightToLine, Copy, EyeOff, Paintbrush, Pencil, Pin, PinOff, Shapes, Sigma, Trash2 } from 'lucide-react';
+
+export type ColumnAction = 'insert-left' | 'insert-right' | 'duplicate' | 'change-type' | 'to-values' | 'format' | 'pin' | 'hide' | 'delete';
+
+interface ColumnMenuProps {
+  columnName: string;
+  formula?: string; // Live computed columns can be turned into plain values but not retyped
+  isPinned?: boolean;
+  canFormat?: boolean;
+  position: { x: number; y: number };
+  onAction: (action: ColumnAction) => void;
+  onRename: (name: string) => void;
+  onClose: () => void;
+}
+
+const MENU_WIDTH = 224;
+
+export const ColumnMenu: React.FC<ColumnMenuProps> = ({ columnName, formula, isPinned, canFormat, position, onAction, onRename, onClose }) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [name, setName] = useState(columnName);
+
+  const items: { action: ColumnAction; label: string; icon: React.ReactNode; danger?: boolean }[] = [
+    { action: 'insert-left', label: 'Insert column left', icon: <ArrowLeftToLine className="w-4 h-4" /> },
+    { action: 'insert-right', label: 'Insert column right', icon: <ArrowRightToLine className="w-4 h-4" /> },
+    { action: 'duplicate', label: 'Duplicate column', icon: <Copy className="w-4 h-4" /> },
+    formula
+      ? { action: 'to-values', label: 'Convert to values', icon: <Sigma className="w-4 h-4" /> }
+      : { action: 'change-type', label: 'Change type...', icon: <Shapes className="w-4 h-4" /> },
+    ...(canFormat ? [{ action: 'format' as const, label: 'Conditional formatting...', icon: <Paintbrush className="w-4 h-4" /> }] : []),
+    isPinned
+      ? { action: 'pin', label: 'Unpin column', icon: <PinOff className="w-4 h-4" /> }
+      : { action: 'pin', label: 'Pin to the left', icon: <Pin className="w-4 h-4" /> },
+    { action: 'hide', label: 'Hide column', icon: <EyeOff className="w-4 h-4" /> },
+    { action: 'delete', label: 'Delete column', icon: <Trash2 className="w-4 h-4" />, danger: true }
+  ];
+
+  const submitRename = () => {
+    if (name.trim() && name !== columnName) onRename(name.trim());
+    else onClose();
+  };
+
+  const left = Math.max(8, Math.min(position.x, window.innerWidth - MENU_WIDTH - 8));
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onMouseDown={onClose} onContextMenu={(e) => { e.preventDefault(); onClose(); }} />
+      <div
+        className="fixed z-50 bg-white rounded-xl shadow-2xl border border-slate-200 py-1 text-sm animate-in fade-in duration-150"
+        style={{ top: position.y, left, width: MENU_WIDTH }}
+      >
+        {isRenaming ? (
+          <div className="p-2 space-y-2">
+            <input
+              autoFocus
+              className="w-full bg-white border border-slate-300 rounded-lg text-sm py-1.5 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onFocus={(e) => e.currentTarget.select()}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') submitRename();
+                else if (e.key === 'Escape') onClose();
+              }}
+            />
+            <p className="text-xs text-slate-400">Enter to rename, Esc to cancel</p>
+          </div>
+        ) : (
+          <>
+            <div className="px-3 py-1.5 text-xs font-semibold text-slate-400 uppercase tracking-wider truncate">{columnName}</div>
+            {formula && <div className="px-3 pb-1.5 text-xs font-mono text-slate-500 truncate" title={formula}>= {formula}</div>}
+            <button
+              onClick={() => setIsRenaming(true)}
+              className="w-full flex items-center px-3 py-1.5 text-slate-700 hover:bg-slate-50"
+            >
+              <Pencil className="w-4 h-4 mr-2 text-slate-400" />
+              Rename...
+            </button>
+            {items.map(item => (
+              <button
+                key={item.action}
+                onClick={() => onAction(item.action)}
+                className={`w-full flex items-center px-3 py-1.5 hover:bg-slate-50
+                  ${item.danger ? 'text-red-600 border-t border-slate-100 mt-1 pt-2' : 'text-slate-700'}`}
+              >
+                <span className={`mr-2 ${item.danger ? 'text-red-500' : 'text-slate-400'}`}>{item.icon}</span>
+                {item.label}
+              </button>
+            ))}
+          </>
+        )}
+      </div>
+    </>
+  );
+};
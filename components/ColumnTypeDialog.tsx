@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, Check, Shapes, X } from 'lucide-react';
+import { ColumnSchema, ColumnType, CsvRow } from '../types';
+import { COLUMN_TYPES, formatValue, isEmptyValue, retypeColumn } from '../utils/schema';
+import { Button } from './Button';
+
+interface ColumnTypeDialogProps {
+  column: string;
+  columnName: string;
+  data: CsvRow[];
+  schema: ColumnSchema;
+  initialType?: ColumnType;
+  onApply: (type: ColumnType) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 6;
+
+export const ColumnTypeDialog: React.FC<ColumnTypeDialogProps> = ({
+  column,
+  columnName,
+  data,
+  schema,
+  initialType,
+  onApply,
+  onClose
+}) => {
+  const [type, setType] = useState<ColumnType>(initialType ?? schema.type);
+  const preview = useMemo(() => retypeColumn(data, column, schema, type), [data, column, schema, type]);
+  const typeLabel = COLUMN_TYPES.find(t => t.value === type)?.label || type;
+
+  // A few filled rows, showing how each value reads before and after
+  const samples = useMemo(() => {
+    const rows: { before: string; after: string }[] = [];
+    for (let i = 0; i < data.length && rows.length < PREVIEW_ROWS; i++) {
+      if (isEmptyValue(data[i][column])) continue;
+      rows.push({
+        before: formatValue(data[i][column], schema),
+        after: formatValue(preview.data[i][column], preview.schema)
+      });
+    }
+    return rows;
+  }, [data, column, schema, preview]);
+
+  const failedSet = new Set(preview.failedValues);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg flex flex-col max-h-[90vh] overflow-hidden border border-slate-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-white">
+          <div className="flex items-center space-x-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <Shapes className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-800">Change Type</h3>
+              <p className="text-sm text-slate-500 truncate max-w-xs">{columnName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-slate-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-4">
+          <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+            <span>Convert to</span>
+            <select
+              className="bg-white border border-slate-300 rounded-lg text-sm py-2 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={type}
+              onChange={(e) => setType(e.target.value as ColumnType)}
+            >
+              {COLUMN_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+            </select>
+          </label>
+
+          {samples.length > 0 && (
+            <table className="w-full text-sm border border-slate-200 rounded-lg overflow-hidden">
+              <thead className="bg-slate-50 text-xs text-slate-500">
+                <tr>
+                  <th className="px-3 py-2 text-left font-semibold">Current</th>
+                  <th className="px-3 py-2 text-left font-semibold">As {typeLabel}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {samples.map((sample, i) => (
+                  <tr key={i}>
+                    <td className="px-3 py-1.5 text-slate-600 truncate max-w-[12rem]">{sample.before}</td>
+                    <td className={`px-3 py-1.5 truncate max-w-[12rem] ${failedSet.has(sample.before.trim()) ? 'text-amber-600' : 'text-slate-800'}`}>
+                      {sample.after}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {preview.failed > 0 ? (
+            <div className="p-3 bg-amber-50 text-amber-800 rounded-xl border border-amber-200 text-xs space-y-2">
+              <div className="flex items-center font-medium">
+                <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                {preview.failed.toLocaleString()} {preview.failed === 1 ? 'value' : 'values'} can't be read as {typeLabel} and will stay as text.
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {preview.failedValues.map(value => (
+                  <code key={value} className="px-1.5 py-0.5 bg-white border border-amber-200 rounded font-mono truncate max-w-[10rem]">{value}</code>
+                ))}
+                {preview.failed > preview.failedValues.length && <span className="text-amber-600">...</span>}
+              </div>
+            </div>
+          ) : (
+            <p className="flex items-center text-xs text-green-700">
+              <Check className="w-4 h-4 mr-1.5" />
+              Every value converts cleanly.
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => onApply(type)} disabled={type === schema.type} icon={<Check className="w-4 h-4" />}>
+            Change Type
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,11 @@
 
 import React, { useState, useMemo } from 'react';
-import { CsvRow, ParseResult } from '../types';
+import { ColumnMeta, ColumnSchema, CsvRow, ParseResult } from '../types';
 import { DataTable } from './DataTable';
 import { Button } from './Button';
-import * as d3 from 'd3';
-import * as XLSX from 'xlsx';
+import { getColumnName } from '../utils/columns';
+import { downloadCsv, downloadExcel } from '../utils/export';
+import { formatValue } from '../utils/schema';
 import { ArrowLeftRight, Check, X, FileMinus, AlertCircle, Calculator, Download, Table2 } from 'lucide-react';
 
 interface DataComparatorProps {
@@ -78,19 +79,23 @@ export const DataComparator: React.FC<DataComparatorProps> = ({ data1, data2 })
   const matchViewColumns = useMemo(() => {
     if (!joinKey) return [];
     
-    const cols = [joinKey];
+    const cols: ColumnMeta[] = [{ key: joinKey, name: getColumnName(data1.columnMeta, joinKey) }];
     const processedBaseCols = new Set<string>([joinKey]);
+    const fileColumn = (file: 1 | 2, col: string): ColumnMeta => ({
+      key: `(File ${file}) ${col}`,
+      name: `(File ${file}) ${getColumnName(file === 1 ? data1.columnMeta : data2.columnMeta, col)}`
+    });
 
     // 1. Process columns from Data 1
     data1.columns.forEach(col => {
       if (col === joinKey) return;
       
       // Add File 1 column
-      cols.push(`(File 1) ${col}`);
+      cols.push(fileColumn(1, col));
       
       // If this column also exists in Data 2, add it right next to it
       if (data2.columns.includes(col)) {
-        cols.push(`(File 2) ${col}`);
+        cols.push(fileColumn(2, col));
       }
       
       processedBaseCols.add(col);
@@ -99,7 +104,7 @@ export const DataComparator: React.FC<DataComparatorProps> = ({ data1, data2 })
     // 2. Process remaining columns from Data 2 (those not in Data 1)
     data2.columns.forEach(col => {
       if (!processedBaseCols.has(col)) {
-        cols.push(`(File 2) ${col}`);
+        cols.push(fileColumn(2, col));
       }
     });
 
@@ -107,16 +112,29 @@ export const DataComparator: React.FC<DataComparatorProps> = ({ data1, data2 })
   }, [data1, data2, joinKey]);
 
   // Determine columns for the current view
-  const currentColumns = useMemo(() => {
+  const currentColumnMeta = useMemo(() => {
     if (viewMode === 'matches') {
       return matchViewColumns;
     } else if (viewMode === 'unique1') {
-      return data1.columns;
+      return data1.columnMeta;
     } else {
-      return data2.columns;
+      return data2.columnMeta;
     }
   }, [viewMode, matchViewColumns, data1, data2]);
 
+  const currentColumns = useMemo(() => currentColumnMeta.map(col => col.key), [currentColumnMeta]);
+
+  // Merged columns keep the type detected in the file they came from
+  const currentSchema = useMemo(() => {
+    if (viewMode === 'unique1') return data1.schema;
+    if (viewMode === 'unique2') return data2.schema;
+
+    const schema: Record<string, ColumnSchema> = { [joinKey]: data1.schema[joinKey] };
+    data1.columns.forEach(col => { schema[`(File 1) ${col}`] = data1.schema[col]; });
+    data2.columns.forEach(col => { schema[`(File 2) ${col}`] = data2.schema[col]; });
+    return schema;
+  }, [viewMode, data1, data2, joinKey]);
+
   // Prepare comparison data for the selected row modal
   const selectedRowComparison = useMemo(() => {
     if (!selectedRow || viewMode !== 'matches') return null;
@@ -127,8 +145,8 @@ export const DataComparator: React.FC<DataComparatorProps> = ({ data1, data2 })
       if (col === joinKey) {
         return { 
           col, 
-          val1: selectedRow[joinKey], 
-          val2: selectedRow[joinKey], 
+          val1: formatValue(selectedRow[joinKey], data1.schema[joinKey]), 
+          val2: formatValue(selectedRow[joinKey], data1.schema[joinKey]), 
           isMatch: true, 
           diff: null 
         };
@@ -159,8 +177,8 @@ export const DataComparator: React.FC<DataComparatorProps> = ({ data1, data2 })
 
       return {
         col,
-        val1: hasVal1 ? val1 : <span className="text-slate-300 text-xs uppercase">Missing</span>,
-        val2: hasVal2 ? val2 : <span className="text-slate-300 text-xs uppercase">Missing</span>,
+        val1: hasVal1 ? formatValue(val1, data1.schema[col]) : <span className="text-slate-300 text-xs uppercase">Missing</span>,
+        val2: hasVal2 ? formatValue(val2, data2.schema[col]) : <span className="text-slate-300 text-xs uppercase">Missing</span>,
         isMatch,
         diff
       };
@@ -170,7 +188,11 @@ export const DataComparator: React.FC<DataComparatorProps> = ({ data1, data2 })
         return a.isMatch ? 1 : -1;
     });
 
-  }, [selectedRow, viewMode, data1.columns, data2.columns, joinKey]);
+  }, [selectedRow, viewMode, data1, data2, joinKey]);
+
+  // Header text for a column key from either file, preferring File 1
+  const getOriginalName = (col: string) =>
+    getColumnName(data1.columns.includes(col) ? data1.columnMeta : data2.columnMeta, col);
 
   const getExportData = () => {
     return viewMode === 'matches' ? comparisonResult.matches :
@@ -191,27 +213,15 @@ export const DataComparator: React.FC<DataComparatorProps> = ({ data1, data2 })
     const dataToExport = getExportData();
     if (dataToExport.length === 0) return;
 
-    const csv = d3.csvFormat(dataToExport, currentColumns);
-    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.setAttribute('href', url);
-    link.setAttribute('download', getExportFileName('csv'));
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+    downloadCsv(dataToExport, currentColumnMeta, getExportFileName('csv'), { schema: currentSchema });
   };
 
   const handleExportExcel = () => {
     const dataToExport = getExportData();
     if (dataToExport.length === 0) return;
 
-    // We use the currentColumns to ensure the Excel has the same order as shown
-    const worksheet = XLSX.utils.json_to_sheet(dataToExport, { header: currentColumns });
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, "Comparison");
-    XLSX.writeFile(workbook, getExportFileName('xlsx'));
+    // We use the currentColumnMeta to ensure the Excel has the same order and headers as shown
+    downloadExcel(dataToExport, currentColumnMeta, getExportFileName('xlsx'), "Comparison", currentSchema);
   };
 
   if (commonColumns.length === 0) {
@@ -242,7 +252,7 @@ export const DataComparator: React.FC<DataComparatorProps> = ({ data1, data2 })
                 className="bg-slate-100 border-none font-semibold text-indigo-700 rounded-md py-1 px-3 focus:ring-2 focus:ring-indigo-500 cursor-pointer hover:bg-slate-200 transition-colors"
               >
                 {commonColumns.map(col => (
-                  <option key={col} value={col}>{col}</option>
+                  <option key={col} value={col}>{getColumnName(data1.columnMeta, col)}</option>
                 ))}
               </select>
               <span className="text-slate-700">is the same.</span>
@@ -345,6 +355,8 @@ export const DataComparator: React.FC<DataComparatorProps> = ({ data1, data2 })
             comparisonResult.unique2
           } 
           columns={currentColumns} 
+          columnMeta={currentColumnMeta}
+          schema={currentSchema}
           onRowClick={viewMode === 'matches' ? (row) => setSelectedRow(row) : undefined}
         />
       </div>
@@ -361,7 +373,7 @@ export const DataComparator: React.FC<DataComparatorProps> = ({ data1, data2 })
                 </div>
                 <div>
                   <h3 className="text-lg font-bold text-slate-800">Row Difference Analysis</h3>
-                  <p className="text-sm text-slate-500">Comparing <span className="font-medium text-indigo-600">{joinKey}: {String(selectedRow[joinKey])}</span></p>
+                  <p className="text-sm text-slate-500">Comparing <span className="font-medium text-indigo-600">{getColumnName(data1.columnMeta, joinKey)}: {String(selectedRow[joinKey])}</span></p>
                 </div>
               </div>
               <button 
@@ -389,7 +401,7 @@ export const DataComparator: React.FC<DataComparatorProps> = ({ data1, data2 })
                       key={row.col} 
                       className={`${!row.isMatch ? 'bg-red-50/50' : 'bg-white'} hover:bg-slate-50 transition-colors`}
                     >
-                      <td className="px-6 py-3 font-medium text-slate-700 border-r border-slate-100/50">{row.col}</td>
+                      <td className="px-6 py-3 font-medium text-slate-700 border-r border-slate-100/50">{getOriginalName(row.col)}</td>
                       <td className={`px-6 py-3 ${!row.isMatch ? 'text-red-700 bg-red-50/30' : 'text-slate-600'}`}>
                         {row.val1}
                       </td>
@@ -1,47 +1,190 @@
-import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
-import { CsvRow } from '../types';
-import { Search, ArrowUpDown, ArrowUp, ArrowDown, Trash2, Plus, Calculator } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useLayoutEffect, useRef, useCallback, useDeferredValue } from 'react';
+import { CellChange, ColumnMeta, ColumnSchema, ColumnType, CsvRow, CsvValue } from '../types';
+import { Search, ArrowUpDown, ArrowUp, ArrowDown, Trash2, Plus, Calculator, Filter, X, Sigma, Replace, Columns3, ShieldCheck, AlertTriangle, ArrowRight, CopyX } from 'lucide-react';
 import { Button } from './Button';
+import { ColumnFilterPopover } from './ColumnFilterPopover';
+import { FilterBuilder } from './FilterBuilder';
+import { ColumnAction, ColumnMenu } from './ColumnMenu';
+import { ColumnTypeDialog } from './ColumnTypeDialog';
+import { ComputedColumn, FormulaDialog } from './FormulaDialog';
+import { CellRange, FindReplaceDialog } from './FindReplaceDialog';
+import { ColumnLayoutPanel } from './ColumnLayoutPanel';
+import { CellAction, CellMenu } from './CellMenu';
+import { ValidationDialog } from './ValidationDialog';
+import { FormattingDialog } from './FormattingDialog';
+import { DedupeDialog } from './DedupeDialog';
 import * as d3 from 'd3';
+import { COLUMN_TYPES, compareValues, convertValue, formatValue, inferSchema, isEmptyValue, isNumericType } from '../utils/schema';
+import { EditCommand } from '../utils/history';
+import { parseTsv, toHtmlTable, toTsv } from '../utils/clipboard';
+import { uniqueColumnKey } from '../utils/columns';
+import { seriesSeeds, seriesValues } from '../utils/fill';
+import { ValidationRule, validateRows } from '../utils/validation';
+import { FormatRule, TrendIcon, buildFormatter } from '../utils/formatting';
+import { ColumnLayout, EMPTY_LAYOUT, arrangeColumns, loadColumnLayout, saveColumnLayout } from '../utils/layout';
+import { EMPTY_FILTER, RowFilter, compileFilter, countConditions, describeCondition, getColumnConditions, removeCondition, setColumnConditions } from '../utils/filters';
 
 interface DataTableProps {
   data: CsvRow[];
   columns: string[];
+  columnMeta?: ColumnMeta[]; // Display names for the column keys
+  schema?: Record<string, ColumnSchema>; // Inferred from the data when omitted
+  onColumnTypeChange?: (col: string, type: ColumnType) => void;
   onRowClick?: (row: CsvRow) => void;
-  onDataChange?: (newData: CsvRow[]) => void;
+  onEdit?: (command: EditCommand) => void; // Cell edits and pastes, as undoable commands
   onRowDelete?: (originalIndex: number) => void;
+  onRowsDelete?: (originalIndices: number[], label: string) => void; // Removes several rows as one undoable step
   onRowAdd?: () => void;
   isEditable?: boolean;
+  rowSubset?: number[]; // Only show these rows (by index in `data`), e.g. rows being fixed after import
+  rowNotes?: Map<number, string>; // Flags rows (by index in `data`) with a note shown on the row number
+  layoutKey?: string; // File name the hidden, pinned and resized columns are remembered under
+  formatRules?: FormatRule[]; // Conditional formats, kept by the caller so exports can carry them
+  onFormatRulesChange?: (rules: FormatRule[]) => void;
 }
 
 type SortDirection = 'asc' | 'desc';
 
-interface SortConfig {
+interface SortKey {
   key: string;
   direction: SortDirection;
 }
 
+// Where empty cells go, regardless of sort direction
+type NullsOrder = 'first' | 'last';
+
+// Rows have a fixed height so the visible slice can be computed from the scroll offset
+const ROW_HEIGHT = 40;
+const OVERSCAN_ROWS = 10;
+const OVERSCAN_PX = 400;
+const INDEX_COLUMN_WIDTH = 64;
+const ACTIONS_COLUMN_WIDTH = 80;
+const MIN_COLUMN_WIDTH = 110;
+const MAX_COLUMN_WIDTH = 320;
+const WIDTH_SAMPLE_ROWS = 200;
+const MIN_RESIZED_WIDTH = 60;
+const MAX_RESIZED_WIDTH = 800;
+const AUTOFIT_SAMPLE_ROWS = 10000;
+// Room for the sort, filter and select-column controls next to a header name
+const HEADER_CONTROLS_WIDTH = 72;
+const CELL_PADDING = 50;
+
+// Icon-set arrows, colored like Excel's 3 Arrows preset
+const TREND_ICONS: Record<TrendIcon, React.ReactNode> = {
+  up: <ArrowUp className="inline w-3.5 h-3.5 mr-1 -mt-0.5 text-green-600" />,
+  flat: <ArrowRight className="inline w-3.5 h-3.5 mr-1 -mt-0.5 text-amber-500" />,
+  down: <ArrowDown className="inline w-3.5 h-3.5 mr-1 -mt-0.5 text-red-600" />
+};
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+// Widths of rendered text, for fitting a column to its contents
+const measureText = (text: string, font: string) => {
+  measureContext ??= document.createElement('canvas').getContext('2d');
+  if (!measureContext) return text.length * 8;
+  measureContext.font = font;
+  return measureContext.measureText(text).width;
+};
+
 interface EditingCell {
-  rowIndex: number; // correlates to _originalIndex
+  rowIndex: number; // Index of the row in `data`
   col: string;
 }
 
+interface FilterPopoverState {
+  column: string;
+  anchor: DOMRect;
+}
+
+interface ColumnMenuState {
+  column: string;
+  position: { x: number; y: number };
+}
+
 interface SelectionPoint {
   rowIndex: number; // Index in the current visible (sorted/filtered) list
   colIndex: number;
 }
 
+const ColumnTypeLabel: React.FC<{ schema?: ColumnSchema; onChange?: (type: ColumnType) => void }> = ({ schema, onChange }) => {
+  if (!schema) return null;
+  const label = COLUMN_TYPES.find(t => t.value === schema.type)?.label || schema.type;
+  const title = [
+    schema.format && `Format: ${schema.format}`,
+    schema.inferredType && `Overridden (detected as ${COLUMN_TYPES.find(t => t.value === schema.inferredType)?.label})`
+  ].filter(Boolean).join('\n') || undefined;
+
+  if (schema.formula) {
+    return (
+      <div className="text-[10px] font-medium uppercase tracking-wider text-blue-500" title={`Computed: ${schema.formula}`}>
+        ƒ {label}
+      </div>
+    );
+  }
+
+  if (!onChange) {
+    return <div className="text-[10px] font-medium uppercase tracking-wider text-slate-400" title={title}>{label}</div>;
+  }
+
+  return (
+    <select
+      value={schema.type}
+      title={title}
+      onClick={(e) => e.stopPropagation()}
+      onChange={(e) => onChange(e.target.value as ColumnType)}
+      className={`block text-[10px] font-medium uppercase tracking-wider bg-transparent border-none p-0 cursor-pointer focus:outline-none hover:text-blue-600
+        ${schema.inferredType ? 'text-amber-600' : 'text-slate-400'}`}
+    >
+      {COLUMN_TYPES.map(type => (
+        <option key={type.value} value={type.value}>{type.label}</option>
+      ))}
+    </select>
+  );
+};
+
 export const DataTable: React.FC<DataTableProps> = ({ 
   data, 
   columns, 
+  columnMeta,
+  schema,
+  onColumnTypeChange,
   onRowClick,
-  onDataChange,
+  onEdit,
   onRowDelete,
+  onRowsDelete,
   onRowAdd,
-  isEditable = false
+  isEditable = false,
+  rowSubset,
+  rowNotes,
+  layoutKey,
+  formatRules,
+  onFormatRulesChange
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [sortConfig, setSortConfig] = useState<SortConfig | null>(null);
+  const [sortKeys, setSortKeys] = useState<SortKey[]>([]); // In priority order
+  const [nullsOrder, setNullsOrder] = useState<NullsOrder>('last');
+
+  // Filter State
+  const [filter, setFilter] = useState<RowFilter>(EMPTY_FILTER);
+  const [filterPopover, setFilterPopover] = useState<FilterPopoverState | null>(null);
+  const [showFilterBuilder, setShowFilterBuilder] = useState(false);
+
+  // Column Management State
+  const [columnMenu, setColumnMenu] = useState<ColumnMenuState | null>(null);
+  const [typeDialog, setTypeDialog] = useState<{ column: string; type?: ColumnType } | null>(null);
+  const [dragColumn, setDragColumn] = useState<number | null>(null);
+  const [dropColumn, setDropColumn] = useState<number | null>(null);
+  const [showFormulaDialog, setShowFormulaDialog] = useState(false);
+  const [findReplace, setFindReplace] = useState<{ selection?: CellRange; column?: string } | null>(null);
+  const [layout, setLayout] = useState<ColumnLayout>(() => (layoutKey ? loadColumnLayout(layoutKey) : EMPTY_LAYOUT));
+  const [showLayoutPanel, setShowLayoutPanel] = useState(false);
+  const [resizing, setResizing] = useState<{ column: string; width: number } | null>(null);
+  const [cellMenu, setCellMenu] = useState<{ x: number; y: number } | null>(null);
+  const [rules, setRules] = useState<ValidationRule[]>([]);
+  const [showValidation, setShowValidation] = useState(false);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [formattingColumn, setFormattingColumn] = useState<string | null>(null);
+  const [showDedupe, setShowDedupe] = useState(false);
   
   // Selection State
   const [selectionStart, setSelectionStart] = useState<SelectionPoint | null>(null);
@@ -53,52 +196,201 @@ export const DataTable: React.FC<DataTableProps> = ({
   const [editValue, setEditValue] = useState<string>('');
   const inputRef = useRef<HTMLInputElement>(null);
 
-  // Attach original index to data to track rows through sort/filter
-  const indexedData = useMemo(() => {
-    return data.map((row, idx) => ({ ...row, _originalIndex: idx }));
-  }, [data]);
-
-  // Filter data based on search
-  const filteredData = useMemo(() => {
-    if (!searchTerm) return indexedData;
-    const lowerTerm = searchTerm.toLowerCase();
-    return indexedData.filter(row => 
-      columns.some(col => String(row[col]).toLowerCase().includes(lowerTerm))
+  // Virtualization State
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+
+  const columnNames = useMemo(() => {
+    const names = new Map<string, string>();
+    columnMeta?.forEach(col => names.set(col.key, col.name || col.key));
+    return names;
+  }, [columnMeta]);
+
+  const columnSchema = useMemo(() => schema ?? inferSchema(data, columns), [schema, data, columns]);
+
+  // Each file keeps its own layout; switching files loads the other one
+  const loadedLayoutKey = useRef(layoutKey);
+  useEffect(() => {
+    if (loadedLayoutKey.current !== layoutKey) {
+      loadedLayoutKey.current = layoutKey;
+      setLayout(layoutKey ? loadColumnLayout(layoutKey) : EMPTY_LAYOUT);
+      return;
+    }
+    if (layoutKey) saveColumnLayout(layoutKey, layout);
+  }, [layoutKey, layout]);
+
+  // The grid works on the displayed columns, so selection and keyboard
+  // navigation skip hidden ones and start with the pinned ones
+  const shownColumns = useMemo(() => arrangeColumns(columns, layout), [columns, layout]);
+  const pinnedCount = useMemo(() => shownColumns.filter(col => layout.pinned.includes(col)).length, [shownColumns, layout]);
+
+  // Sorts, filters and rules on a deleted column no longer apply
+  useEffect(() => {
+    const present = new Set(columns);
+    setSortKeys(prev => (prev.every(k => present.has(k.key)) ? prev : prev.filter(k => present.has(k.key))));
+    setRules(prev => (prev.every(r => present.has(r.column)) ? prev : prev.filter(r => present.has(r.column))));
+    setFilter(prev => {
+      const stale = prev.groups.flatMap(group => group.conditions).filter(c => !present.has(c.column));
+      return stale.reduce((next, c) => removeCondition(next, c.id), prev);
+    });
+  }, [columns]);
+
+  // Rows are tracked through filter/sort as indices into `data`, so large
+  // datasets are never copied row by row
+  const baseIndices = useMemo(() => {
+    if (rowSubset) return rowSubset.filter(idx => idx < data.length);
+    return data.map((_, idx) => idx);
+  }, [data, rowSubset]);
+
+  // Rules are checked against every row the table can show, so counts don't
+  // change with the search or filters
+  const validation = useMemo(
+    () => (rules.length > 0 ? validateRows(data, baseIndices, rules, columnSchema) : null),
+    [data, baseIndices, rules, columnSchema]
+  );
+
+  const formatCell = useMemo(
+    () => (formatRules?.length ? buildFormatter(data, formatRules, columnSchema) : null),
+    [data, formatRules, columnSchema]
+  );
+
+  // Scanning every cell is slow on large datasets, so typing stays responsive while it runs
+  const deferredSearchTerm = useDeferredValue(searchTerm);
+
+  const rowPredicate = useMemo(() => compileFilter(filter, columnSchema), [filter, columnSchema]);
+  const filterCount = countConditions(filter);
+
+  // Filter data based on the column filters and validation errors, then the search
+  const filteredIndices = useMemo(() => {
+    let matching = rowPredicate ? baseIndices.filter(idx => rowPredicate(data[idx])) : baseIndices;
+    if (errorsOnly && validation) matching = matching.filter(idx => validation.cellErrors.has(idx));
+    if (!deferredSearchTerm) return matching;
+    const lowerTerm = deferredSearchTerm.toLowerCase();
+    return matching.filter(idx => 
+      columns.some(col => formatValue(data[idx][col], columnSchema[col]).toLowerCase().includes(lowerTerm))
     );
-  }, [indexedData, columns, searchTerm]);
+  }, [baseIndices, data, columns, columnSchema, rowPredicate, errorsOnly, validation, deferredSearchTerm]);
 
-  // Sort data based on sortConfig
-  const sortedData = useMemo(() => {
-    if (!sortConfig) return filteredData;
+  // Sort data by each key in turn; later keys only break ties
+  const rowOrder = useMemo(() => {
+    if (sortKeys.length === 0) return filteredIndices;
 
-    return [...filteredData].sort((a, b) => {
-      const aValue = a[sortConfig.key];
-      const bValue = b[sortConfig.key];
+    return [...filteredIndices].sort((a, b) => {
+      for (const { key, direction } of sortKeys) {
+        const aValue = data[a][key];
+        const bValue = data[b][key];
+        const aEmpty = isEmptyValue(aValue);
+        const bEmpty = isEmptyValue(bValue);
 
-      if (aValue === null || aValue === undefined) return 1;
-      if (bValue === null || bValue === undefined) return -1;
+        // Empty cells keep their place in both directions
+        if (aEmpty || bEmpty) {
+          if (aEmpty === bEmpty) continue;
+          return (aEmpty ? 1 : -1) * (nullsOrder === 'last' ? 1 : -1);
+        }
 
-      if (typeof aValue === 'number' && typeof bValue === 'number') {
-        return sortConfig.direction === 'asc' ? aValue - bValue : bValue - aValue;
+        const result = compareValues(aValue, bValue, columnSchema[key]);
+        if (result !== 0) return direction === 'asc' ? result : -result;
       }
-
-      const strA = String(aValue).toLowerCase();
-      const strB = String(bValue).toLowerCase();
-      
-      if (strA < strB) return sortConfig.direction === 'asc' ? -1 : 1;
-      if (strA > strB) return sortConfig.direction === 'asc' ? 1 : -1;
+      // Array sort is stable, so fully tied rows keep their original order
       return 0;
     });
-  }, [filteredData, sortConfig]);
+  }, [filteredIndices, data, sortKeys, nullsOrder, columnSchema]);
+
+  // Click sorts by one column (ascending, then descending); shift-click adds
+  // the column as another key, or flips it and then removes it
+  const handleSortClick = (col: string, e: React.MouseEvent) => {
+    const existing = sortKeys.find(k => k.key === col);
+    if (e.shiftKey) {
+      if (!existing) {
+        setSortKeys([...sortKeys, { key: col, direction: 'asc' }]);
+      } else if (existing.direction === 'asc') {
+        setSortKeys(sortKeys.map(k => (k.key === col ? { ...k, direction: 'desc' } : k)));
+      } else {
+        setSortKeys(sortKeys.filter(k => k.key !== col));
+      }
+      return;
+    }
+    const direction: SortDirection = sortKeys.length === 1 && existing?.direction === 'asc' ? 'desc' : 'asc';
+    setSortKeys([{ key: col, direction }]);
+  };
+
+  // --- Virtualization ---
+
+  // Widths are estimated once from the header and a sample of values, since
+  // only the columns in view are ever measured by the browser
+  const estimatedWidths = useMemo(() => {
+    const sample = data.slice(0, WIDTH_SAMPLE_ROWS);
+    const widths = new Map<string, number>();
+    columns.forEach(col => {
+      const headerChars = (columnNames.get(col) ?? col).length + 3;
+      const valueChars = sample.reduce((max, row) => Math.max(max, formatValue(row[col], columnSchema[col]).length), 0);
+      widths.set(col, Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, Math.max(headerChars, valueChars) * 8 + 48)));
+    });
+    return widths;
+  }, [data, columns, columnNames, columnSchema]);
+
+  // Widths set by hand win over the estimate
+  const columnWidths = useMemo(() => shownColumns.map(col => {
+    if (resizing?.column === col) return resizing.width;
+    return layout.widths[col] ?? estimatedWidths.get(col) ?? MIN_COLUMN_WIDTH;
+  }), [shownColumns, layout, estimatedWidths, resizing]);
+
+  const columnOffsets = useMemo(() => {
+    const offsets = [0];
+    columnWidths.forEach(width => offsets.push(offsets[offsets.length - 1] + width));
+    return offsets;
+  }, [columnWidths]);
+
+  const totalColumnsWidth = columnOffsets[columnOffsets.length - 1];
+  const tableWidth = INDEX_COLUMN_WIDTH + totalColumnsWidth + (isEditable ? ACTIONS_COLUMN_WIDTH : 0);
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const measure = () => setViewport({ width: el.clientWidth, height: el.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollLeft } = e.currentTarget;
+    setScroll(prev => (prev.top === scrollTop && prev.left === scrollLeft ? prev : { top: scrollTop, left: scrollLeft }));
+  };
+
+  const firstRow = Math.max(0, Math.floor(scroll.top / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowOrder.length - 1, Math.ceil((scroll.top + viewport.height) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+  // Pinned columns are always mounted; the rest scroll beneath them
+  const pinnedWidth = columnOffsets[pinnedCount];
+  const visibleColumns = useMemo(() => {
+    const start = scroll.left + pinnedWidth - OVERSCAN_PX;
+    const end = scroll.left + viewport.width + OVERSCAN_PX;
+    const visible: number[] = [];
+    shownColumns.forEach((_, i) => {
+      if (i < pinnedCount || (columnOffsets[i + 1] >= start && columnOffsets[i] <= end)) visible.push(i);
+    });
+    return visible;
+  }, [shownColumns, columnOffsets, pinnedCount, pinnedWidth, scroll.left, viewport.width]);
+
+  const firstScrolling = visibleColumns[pinnedCount] ?? pinnedCount;
+  const lastColumn = visibleColumns[visibleColumns.length - 1] ?? -1;
+  const leftSpacer = columnOffsets[firstScrolling] - pinnedWidth;
+  const rightSpacer = totalColumnsWidth - columnOffsets[lastColumn + 1];
+  const renderedColSpan = 1 + visibleColumns.length + (leftSpacer > 0 ? 1 : 0) + (rightSpacer > 0 ? 1 : 0) + (isEditable ? 1 : 0);
 
   // --- Selection Logic ---
   const handleCellMouseDown = (rowIndex: number, colIndex: number, e: React.MouseEvent) => {
     if (editingCell) return;
+    // Right-clicking inside the selection opens the cell menu for all of it
+    if (e.button === 2 && colIndex >= 0 && isCellSelected(rowIndex, colIndex)) return;
     
     // Check if clicking the index column for row selection
     if (colIndex === -1) {
       setSelectionStart({ rowIndex, colIndex: 0 });
-      setSelectionEnd({ rowIndex, colIndex: columns.length - 1 });
+      setSelectionEnd({ rowIndex, colIndex: shownColumns.length - 1 });
       setIsSelecting(true);
       return;
     }
@@ -166,15 +458,15 @@ export const DataTable: React.FC<DataTableProps> = ({
     let cellCount = 0;
 
     for (let r = minRow; r <= maxRow; r++) {
-      const row = sortedData[r];
+      const row = data[rowOrder[r]];
       if (!row) continue;
       for (let c = minCol; c <= maxCol; c++) {
         cellCount++;
-        const colName = columns[c];
+        const colName = shownColumns[c];
         const val = row[colName];
-        const num = typeof val === 'number' ? val : parseFloat(String(val));
-        if (!isNaN(num)) {
-          values.push(num);
+        // Only typed numbers in numeric columns count; codes and IDs stored as text do not
+        if (typeof val === 'number' && isNumericType(columnSchema[colName]?.type)) {
+          values.push(val);
         }
       }
     }
@@ -196,61 +488,593 @@ export const DataTable: React.FC<DataTableProps> = ({
       min,
       max
     };
-  }, [selectionStart, selectionEnd, sortedData, columns]);
+  }, [selectionStart, selectionEnd, rowOrder, data, shownColumns, columnSchema]);
+
+  // Text fields inside the grid handle their own keys and clipboard
+  const isTextField = (target: EventTarget) => (target as HTMLElement).closest('input, textarea, select') !== null;
 
   // --- Editing Handlers ---
-  const startEditing = (row: any, col: string) => {
-    if (!isEditable) return;
-    setEditingCell({ rowIndex: row._originalIndex, col });
-    setEditValue(row[col] === null ? '' : String(row[col]));
-    setSelectionStart(null);
-    setSelectionEnd(null);
+
+  // Mirrors editingCell so a commit runs once even when the input also blurs
+  const editingRef = useRef<EditingCell | null>(null);
+
+  // `initialValue` replaces the cell's text, as when editing starts by typing
+  const startEditing = (position: number, colIndex: number, initialValue?: string) => {
+    const originalIndex = rowOrder[position];
+    const col = shownColumns[colIndex];
+    // Live computed columns are recalculated, so their cells are read-only
+    if (!isEditable || !onEdit || originalIndex === undefined || !col || columnSchema[col]?.formula) return;
+    editingRef.current = { rowIndex: originalIndex, col };
+    setEditingCell(editingRef.current);
+    setEditValue(initialValue ?? formatValue(data[originalIndex][col], columnSchema[col]));
+    setSelectionStart({ rowIndex: position, colIndex });
+    setSelectionEnd({ rowIndex: position, colIndex });
   };
 
   const cancelEditing = () => {
+    editingRef.current = null;
     setEditingCell(null);
     setEditValue('');
   };
 
   const saveEditing = () => {
-    if (!editingCell || !onDataChange) return;
+    const editing = editingRef.current;
+    if (!editing || !onEdit) return;
+    editingRef.current = null;
 
-    const { rowIndex, col } = editingCell;
-    const newData = [...data];
+    const { rowIndex, col } = editing;
     
-    let finalValue: string | number | null = editValue;
+    let finalValue: CsvValue = editValue;
     if (editValue.trim() === '') {
        finalValue = ''; 
     } else {
-        const numVal = Number(editValue);
-        if (!isNaN(numVal) && !editValue.endsWith('.') && editValue.trim() !== '') {
-            finalValue = numVal;
-        }
+        // Convert to the column's type; text that does not fit is kept as typed
+        finalValue = convertValue(editValue, columnSchema[col]);
     }
 
-    newData[rowIndex] = { ...newData[rowIndex], [col]: finalValue };
-    onDataChange(newData);
+    // The raw value, so undo restores an empty cell as it was (null or '')
+    const before = data[rowIndex][col];
+    if ((before ?? '') !== finalValue) {
+      onEdit({
+        kind: 'set-cells',
+        label: `Edit ${columnNames.get(col) ?? col} in row ${rowIndex + 1}`,
+        changes: [{ rowIndex, column: col, before, after: finalValue }]
+      });
+    }
     setEditingCell(null);
   };
 
+  // Enter and Tab commit the edit and move on, as in a spreadsheet
   const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (e.key === 'Enter') {
+    if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      const position = selectionStart;
       saveEditing();
+      scrollRef.current?.focus({ preventScroll: true });
+      if (position) {
+        if (e.key === 'Enter') moveActiveCell(position.rowIndex + (e.shiftKey ? -1 : 1), position.colIndex);
+        else moveActiveCell(position.rowIndex, position.colIndex + (e.shiftKey ? -1 : 1));
+      }
     } else if (e.key === 'Escape') {
       cancelEditing();
+      scrollRef.current?.focus({ preventScroll: true });
+    }
+  };
+
+  // --- Keyboard Navigation ---
+
+  const scrollCellIntoView = (position: number, colIndex: number) => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const headerHeight = el.querySelector('thead')?.offsetHeight ?? 0;
+
+    const rowTop = position * ROW_HEIGHT;
+    if (rowTop < el.scrollTop) {
+      el.scrollTop = rowTop;
+    } else if (headerHeight + rowTop + ROW_HEIGHT > el.scrollTop + el.clientHeight) {
+      el.scrollTop = headerHeight + rowTop + ROW_HEIGHT - el.clientHeight;
+    }
+
+    // The sticky index and pinned columns cover the left edge of the scrolled area
+    if (colIndex < pinnedCount) return;
+    const colLeft = columnOffsets[colIndex];
+    const colRight = columnOffsets[colIndex + 1];
+    if (colLeft - pinnedWidth < el.scrollLeft) {
+      el.scrollLeft = colLeft - pinnedWidth;
+    } else if (INDEX_COLUMN_WIDTH + colRight > el.scrollLeft + el.clientWidth) {
+      el.scrollLeft = INDEX_COLUMN_WIDTH + colRight - el.clientWidth;
+    }
+  };
+
+  // Moves the active cell, or with `extend` the far corner of the selection
+  const moveActiveCell = (position: number, colIndex: number, extend = false) => {
+    if (rowOrder.length === 0 || shownColumns.length === 0) return;
+    const point = {
+      rowIndex: Math.max(0, Math.min(rowOrder.length - 1, position)),
+      colIndex: Math.max(0, Math.min(shownColumns.length - 1, colIndex))
+    };
+    if (extend && selectionStart) {
+      setSelectionEnd(point);
+    } else {
+      setSelectionStart(point);
+      setSelectionEnd(point);
+    }
+    scrollCellIntoView(point.rowIndex, point.colIndex);
+  };
+
+  // Ctrl+arrow: to the end of the current run of filled cells, or across
+  // empty cells to the next filled one, stopping at the edge of the data
+  const findDataEdge = (from: SelectionPoint, dRow: number, dCol: number): SelectionPoint => {
+    const inBounds = (r: number, c: number) => r >= 0 && r < rowOrder.length && c >= 0 && c < shownColumns.length;
+    const isEmpty = (r: number, c: number) => isEmptyValue(data[rowOrder[r]][shownColumns[c]]);
+
+    let r = from.rowIndex + dRow;
+    let c = from.colIndex + dCol;
+    if (!inBounds(r, c)) return from;
+
+    if (!isEmpty(from.rowIndex, from.colIndex) && !isEmpty(r, c)) {
+      while (inBounds(r + dRow, c + dCol) && !isEmpty(r + dRow, c + dCol)) {
+        r += dRow;
+        c += dCol;
+      }
+    } else {
+      while (inBounds(r + dRow, c + dCol) && isEmpty(r, c)) {
+        r += dRow;
+        c += dCol;
+      }
+    }
+    return { rowIndex: r, colIndex: c };
+  };
+
+  // --- Range Edits ---
+
+  // The selected block as positions in the table, clamped to the rows shown
+  const getSelectedRange = () => {
+    if (!selectionStart || !selectionEnd) return null;
+    return {
+      minRow: Math.min(selectionStart.rowIndex, selectionEnd.rowIndex),
+      maxRow: Math.min(rowOrder.length - 1, Math.max(selectionStart.rowIndex, selectionEnd.rowIndex)),
+      minCol: Math.min(selectionStart.colIndex, selectionEnd.colIndex),
+      maxCol: Math.max(selectionStart.colIndex, selectionEnd.colIndex)
+    };
+  };
+
+  const describeCells = (count: number) => `${count.toLocaleString()} ${count === 1 ? 'cell' : 'cells'}`;
+
+  // Sets each selected cell to what `valueAt` returns (undefined leaves it
+  // alone) as one undoable edit. Computed columns are skipped.
+  const editSelectedCells = (label: (count: number) => string, valueAt: (position: number, colIndex: number) => CsvValue | undefined) => {
+    const range = getSelectedRange();
+    if (!onEdit || !range) return;
+
+    const changes: CellChange[] = [];
+    for (let r = range.minRow; r <= range.maxRow; r++) {
+      const rowIndex = rowOrder[r];
+      for (let c = range.minCol; c <= range.maxCol; c++) {
+        const col = shownColumns[c];
+        if (columnSchema[col]?.formula) continue;
+        const after = valueAt(r, c);
+        const before = data[rowIndex][col];
+        if (after !== undefined && (before ?? '') !== after) changes.push({ rowIndex, column: col, before, after });
+      }
+    }
+    if (changes.length > 0) onEdit({ kind: 'set-cells', label: label(changes.length), changes });
+  };
+
+  const clearSelectedCells = () => editSelectedCells(count => `Clear ${describeCells(count)}`, () => '');
+
+  const setSelectedCells = (text: string) => {
+    editSelectedCells(
+      count => `Set ${describeCells(count)} to "${text}"`,
+      (_, c) => (text.trim() === '' ? '' : convertValue(text, columnSchema[shownColumns[c]]))
+    );
+  };
+
+  // Copies the first row of the selection into the rest; with one row
+  // selected, the row above is copied into it
+  const fillDown = () => {
+    const range = getSelectedRange();
+    if (!range) return;
+    const source = range.minRow === range.maxRow ? range.minRow - 1 : range.minRow;
+    if (source < 0) return;
+    const sourceRow = data[rowOrder[source]];
+    editSelectedCells(count => `Fill down ${describeCells(count)}`, (_, c) => sourceRow[shownColumns[c]] ?? '');
+  };
+
+  // As fillDown, across columns; values are converted to each column's type
+  const fillRight = () => {
+    const range = getSelectedRange();
+    if (!range) return;
+    const source = range.minCol === range.maxCol ? range.minCol - 1 : range.minCol;
+    if (source < 0) return;
+    editSelectedCells(count => `Fill right ${describeCells(count)}`, (r, c) => {
+      const col = shownColumns[c];
+      return convertValue(data[rowOrder[r]][shownColumns[source]] ?? '', columnSchema[col]);
+    });
+  };
+
+  // Each column continues its own series down the selection; a single-row
+  // selection fills across instead. Values that don't form a series are copied.
+  const fillSeries = () => {
+    const range = getSelectedRange();
+    if (!range) return;
+    const down = range.maxRow > range.minRow;
+    const series = new Map<number, CsvValue[]>();
+
+    const lineValues = (line: number) => {
+      const values: CsvValue[] = [];
+      if (down) {
+        for (let r = range.minRow; r <= range.maxRow; r++) values.push(data[rowOrder[r]][shownColumns[line]] ?? '');
+      } else {
+        for (let c = range.minCol; c <= range.maxCol; c++) values.push(data[rowOrder[line]][shownColumns[c]] ?? '');
+      }
+      return values;
+    };
+
+    editSelectedCells(count => `Fill series in ${describeCells(count)}`, (r, c) => {
+      const line = down ? c : r;
+      if (!series.has(line)) {
+        const values = lineValues(line);
+        series.set(line, seriesValues(seriesSeeds(values), values.length) ?? values.map(() => values[0]));
+      }
+      const value = series.get(line)![down ? r - range.minRow : c - range.minCol];
+      return down ? value : convertValue(value, columnSchema[shownColumns[c]]);
+    });
+  };
+
+  const handleCellAction = (action: CellAction) => {
+    setCellMenu(null);
+    if (action === 'fill-down') fillDown();
+    else if (action === 'fill-right') fillRight();
+    else if (action === 'fill-series') fillSeries();
+    else clearSelectedCells();
+  };
+
+
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    if (editingCell || isTextField(e.target)) return;
+
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'h' && isEditable && onEdit) {
+      e.preventDefault();
+      openFindReplace();
+      return;
+    }
+
+    const active = selectionStart;
+    if (!active) {
+      if (e.key.startsWith('Arrow') || e.key === 'Tab' || e.key === 'Enter') {
+        e.preventDefault();
+        moveActiveCell(0, 0);
+      }
+      return;
+    }
+
+    // Shift+movement works from the far corner of the selection
+    const from = e.shiftKey && selectionEnd ? selectionEnd : active;
+    const jump = e.ctrlKey || e.metaKey;
+    const pageRows = Math.max(1, Math.floor(viewport.height / ROW_HEIGHT) - 1);
+    const arrows: Record<string, [number, number]> = {
+      ArrowUp: [-1, 0],
+      ArrowDown: [1, 0],
+      ArrowLeft: [0, -1],
+      ArrowRight: [0, 1]
+    };
+
+    if (arrows[e.key]) {
+      e.preventDefault();
+      const [dRow, dCol] = arrows[e.key];
+      const target = jump ? findDataEdge(from, dRow, dCol) : { rowIndex: from.rowIndex + dRow, colIndex: from.colIndex + dCol };
+      moveActiveCell(target.rowIndex, target.colIndex, e.shiftKey);
+    } else if (e.key === 'PageDown' || e.key === 'PageUp') {
+      e.preventDefault();
+      moveActiveCell(from.rowIndex + (e.key === 'PageDown' ? pageRows : -pageRows), from.colIndex, e.shiftKey);
+    } else if (e.key === 'Home' || e.key === 'End') {
+      e.preventDefault();
+      const toEnd = e.key === 'End';
+      moveActiveCell(jump ? (toEnd ? rowOrder.length - 1 : 0) : from.rowIndex, toEnd ? shownColumns.length - 1 : 0, e.shiftKey);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      moveActiveCell(active.rowIndex, active.colIndex + (e.shiftKey ? -1 : 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      moveActiveCell(active.rowIndex + (e.shiftKey ? -1 : 1), active.colIndex);
+    } else if (jump && (e.key.toLowerCase() === 'd' || e.key.toLowerCase() === 'r')) {
+      e.preventDefault();
+      if (!isEditable) return;
+      if (e.key.toLowerCase() === 'd') fillDown();
+      else fillRight();
+    } else if (e.key === 'F2') {
+      e.preventDefault();
+      startEditing(active.rowIndex, active.colIndex);
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      if (isEditable) clearSelectedCells();
+    } else if (e.key === 'Escape') {
+      setSelectionEnd(active);
+    } else if (e.key.length === 1 && !jump && !e.altKey) {
+      // Typing a character starts editing with that character
+      e.preventDefault();
+      startEditing(active.rowIndex, active.colIndex, e.key);
     }
   };
 
+  // --- Clipboard ---
+
+  const handleCopy = (e: React.ClipboardEvent) => {
+    if (isTextField(e.target) || !selectionStart || !selectionEnd) return;
+    const minRow = Math.min(selectionStart.rowIndex, selectionEnd.rowIndex);
+    const maxRow = Math.min(rowOrder.length - 1, Math.max(selectionStart.rowIndex, selectionEnd.rowIndex));
+    const minCol = Math.min(selectionStart.colIndex, selectionEnd.colIndex);
+    const maxCol = Math.max(selectionStart.colIndex, selectionEnd.colIndex);
+
+    const cells: string[][] = [];
+    for (let r = minRow; r <= maxRow; r++) {
+      const row = data[rowOrder[r]];
+      const line: string[] = [];
+      for (let c = minCol; c <= maxCol; c++) {
+        line.push(formatValue(row[shownColumns[c]], columnSchema[shownColumns[c]]));
+      }
+      cells.push(line);
+    }
+
+    e.preventDefault();
+    e.clipboardData.setData('text/plain', toTsv(cells));
+    e.clipboardData.setData('text/html', toHtmlTable(cells));
+  };
+
+  // Pastes a block of cells with its top-left corner at the active cell,
+  // adding rows at the end when the block runs past the last one (except
+  // when only a subset of rows is shown)
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (isTextField(e.target) || !isEditable || !onEdit || !selectionStart) return;
+    const block = parseTsv(e.clipboardData.getData('text/plain'));
+    if (block.length === 0) return;
+    e.preventDefault();
+
+    const { rowIndex: startRow, colIndex: startCol } = selectionStart;
+    const width = Math.min(block.reduce((max, line) => Math.max(max, line.length), 0), shownColumns.length - startCol);
+    const toValue = (text: string, col: string): CsvValue => (text.trim() === '' ? '' : convertValue(text, columnSchema[col]));
+
+    const changes: CellChange[] = [];
+    const newRows: CsvRow[] = [];
+    block.forEach((line, i) => {
+      const position = startRow + i;
+      if (position < rowOrder.length) {
+        const rowIndex = rowOrder[position];
+        for (let c = 0; c < width; c++) {
+          const col = shownColumns[startCol + c];
+          if (columnSchema[col]?.formula) continue;
+          const before = data[rowIndex][col];
+          const after = toValue(line[c] ?? '', col);
+          if ((before ?? '') !== after) changes.push({ rowIndex, column: col, before, after });
+        }
+      } else if (!rowSubset) {
+        // Hidden columns are left empty
+        const row: CsvRow = {};
+        columns.forEach(col => { row[col] = ''; });
+        for (let c = 0; c < width; c++) {
+          const col = shownColumns[startCol + c];
+          row[col] = toValue(line[c] ?? '', col);
+        }
+        newRows.push(row);
+      }
+    });
+
+    const commands: EditCommand[] = [];
+    if (changes.length > 0) commands.push({ kind: 'set-cells', label: 'Paste', changes });
+    if (newRows.length > 0) {
+      commands.push({ kind: 'insert-rows', label: 'Paste', indices: newRows.map((_, i) => data.length + i), rows: newRows });
+    }
+    if (commands.length === 0) return;
+
+    const cellCount = block.length * width;
+    onEdit({ kind: 'batch', label: `Paste ${cellCount.toLocaleString()} ${cellCount === 1 ? 'cell' : 'cells'}`, commands });
+    setSelectionEnd({ rowIndex: startRow + block.length - 1, colIndex: startCol + width - 1 });
+  };
+
+  // --- Find and Replace ---
+
+  // Opens with the selected range as the scope when more than one cell is selected
+  const openFindReplace = () => {
+    let selection: CellRange | undefined;
+    if (selectionStart && selectionEnd) {
+      const minRow = Math.min(selectionStart.rowIndex, selectionEnd.rowIndex);
+      const maxRow = Math.min(rowOrder.length - 1, Math.max(selectionStart.rowIndex, selectionEnd.rowIndex));
+      const minCol = Math.min(selectionStart.colIndex, selectionEnd.colIndex);
+      const maxCol = Math.max(selectionStart.colIndex, selectionEnd.colIndex);
+      if (maxRow > minRow || maxCol > minCol) {
+        selection = { rowIndices: rowOrder.slice(minRow, maxRow + 1), columns: shownColumns.slice(minCol, maxCol + 1) };
+      }
+    }
+    setFindReplace({ selection, column: selectionStart ? shownColumns[selectionStart.colIndex] : undefined });
+  };
+
+  const handleReplace = (changes: CellChange[], label: string) => {
+    setFindReplace(null);
+    onEdit?.({ kind: 'set-cells', label, changes });
+  };
+
+  // --- Duplicates ---
+
+  const handleRemoveDuplicates = (rows: number[], label: string) => {
+    setShowDedupe(false);
+    onRowsDelete?.(rows, label);
+  };
+
+  // Flags go in a new last column, so the duplicates can be reviewed or filtered before removing them
+  const handleFlagDuplicates = (values: CsvValue[], label: string) => {
+    setShowDedupe(false);
+    const names = new Set(columns.map(c => getMeta(c).name));
+    let name = 'Duplicate';
+    for (let n = 2; names.has(name); n++) name = `Duplicate ${n}`;
+    insertColumn(columns.length, name, values, { type: 'string', nullable: true }, label);
+  };
+
+  // --- Column Management ---
+
+  const canManageColumns = isEditable && !!onEdit;
+  const getMeta = (col: string): ColumnMeta => ({ key: col, name: columnNames.get(col) ?? col });
+
+  const insertColumn = (index: number, name: string, values: CsvValue[], colSchema: ColumnSchema, label: string) => {
+    if (!onEdit) return;
+    const key = uniqueColumnKey(name, columns);
+    onEdit({ kind: 'insert-column', label, index, column: { key, name }, schema: colSchema, values });
+  };
+
+  const handleColumnAction = (col: string, action: ColumnAction) => {
+    setColumnMenu(null);
+    if (!onEdit) return;
+    const index = columns.indexOf(col);
+    const { name } = getMeta(col);
+
+    switch (action) {
+      case 'insert-left':
+      case 'insert-right': {
+        const names = new Set(columns.map(c => getMeta(c).name));
+        let newName = 'New column';
+        for (let n = 2; names.has(newName); n++) newName = `New column ${n}`;
+        insertColumn(
+          action === 'insert-left' ? index : index + 1,
+          newName,
+          data.map(() => ''),
+          { type: 'string', nullable: true, locale: columnSchema[col]?.locale },
+          `Insert column ${newName}`
+        );
+        break;
+      }
+      case 'duplicate':
+        insertColumn(
+          index + 1,
+          `${name} (copy)`,
+          data.map(row => row[col] ?? ''),
+          columnSchema[col],
+          `Duplicate column ${name}`
+        );
+        break;
+      case 'change-type':
+        setTypeDialog({ column: col });
+        break;
+      case 'format':
+        setFormattingColumn(col);
+        break;
+      case 'pin':
+        toggleInLayout('pinned', col);
+        break;
+      case 'hide':
+        if (shownColumns.length > 1) toggleInLayout('hidden', col);
+        break;
+      case 'to-values': {
+        const { formula, ...rest } = columnSchema[col];
+        const values = data.map(row => row[col] ?? '');
+        onEdit({
+          kind: 'set-column',
+          label: `Convert ${name} to values`,
+          column: col,
+          before: { schema: columnSchema[col], values },
+          after: { schema: rest, values }
+        });
+        break;
+      }
+      case 'delete':
+        onEdit({
+          kind: 'delete-column',
+          label: `Delete column ${name}`,
+          index,
+          column: getMeta(col),
+          schema: columnSchema[col],
+          values: data.map(row => row[col] ?? '')
+        });
+        break;
+    }
+  };
+
+  const handleAddComputedColumn = (computed: ComputedColumn) => {
+    setShowFormulaDialog(false);
+    insertColumn(columns.length, computed.name, computed.values, computed.schema, `Add computed column ${computed.name}`);
+  };
+
+  const handleRenameColumn = (col: string, name: string) => {
+    setColumnMenu(null);
+    onEdit?.({ kind: 'rename-column', label: `Rename ${getMeta(col).name} to ${name}`, column: col, before: getMeta(col).name, after: name });
+  };
+
+  const handleColumnDrop = (to: number) => {
+    if (dragColumn !== null && dragColumn !== to && onEdit) {
+      onEdit({ kind: 'move-column', label: `Move column ${getMeta(columns[dragColumn]).name}`, from: dragColumn, to });
+    }
+    setDragColumn(null);
+    setDropColumn(null);
+  };
+
   const formatStat = (val: number | undefined) => {
     if (val === undefined) return '-';
     return Number.isInteger(val) ? val.toLocaleString() : val.toLocaleString(undefined, { maximumFractionDigits: 2 });
   };
 
+  // --- Column Layout ---
+
+  const toggleInLayout = (field: 'hidden' | 'pinned', col: string) => {
+    setLayout(prev => ({
+      ...prev,
+      [field]: prev[field].includes(col) ? prev[field].filter(key => key !== col) : [...prev[field], col]
+    }));
+  };
+
+  const setColumnWidth = (col: string, width: number) => {
+    const clamped = Math.round(Math.max(MIN_RESIZED_WIDTH, Math.min(MAX_RESIZED_WIDTH, width)));
+    setLayout(prev => ({ ...prev, widths: { ...prev.widths, [col]: clamped } }));
+  };
+
+  // Dragging the header's right edge resizes the column; the width is only
+  // saved when the drag ends
+  const startResize = (col: string, colIndex: number, e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const startX = e.clientX;
+    const startWidth = columnWidths[colIndex];
+    let width = startWidth;
+
+    const handleMove = (moveEvent: MouseEvent) => {
+      width = Math.max(MIN_RESIZED_WIDTH, Math.min(MAX_RESIZED_WIDTH, startWidth + moveEvent.clientX - startX));
+      setResizing({ column: col, width });
+    };
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleUp);
+      setResizing(null);
+      if (width !== startWidth) setColumnWidth(col, width);
+    };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleUp);
+  };
+
+  // Fits the column to its widest value in the rows shown, and to its header
+  const autofitColumn = (col: string) => {
+    const fontFamily = scrollRef.current ? getComputedStyle(scrollRef.current).fontFamily : 'sans-serif';
+    let widest = measureText(columnNames.get(col) ?? col, `600 14px ${fontFamily}`) + HEADER_CONTROLS_WIDTH;
+    const cellFont = `14px ${fontFamily}`;
+    rowOrder.slice(0, AUTOFIT_SAMPLE_ROWS).forEach(idx => {
+      const text = formatValue(data[idx][col], columnSchema[col]);
+      if (text) widest = Math.max(widest, measureText(text, cellFont));
+    });
+    setColumnWidth(col, widest + CELL_PADDING);
+  };
+
   const handleSelectWholeColumn = (colIndex: number) => {
     setSelectionStart({ rowIndex: 0, colIndex });
-    setSelectionEnd({ rowIndex: sortedData.length - 1, colIndex });
+    setSelectionEnd({ rowIndex: rowOrder.length - 1, colIndex });
   };
 
+  // Scrolling the edited cell out of view unmounts its input, so commit the edit first
+  useEffect(() => {
+    if (!editingCell) return;
+    const position = rowOrder.indexOf(editingCell.rowIndex);
+    const colIndex = shownColumns.indexOf(editingCell.col);
+    if (position < firstRow || position > lastRow || !visibleColumns.includes(colIndex)) {
+      saveEditing();
+    }
+  }, [firstRow, lastRow, visibleColumns]);
+
   return (
     <div className="flex flex-col h-full bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
       {/* Toolbar */}
@@ -268,14 +1092,113 @@ export const DataTable: React.FC<DataTableProps> = ({
           />
         </div>
         <div className="flex items-center space-x-4">
+            {sortKeys.length > 0 && (
+              <div className="flex items-center space-x-1 text-xs text-slate-500">
+                <select
+                  value={nullsOrder}
+                  onChange={(e) => setNullsOrder(e.target.value as NullsOrder)}
+                  className="bg-white border border-slate-300 rounded-lg py-1 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  title="Where empty cells go when sorting"
+                >
+                  <option value="last">Blanks last</option>
+                  <option value="first">Blanks first</option>
+                </select>
+                <button
+                  onClick={() => setSortKeys([])}
+                  className="p-1 rounded hover:bg-slate-200 hover:text-slate-700"
+                  title="Clear sort"
+                >
+                  <X className="w-3.5 h-3.5" />
+                </button>
+              </div>
+            )}
+            <div className="relative">
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => setShowLayoutPanel(!showLayoutPanel)}
+                icon={<Columns3 className="w-4 h-4" />}
+                title="Show, hide and pin columns"
+              >
+                {columns.length > shownColumns.length ? `Columns (${columns.length - shownColumns.length} hidden)` : 'Columns'}
+              </Button>
+              {showLayoutPanel && (
+                <ColumnLayoutPanel
+                  columnMeta={columns.map(getMeta)}
+                  layout={layout}
+                  onChange={setLayout}
+                  onClose={() => setShowLayoutPanel(false)}
+                />
+              )}
+            </div>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => setShowValidation(true)}
+              icon={<ShieldCheck className="w-4 h-4" />}
+              title="Validation rules"
+            >
+              {validation ? `Rules (${rules.length})` : 'Validate'}
+            </Button>
+            {validation && (validation.invalidCells > 0 || errorsOnly) && (
+              <Button
+                size="sm"
+                variant={errorsOnly ? 'danger' : 'secondary'}
+                onClick={() => setErrorsOnly(!errorsOnly)}
+                icon={<AlertTriangle className="w-4 h-4" />}
+                title={errorsOnly ? 'Show all rows' : 'Show only rows with invalid cells'}
+              >
+                {validation.cellErrors.size.toLocaleString()} {validation.cellErrors.size === 1 ? 'row' : 'rows'} with errors
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant={filterCount > 0 ? 'primary' : 'secondary'}
+              onClick={() => setShowFilterBuilder(true)}
+              icon={<Filter className="w-4 h-4" />}
+            >
+              {filterCount > 0 ? `Filters (${filterCount})` : 'Advanced Filter'}
+            </Button>
             <div className="hidden md:block text-xs text-slate-400 bg-slate-100 px-2 py-1 rounded border border-slate-200 font-medium">
                 Drag index for row / Header for column
             </div>
             {isEditable && (
                 <div className="flex items-center space-x-3">
                   <div className="text-xs text-amber-600 bg-amber-50 px-2 py-1 rounded border border-amber-200 font-medium">
-                      Double-click to edit
+                      Double-click, F2 or type to edit · Right-click to fill
                   </div>
+                  {onEdit && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={openFindReplace}
+                      icon={<Replace className="w-4 h-4" />}
+                      title="Find and replace (Ctrl+H)"
+                    >
+                      Replace
+                    </Button>
+                  )}
+                  {canManageColumns && onRowsDelete && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => setShowDedupe(true)}
+                      icon={<CopyX className="w-4 h-4" />}
+                      title="Find duplicate rows"
+                    >
+                      Duplicates
+                    </Button>
+                  )}
+                  {canManageColumns && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => setShowFormulaDialog(true)}
+                      icon={<Sigma className="w-4 h-4" />}
+                    >
+                      Computed Column
+                    </Button>
+                  )}
                   {onRowAdd && (
                     <Button 
                       size="sm" 
@@ -289,41 +1212,154 @@ export const DataTable: React.FC<DataTableProps> = ({
                 </div>
             )}
             <div className="text-sm text-slate-500 font-medium">
-              Total {sortedData.length} rows
+              Total {rowOrder.length.toLocaleString()} rows
             </div>
         </div>
       </div>
 
-      {/* Table Area - Full Dataset */}
-      <div className="flex-1 overflow-auto relative select-none">
-        <table className="w-full text-left text-sm border-separate border-spacing-0">
+      {/* Active filters */}
+      {filterCount > 0 && (
+        <div className="px-4 py-2 border-b border-slate-200 flex flex-wrap items-center gap-2 text-xs">
+          {filter.groups.map((group, groupIndex) => group.conditions.length > 0 && (
+            <React.Fragment key={group.id}>
+              {groupIndex > 0 && (
+                <span className="font-semibold uppercase text-slate-400">{filter.combinator}</span>
+              )}
+              <div className={`flex flex-wrap items-center gap-1.5 ${filter.groups.length > 1 ? 'px-1.5 py-1 rounded-lg border border-dashed border-slate-300' : ''}`}>
+                {group.conditions.map((condition, i) => (
+                  <React.Fragment key={condition.id}>
+                    {i > 0 && <span className="font-semibold uppercase text-slate-400">{group.combinator}</span>}
+                    <span className="inline-flex items-center bg-blue-50 text-blue-700 border border-blue-200 rounded-full pl-2.5 pr-1 py-0.5 font-medium">
+                      <span className="max-w-xs truncate">
+                        {describeCondition(condition, columnNames.get(condition.column) ?? condition.column, columnSchema[condition.column])}
+                      </span>
+                      <button
+                        onClick={() => setFilter(removeCondition(filter, condition.id))}
+                        className="ml-1 p-0.5 rounded-full hover:bg-blue-100"
+                        title="Remove filter"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  </React.Fragment>
+                ))}
+              </div>
+            </React.Fragment>
+          ))}
+          <button
+            onClick={() => setFilter(EMPTY_FILTER)}
+            className="ml-1 text-slate-500 hover:text-slate-800 font-medium"
+          >
+            Clear all
+          </button>
+        </div>
+      )}
+
+      {/* Table Area - only the rows and columns in view are mounted */}
+      <div
+        ref={scrollRef}
+        className="flex-1 overflow-auto relative select-none focus:outline-none"
+        tabIndex={0}
+        onScroll={handleScroll}
+        onKeyDown={handleGridKeyDown}
+        onCopy={handleCopy}
+        onPaste={handlePaste}
+      >
+        <table
+          className="text-left text-sm border-separate border-spacing-0"
+          style={{ tableLayout: 'fixed', width: tableWidth, minWidth: '100%' }}
+        >
           <thead className="bg-slate-50 sticky top-0 z-20 shadow-sm">
             <tr>
-              <th className="px-3 py-3 font-semibold text-slate-400 w-12 border-b border-r border-slate-200 bg-slate-50 text-center sticky left-0 z-30">
+              <th
+                className="px-3 py-3 font-semibold text-slate-400 border-b border-r border-slate-200 bg-slate-50 text-center sticky left-0 z-30"
+                style={{ width: INDEX_COLUMN_WIDTH }}
+              >
                 #
               </th>
-              {columns.map((col, colIdx) => (
+              {visibleColumns.map((colIdx, i) => {
+                const col = shownColumns[colIdx];
+                // Dragging reorders the underlying columns, so it works on their indices
+                const dataIdx = columns.indexOf(col);
+                const isPinned = colIdx < pinnedCount;
+                const isFiltered = getColumnConditions(filter, col).length > 0;
+                const sortKey = sortKeys.find(k => k.key === col);
+                const invalidCount = validation?.columnCounts.get(col) ?? 0;
+                return (
+                <React.Fragment key={col}>
+                {i === pinnedCount && leftSpacer > 0 && <th className="border-b border-slate-200" style={{ width: leftSpacer }} />}
                 <th 
-                  key={col} 
-                  className="px-6 py-3 font-semibold text-slate-700 whitespace-nowrap border-b border-slate-200 cursor-pointer hover:bg-slate-100 transition-colors group select-none relative"
+                  className={`px-6 py-3 font-semibold text-slate-700 whitespace-nowrap border-b border-slate-200 cursor-pointer hover:bg-slate-100 transition-colors group select-none
+                    ${isPinned ? 'sticky z-30 bg-slate-50' : 'relative'}
+                    ${colIdx === pinnedCount - 1 ? 'shadow-[2px_0_4px_-2px_rgba(15,23,42,0.15)]' : ''}
+                    ${dropColumn === dataIdx && dragColumn !== null && dragColumn !== dataIdx
+                      ? `bg-blue-50 ${dragColumn < dataIdx ? 'shadow-[inset_-2px_0_0_#3b82f6]' : 'shadow-[inset_2px_0_0_#3b82f6]'}`
+                      : ''}
+                    ${dragColumn === dataIdx ? 'opacity-50' : ''}`}
+                  style={{ width: columnWidths[colIdx], left: isPinned ? INDEX_COLUMN_WIDTH + columnOffsets[colIdx] : undefined }}
+                  draggable={canManageColumns && !resizing}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', col);
+                    setDragColumn(dataIdx);
+                  }}
+                  onDragOver={(e) => {
+                    if (dragColumn === null) return;
+                    e.preventDefault();
+                    if (dropColumn !== dataIdx) setDropColumn(dataIdx);
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    handleColumnDrop(dataIdx);
+                  }}
+                  onDragEnd={() => {
+                    setDragColumn(null);
+                    setDropColumn(null);
+                  }}
+                  onContextMenu={canManageColumns ? (e) => {
+                    e.preventDefault();
+                    setColumnMenu({ column: col, position: { x: e.clientX, y: e.clientY } });
+                  } : undefined}
                 >
                   <div className="flex items-center justify-between">
-                    <div className="flex-1 flex items-center space-x-1" onClick={() => {
-                      let direction: SortDirection = 'asc';
-                      if (sortConfig && sortConfig.key === col && sortConfig.direction === 'asc') {
-                        direction = 'desc';
-                      }
-                      setSortConfig({ key: col, direction });
-                    }}>
-                      <span>{col}</span>
+                    <div
+                      className="flex-1 flex items-center space-x-1 min-w-0"
+                      onClick={(e) => handleSortClick(col, e)}
+                      title="Click to sort, Shift+click to add a sort key"
+                    >
+                      <span className="truncate" title={columnNames.has(col) && columnNames.get(col) !== col ? `Key: ${col}` : undefined}>
+                        {columnNames.get(col) ?? col}
+                      </span>
+                      {invalidCount > 0 && (
+                        <span
+                          className="px-1.5 rounded-full bg-red-100 text-red-700 text-[10px] font-bold"
+                          title={`${invalidCount.toLocaleString()} invalid ${invalidCount === 1 ? 'cell' : 'cells'}`}
+                        >
+                          {invalidCount.toLocaleString()}
+                        </span>
+                      )}
                       <span className="text-slate-400 group-hover:text-slate-600 transition-opacity">
-                        {sortConfig?.key === col ? (
-                          sortConfig.direction === 'asc' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />
+                        {sortKey ? (
+                          sortKey.direction === 'asc' ? <ArrowUp className="w-4 h-4" /> : <ArrowDown className="w-4 h-4" />
                         ) : (
                           <ArrowUpDown className="w-4 h-4 opacity-0 group-hover:opacity-50" />
                         )}
                       </span>
+                      {sortKey && sortKeys.length > 1 && (
+                        <span className="text-[10px] font-bold text-blue-600">{sortKeys.indexOf(sortKey) + 1}</span>
+                      )}
                     </div>
+                    <button
+                      className={`p-0.5 ml-1 rounded hover:bg-slate-200 transition-opacity
+                        ${isFiltered ? 'text-blue-600 opacity-100' : 'text-slate-400 opacity-0 group-hover:opacity-100'}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setFilterPopover({ column: col, anchor: e.currentTarget.getBoundingClientRect() });
+                      }}
+                      title="Filter column"
+                    >
+                      <Filter className="w-3.5 h-3.5" />
+                    </button>
                     {/* Invisible hit-area to select column */}
                     <div 
                       className="w-4 h-4 ml-2 hover:bg-slate-200 rounded flex items-center justify-center text-[10px] text-slate-400 opacity-0 group-hover:opacity-100"
@@ -336,66 +1372,130 @@ export const DataTable: React.FC<DataTableProps> = ({
                       ▼
                     </div>
                   </div>
+                  <ColumnTypeLabel
+                    schema={columnSchema[col]}
+                    onChange={onColumnTypeChange ? (type) => setTypeDialog({ column: col, type }) : undefined}
+                  />
+                  <div
+                    className={`absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-blue-300 ${resizing?.column === col ? 'bg-blue-400' : ''}`}
+                    onMouseDown={(e) => startResize(col, colIdx, e)}
+                    onDoubleClick={(e) => {
+                      e.stopPropagation();
+                      autofitColumn(col);
+                    }}
+                    onClick={(e) => e.stopPropagation()}
+                    title="Drag to resize, double-click to fit"
+                  />
                 </th>
-              ))}
+                </React.Fragment>
+                );
+              })}
+              {rightSpacer > 0 && <th className="border-b border-slate-200" style={{ width: rightSpacer }} />}
               {isEditable && (
-                <th className="px-4 py-3 font-semibold text-slate-700 w-16 border-b border-slate-200 bg-slate-50">
+                <th
+                  className="px-4 py-3 font-semibold text-slate-700 border-b border-slate-200 bg-slate-50"
+                  style={{ width: ACTIONS_COLUMN_WIDTH }}
+                >
                   Actions
                 </th>
               )}
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-100">
-            {sortedData.length > 0 ? (
-              sortedData.map((row, rowIndex) => (
+            {rowOrder.length > 0 ? (
+              <>
+                {firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }}><td colSpan={renderedColSpan} /></tr>}
+                {rowOrder.slice(firstRow, lastRow + 1).map((originalIndex, offset) => {
+                  const rowIndex = firstRow + offset;
+                  const row = data[originalIndex];
+                  return (
                 <tr 
-                  key={row._originalIndex}
+                  key={originalIndex}
                   className={`hover:bg-slate-50/50 transition-colors group ${onRowClick && !isEditable ? 'cursor-pointer' : ''}`}
+                  style={{ height: ROW_HEIGHT }}
                 >
                   <td 
-                    className="px-3 py-3 text-slate-400 text-xs text-center select-none bg-slate-50/30 sticky left-0 z-10 border-r border-slate-100 cursor-pointer hover:bg-blue-50 active:bg-blue-100"
+                    className={`px-3 py-2 text-xs text-center select-none sticky left-0 z-10 border-r border-slate-100 cursor-pointer hover:bg-blue-50 active:bg-blue-100
+                      ${rowNotes?.has(originalIndex) ? 'bg-amber-50 text-amber-700 font-semibold' : 'bg-slate-50 text-slate-400'}`}
+                    title={rowNotes?.get(originalIndex)}
                     onMouseDown={(e) => handleCellMouseDown(rowIndex, -1, e)}
                   >
-                    {row._originalIndex + 1}
+                    {originalIndex + 1}
                   </td>
-
-                  {columns.map((col, colIndex) => {
-                    const isEditing = editingCell?.rowIndex === row._originalIndex && editingCell?.col === col;
+                  {visibleColumns.map((colIndex, i) => {
+                    const col = shownColumns[colIndex];
+                    const isEditing = editingCell?.rowIndex === originalIndex && editingCell?.col === col;
                     const isSelected = isCellSelected(rowIndex, colIndex);
+                    const isActive = selectionStart?.rowIndex === rowIndex && selectionStart?.colIndex === colIndex;
+                    const isPinned = colIndex < pinnedCount;
+                    const errors = validation?.cellErrors.get(originalIndex)?.get(col);
+                    // Selection and validation errors show over conditional colors
+                    const format = formatCell?.(col, row[col]);
+                    const fill = format?.background && !isSelected && !errors
+                      ? { background: format.background, color: format.color }
+                      : undefined;
                     
                     return (
+                        <React.Fragment key={col}>
+                        {i === pinnedCount && leftSpacer > 0 && <td />}
                         <td 
-                            key={`${row._originalIndex}-${colIndex}`} 
-                            className={`px-6 py-3 text-slate-600 whitespace-nowrap max-w-xs truncate border-x border-transparent transition-all
-                              ${isSelected ? 'bg-blue-100/70 border-blue-200 z-[1] ring-1 ring-blue-300 ring-inset' : ''}
+                            className={`px-6 py-2 text-slate-600 whitespace-nowrap truncate border-x border-transparent transition-all
+                              ${isPinned ? `sticky z-10 ${isSelected ? 'bg-blue-50' : errors ? '' : 'bg-white group-hover:bg-slate-50'}` : format?.bar ? 'relative' : ''}
+                              ${errors && !isSelected ? 'bg-red-50 text-red-700 shadow-[inset_0_-2px_0_#f87171]' : ''}
+                              ${colIndex === pinnedCount - 1 ? 'shadow-[2px_0_4px_-2px_rgba(15,23,42,0.15)]' : ''}
+                              ${isSelected ? `${isPinned ? '' : 'bg-blue-100/70 z-[1]'} border-blue-200 ring-inset` : ''}
+                              ${isActive ? 'ring-2 ring-blue-500' : isSelected ? 'ring-1 ring-blue-300' : ''}
                               ${isEditable ? 'cursor-cell' : 'cursor-default'}`}
+                            style={isPinned ? { left: INDEX_COLUMN_WIDTH + columnOffsets[colIndex], ...fill } : fill}
+                            title={errors?.join('\n')}
                             onMouseDown={(e) => handleCellMouseDown(rowIndex, colIndex, e)}
                             onMouseEnter={() => handleCellMouseEnter(rowIndex, colIndex)}
-                            onDoubleClick={() => startEditing(row, col)}
+                            onDoubleClick={() => startEditing(rowIndex, colIndex)}
+                            onContextMenu={isEditable && onEdit ? (e) => {
+                              e.preventDefault();
+                              setCellMenu({ x: e.clientX, y: e.clientY });
+                            } : undefined}
                         >
                         {isEditing ? (
                             <input
                                 ref={inputRef}
                                 type="text"
+                                autoFocus
                                 className="w-full px-2 py-1 -mx-2 -my-1 border-2 border-blue-500 rounded focus:outline-none bg-white text-slate-900 shadow-sm"
                                 value={editValue}
                                 onChange={(e) => setEditValue(e.target.value)}
                                 onBlur={saveEditing}
+                                onFocus={(e) => e.currentTarget.setSelectionRange(e.currentTarget.value.length, e.currentTarget.value.length)}
                                 onKeyDown={handleKeyDown}
                             />
+                        ) : !isEmptyValue(row[col]) ? (
+                            <>
+                              {format?.bar && (
+                                <span
+                                  className="absolute left-0 inset-y-1.5 rounded-r opacity-40"
+                                  style={{ width: `${Math.max(format.bar.fraction, 0.02) * 100}%`, background: format.bar.color }}
+                                />
+                              )}
+                              <span className="relative">
+                                {format?.icon && TREND_ICONS[format.icon]}
+                                {formatValue(row[col], columnSchema[col])}
+                              </span>
+                            </>
                         ) : (
-                            row[col] !== null && row[col] !== '' ? String(row[col]) : <span className="inline-block w-full h-4"></span>
+                            <span className="inline-block w-full h-4"></span>
                         )}
                         </td>
+                        </React.Fragment>
                     );
                   })}
+                  {rightSpacer > 0 && <td />}
                   
                   {isEditable && (
-                    <td className="px-4 py-3 text-right">
+                    <td className="px-4 py-2 text-right">
                       <button 
                         onClick={(e) => {
                           e.stopPropagation();
-                          if (onRowDelete) onRowDelete(row._originalIndex);
+                          if (onRowDelete) onRowDelete(originalIndex);
                         }}
                         className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors opacity-0 group-hover:opacity-100"
                       >
@@ -404,10 +1504,15 @@ export const DataTable: React.FC<DataTableProps> = ({
                     </td>
                   )}
                 </tr>
-              ))
+                  );
+                })}
+                {lastRow < rowOrder.length - 1 && (
+                  <tr style={{ height: (rowOrder.length - 1 - lastRow) * ROW_HEIGHT }}><td colSpan={renderedColSpan} /></tr>
+                )}
+              </>
             ) : (
               <tr>
-                <td colSpan={columns.length + (isEditable ? 2 : 1)} className="px-6 py-12 text-center text-slate-500">
+                <td colSpan={renderedColSpan} className="px-6 py-12 text-center text-slate-500">
                   No data found
                 </td>
               </tr>
@@ -435,9 +1540,146 @@ export const DataTable: React.FC<DataTableProps> = ({
         </div>
       )}
       
+      {filterPopover && (
+        <ColumnFilterPopover
+          column={filterPopover.column}
+          columnName={columnNames.get(filterPopover.column) ?? filterPopover.column}
+          schema={columnSchema[filterPopover.column]}
+          data={data}
+          conditions={getColumnConditions(filter, filterPopover.column)}
+          anchor={filterPopover.anchor}
+          onApply={(conditions) => {
+            setFilter(setColumnConditions(filter, filterPopover.column, conditions));
+            setFilterPopover(null);
+          }}
+          onClose={() => setFilterPopover(null)}
+        />
+      )}
+
+      {columnMenu && (
+        <ColumnMenu
+          columnName={getMeta(columnMenu.column).name}
+          formula={columnSchema[columnMenu.column]?.formula}
+          isPinned={layout.pinned.includes(columnMenu.column)}
+          canFormat={!!onFormatRulesChange}
+          position={columnMenu.position}
+          onAction={(action) => handleColumnAction(columnMenu.column, action)}
+          onRename={(name) => handleRenameColumn(columnMenu.column, name)}
+          onClose={() => setColumnMenu(null)}
+        />
+      )}
+
+      {cellMenu && (() => {
+        const range = getSelectedRange();
+        if (!range) return null;
+        return (
+          <CellMenu
+            cellCount={(range.maxRow - range.minRow + 1) * (range.maxCol - range.minCol + 1)}
+            position={cellMenu}
+            onAction={handleCellAction}
+            onSetValue={(text) => {
+              setCellMenu(null);
+              setSelectedCells(text);
+            }}
+            onClose={() => setCellMenu(null)}
+          />
+        );
+      })()}
+
+      {typeDialog && columnSchema[typeDialog.column] && onColumnTypeChange && (
+        <ColumnTypeDialog
+          column={typeDialog.column}
+          columnName={getMeta(typeDialog.column).name}
+          data={data}
+          schema={columnSchema[typeDialog.column]}
+          initialType={typeDialog.type}
+          onApply={(type) => {
+            onColumnTypeChange(typeDialog.column, type);
+            setTypeDialog(null);
+          }}
+          onClose={() => setTypeDialog(null)}
+        />
+      )}
+
+      {showDedupe && (
+        <DedupeDialog
+          data={data}
+          rowIndices={baseIndices}
+          columnMeta={columns.map(getMeta)}
+          schema={columnSchema}
+          onRemove={handleRemoveDuplicates}
+          onFlag={handleFlagDuplicates}
+          onClose={() => setShowDedupe(false)}
+        />
+      )}
+
+      {formattingColumn && (
+        <FormattingDialog
+          column={formattingColumn}
+          columnName={getMeta(formattingColumn).name}
+          schema={columnSchema[formattingColumn]}
+          rules={formatRules || []}
+          onChange={onFormatRulesChange}
+          onClose={() => setFormattingColumn(null)}
+        />
+      )}
+
+      {showValidation && (
+        <ValidationDialog
+          columnMeta={columns.map(getMeta)}
+          schema={columnSchema}
+          rules={rules}
+          result={validation}
+          onChange={(next) => {
+            setRules(next);
+            if (next.length === 0) setErrorsOnly(false);
+          }}
+          onClose={() => setShowValidation(false)}
+        />
+      )}
+
+      {findReplace && (
+        <FindReplaceDialog
+          data={data}
+          rowIndices={rowOrder}
+          columnMeta={shownColumns.filter(col => !columnSchema[col]?.formula).map(getMeta)}
+          schema={columnSchema}
+          selection={findReplace.selection}
+          initialQuery={searchTerm}
+          initialColumn={findReplace.column}
+          onApply={handleReplace}
+          onClose={() => setFindReplace(null)}
+        />
+      )}
+
+      {showFormulaDialog && (
+        <FormulaDialog
+          data={data}
+          columnMeta={columns.map(getMeta)}
+          defaultName={`Computed ${columns.length + 1}`}
+          locale={columnSchema[columns[0]]?.locale}
+          onApply={handleAddComputedColumn}
+          onClose={() => setShowFormulaDialog(false)}
+        />
+      )}
+
+      {showFilterBuilder && (
+        <FilterBuilder
+          filter={filter}
+          columns={columns}
+          columnNames={columnNames}
+          schema={columnSchema}
+          onApply={(next) => {
+            setFilter(next);
+            setShowFilterBuilder(false);
+          }}
+          onClose={() => setShowFilterBuilder(false)}
+        />
+      )}
+
       {!stats || stats.numericCount === 0 && (
         <div className="p-3 border-t border-slate-200 bg-slate-50 flex items-center justify-between text-xs text-slate-500">
-           <span>{sortedData.length} records loaded</span>
+           <span>{rowOrder.length.toLocaleString()} records loaded</span>
            <span className="font-medium">Excel View Active</span>
         </div>
       )}
@@ -1,32 +1,30 @@
 import React, { useMemo } from 'react';
-import { CsvRow } from '../types';
+import { ColumnSchema, CsvRow } from '../types';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line, PieChart, Pie, Cell } from 'recharts';
 import * as d3 from 'd3';
+import { formatValue, inferSchema, isNumericType } from '../utils/schema';
 
 interface DataVisualizerProps {
   data: CsvRow[];
   columns: string[];
+  schema?: Record<string, ColumnSchema>; // Inferred from the data when omitted
 }
 
 const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899'];
 
-export const DataVisualizer: React.FC<DataVisualizerProps> = ({ data, columns }) => {
+export const DataVisualizer: React.FC<DataVisualizerProps> = ({ data, columns, schema }) => {
+  const columnSchema = useMemo(() => schema ?? inferSchema(data, columns), [schema, data, columns]);
+
   // Identify numeric columns for visualization
   const numericColumns = useMemo(() => {
     if (data.length === 0) return [];
-    return columns.filter(col => {
-      // Check first 10 rows to see if mostly numeric
-      const sample = data.slice(0, 10);
-      return sample.every(row => {
-        const val = row[col];
-        return typeof val === 'number' || (typeof val === 'string' && !isNaN(parseFloat(val)));
-      });
-    });
-  }, [data, columns]);
+    return columns.filter(col => isNumericType(columnSchema[col]?.type));
+  }, [data, columns, columnSchema]);
 
+  // Dates are left out: nearly every value is distinct, so they make poor categories
   const categoricalColumns = useMemo(() => {
-    return columns.filter(col => !numericColumns.includes(col));
-  }, [columns, numericColumns]);
+    return columns.filter(col => columnSchema[col]?.type === 'string' || columnSchema[col]?.type === 'boolean');
+  }, [columns, columnSchema]);
 
   // Aggregate data for a categorical breakdown (if a category column exists)
   const categoryChartData = useMemo(() => {
@@ -46,13 +44,13 @@ export const DataVisualizer: React.FC<DataVisualizerProps> = ({ data, columns })
     const rolledUp = d3.rollups(
       data,
       v => v.length,
-      d => String(d[bestCatCol])
+      d => formatValue(d[bestCatCol], columnSchema[bestCatCol])
     ).map(([name, value]) => ({ name, value }))
     .sort((a, b) => b.value - a.value)
     .slice(0, 10); // Top 10
 
     return { col: bestCatCol, data: rolledUp };
-  }, [data, categoricalColumns]);
+  }, [data, categoricalColumns, columnSchema]);
 
   // Prepare simple numeric data (taking first 50 rows for clarity in line/bar charts)
   const numericChartData = useMemo(() => {
@@ -0,0 +1,230 @@
+import React, { useMemo, useState } from 'react';
+import { CopyX, Flag, Trash2, X } from 'lucide-react';
+import { ColumnMeta, ColumnSchema, CsvRow, CsvValue } from '../types';
+import { formatValue } from '../utils/schema';
+import { KEEP_STRATEGIES, KeepStrategy, findDuplicateGroups, flagDuplicates, pickKeeper } from '../utils/dedupe';
+import { Button } from './Button';
+
+interface DedupeDialogProps {
+  data: CsvRow[];
+  rowIndices: number[]; // Rows to look through, by index in `data`
+  columnMeta: ColumnMeta[];
+  schema: Record<string, ColumnSchema>;
+  onRemove: (rowIndices: number[], label: string) => void;
+  onFlag: (values: CsvValue[], label: string) => void;
+  onClose: () => void;
+}
+
+// Groups listed in the preview; the actions cover all of them
+const MAX_PREVIEW_GROUPS = 50;
+
+export const DedupeDialog: React.FC<DedupeDialogProps> = ({ data, rowIndices, columnMeta, schema, onRemove, onFlag, onClose }) => {
+  const allColumns = useMemo(() => columnMeta.map(col => col.key), [columnMeta]);
+  const [matchAll, setMatchAll] = useState(true);
+  const [keyColumns, setKeyColumns] = useState<string[]>([]);
+  const [trim, setTrim] = useState(true);
+  const [ignoreCase, setIgnoreCase] = useState(false);
+  const [strategy, setStrategy] = useState<KeepStrategy>('first');
+
+  // Keep the chosen keys in column order
+  const columns = useMemo(
+    () => (matchAll ? allColumns : allColumns.filter(col => keyColumns.includes(col))),
+    [matchAll, allColumns, keyColumns]
+  );
+
+  const groups = useMemo(
+    () => findDuplicateGroups(data, rowIndices, schema, { columns, trim, ignoreCase }),
+    [data, rowIndices, schema, columns, trim, ignoreCase]
+  );
+  const keepers = useMemo(
+    () => groups.map(group => pickKeeper(data, group, allColumns, strategy)),
+    [groups, data, allColumns, strategy]
+  );
+  const duplicateCount = groups.reduce((sum, group) => sum + group.length - 1, 0);
+
+  const toggleKey = (col: string) => {
+    setKeyColumns(prev => (prev.includes(col) ? prev.filter(c => c !== col) : [...prev, col]));
+  };
+
+  const describeKeys = () => (matchAll ? 'all columns' : columns.map(col => columnMeta.find(c => c.key === col)?.name || col).join(', '));
+
+  const handleRemove = () => {
+    const keep = new Set(keepers);
+    const remove = groups.flat().filter(idx => !keep.has(idx));
+    onRemove(remove, `Remove ${remove.length.toLocaleString()} duplicate ${remove.length === 1 ? 'row' : 'rows'} on ${describeKeys()}`);
+  };
+
+  const handleFlag = () => {
+    onFlag(flagDuplicates(data.length, groups, keepers), `Flag duplicates on ${describeKeys()}`);
+  };
+
+  const checkboxClass = "rounded border-slate-300 text-blue-600 focus:ring-blue-500";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl flex flex-col h-[85vh] overflow-hidden border border-slate-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-white">
+          <div className="flex items-center space-x-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <CopyX className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-800">Find Duplicates</h3>
+              <p className="text-sm text-slate-500">
+                {columns.length === 0
+                  ? 'Choose the columns that identify a row.'
+                  : groups.length === 0
+                    ? `No duplicates on ${describeKeys()}.`
+                    : `${groups.length.toLocaleString()} ${groups.length === 1 ? 'group' : 'groups'}, ${duplicateCount.toLocaleString()} duplicate ${duplicateCount === 1 ? 'row' : 'rows'} to remove.`}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-slate-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 min-h-0 flex">
+          {/* Options */}
+          <div className="w-64 flex-shrink-0 border-r border-slate-100 overflow-auto p-4 space-y-5 text-sm">
+            <div className="space-y-2">
+              <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Match on</div>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" name="dedupe-match" checked={matchAll} onChange={() => setMatchAll(true)} />
+                Every column (exact duplicates)
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="radio" name="dedupe-match" checked={!matchAll} onChange={() => setMatchAll(false)} />
+                Key columns
+              </label>
+              {!matchAll && (
+                <ul className="ml-5 max-h-56 overflow-auto space-y-1 border-l border-slate-100 pl-2">
+                  {columnMeta.map(col => (
+                    <li key={col.key}>
+                      <label className="flex items-center gap-2 cursor-pointer text-slate-700">
+                        <input type="checkbox" className={checkboxClass} checked={keyColumns.includes(col.key)} onChange={() => toggleKey(col.key)} />
+                        <span className="truncate" title={col.name}>{col.name}</span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Compare</div>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" className={checkboxClass} checked={trim} onChange={(e) => setTrim(e.target.checked)} />
+                Ignore surrounding spaces
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input type="checkbox" className={checkboxClass} checked={ignoreCase} onChange={(e) => setIgnoreCase(e.target.checked)} />
+                Ignore case
+              </label>
+            </div>
+
+            <div className="space-y-2">
+              <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Keep per group</div>
+              {KEEP_STRATEGIES.map(option => (
+                <label key={option.value} className="flex items-start gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="dedupe-keep"
+                    className="mt-0.5"
+                    checked={strategy === option.value}
+                    onChange={() => setStrategy(option.value)}
+                  />
+                  <span>
+                    {option.label}
+                    <span className="block text-xs text-slate-400">{option.description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Groups */}
+          <div className="flex-1 min-w-0 overflow-auto p-4 space-y-4 bg-slate-50/50">
+            {groups.length === 0 && (
+              <div className="h-full flex items-center justify-center text-sm text-slate-400">
+                {columns.length === 0 ? 'No key columns chosen.' : 'Every row is unique.'}
+              </div>
+            )}
+            {groups.slice(0, MAX_PREVIEW_GROUPS).map((group, g) => (
+              <div key={group[0]} className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+                <div className="px-3 py-2 text-xs font-semibold text-slate-500 border-b border-slate-100">
+                  Group {g + 1} · {group.length} rows
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="text-sm min-w-full">
+                    <thead>
+                      <tr className="bg-slate-50 text-left">
+                        <th className="px-3 py-1.5 font-semibold text-slate-600 w-24"></th>
+                        <th className="px-3 py-1.5 font-semibold text-slate-600">Row</th>
+                        {columnMeta.map(col => (
+                          <th
+                            key={col.key}
+                            className={`px-3 py-1.5 font-semibold whitespace-nowrap ${columns.includes(col.key) ? 'text-blue-700' : 'text-slate-600'}`}
+                          >
+                            {col.name}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-100">
+                      {group.map(idx => {
+                        const isKept = idx === keepers[g];
+                        return (
+                          <tr key={idx} className={isKept ? 'bg-green-50/60' : ''}>
+                            <td className="px-3 py-1.5">
+                              <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${isKept ? 'bg-green-100 text-green-700' : 'bg-red-50 text-red-600'}`}>
+                                {isKept ? 'Keep' : 'Duplicate'}
+                              </span>
+                            </td>
+                            <td className="px-3 py-1.5 text-slate-400 tabular-nums">{idx + 1}</td>
+                            {columnMeta.map(col => {
+                              // Cells that differ from the kept row show what removing it would lose
+                              const text = formatValue(data[idx][col.key], schema[col.key]);
+                              const differs = !isKept && text !== formatValue(data[keepers[g]][col.key], schema[col.key]);
+                              return (
+                                <td
+                                  key={col.key}
+                                  className={`px-3 py-1.5 whitespace-nowrap max-w-xs truncate ${differs ? 'bg-amber-50 text-amber-800' : 'text-slate-600'} ${isKept ? '' : 'opacity-80'}`}
+                                  title={text}
+                                >
+                                  {text}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ))}
+            {groups.length > MAX_PREVIEW_GROUPS && (
+              <p className="text-xs text-slate-500 text-center">
+                Showing {MAX_PREVIEW_GROUPS} of {groups.length.toLocaleString()} groups. The actions apply to all of them.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end gap-2">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button variant="secondary" onClick={handleFlag} disabled={groups.length === 0} icon={<Flag className="w-4 h-4" />}>
+            Flag in new column
+          </Button>
+          <Button variant="danger" onClick={handleRemove} disabled={groups.length === 0} icon={<Trash2 className="w-4 h-4" />}>
+            Remove {duplicateCount.toLocaleString()} {duplicateCount === 1 ? 'duplicate' : 'duplicates'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
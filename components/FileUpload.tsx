@@ -1,8 +1,20 @@
-import React, { useState, useCallback } from 'react';
-import { Upload, FileText, AlertCircle, Clipboard, ArrowLeft } from 'lucide-react';
-import * as d3 from 'd3';
-import { ParseResult } from '../types';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { Upload, FileText, AlertCircle, Clipboard, ArrowLeft, X } from 'lucide-react';
+import { CsvDialect, ParseProgress, ParseResult } from '../types';
+import { detectDialect, buildParseResult, parseDelimited, DEFAULT_DIALECT } from '../utils/csv';
 import { Button } from './Button';
+import { ImportSettings } from './ImportSettings';
+import { SheetPicker, SheetSelection } from './SheetPicker';
+import { AppendFiles } from './AppendFiles';
+import { SPREADSHEET_EXTENSIONS, SheetInfo, readWorkbook, listSheets, sheetToRows } from '../utils/excel';
+import { JSON_EXTENSIONS, looksLikeJson } from '../utils/json';
+import { DetectedEncoding, DEFAULT_ENCODING, detectEncoding, decodeSample } from '../utils/encoding';
+import { detectBrowserLocale } from '../utils/locale';
+import { detectLocale } from '../utils/schema';
+import { appendResults } from '../utils/append';
+import { parseInWorker, ParseCancelledError, ParseJob } from '../services/parserService';
+import type { ParseWorkerRequest } from '../workers/parseWorker';
+import * as XLSX from 'xlsx';
 
 interface FileUploadProps {
   onDataLoaded: (result: ParseResult) => void;
@@ -10,6 +22,52 @@ interface FileUploadProps {
   variant?: 'default' | 'compact';
 }
 
+// Delimited text formats; the dialect is sniffed from the content
+const TEXT_EXTENSIONS = ['.csv', '.tsv', '.tab', '.psv', '.txt'];
+
+// Bytes read up front for dialect sniffing and the import preview
+const SAMPLE_BYTES = 64 * 1024;
+
+// Rows of the sample whose values are used to guess the number and date locale
+const LOCALE_SAMPLE_ROWS = 200;
+
+const sniffLocale = (sample: string, dialect: CsvDialect) => {
+  const rows = parseDelimited(sample, dialect, LOCALE_SAMPLE_ROWS);
+  return detectLocale((dialect.hasHeader ? rows.slice(1) : rows).flat(), detectBrowserLocale());
+};
+
+const getExtension = (fileName: string) => fileName.slice(fileName.lastIndexOf('.')).toLowerCase();
+
+const isSupportedFile = (file: File) => {
+  const extension = getExtension(file.name);
+  return file.type === "text/csv"
+    || [...TEXT_EXTENSIONS, ...SPREADSHEET_EXTENSIONS, ...JSON_EXTENSIONS].includes(extension);
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface PendingImport {
+  sample: string;
+  source: File | string;
+  fileName: string;
+  fileSize: number;
+  detected: CsvDialect;
+  detectedLocale: string;
+  sampleBytes?: Uint8Array; // Raw head of the file, re-decoded when the encoding changes
+  detectedEncoding?: DetectedEncoding;
+}
+
+interface PendingWorkbook {
+  workbook: XLSX.WorkBook;
+  sheets: SheetInfo[];
+  fileName: string;
+  fileSize: number;
+}
+
 export const FileUpload: React.FC<FileUploadProps> = ({ 
   onDataLoaded, 
   label = "Upload your data",
@@ -20,80 +78,290 @@ export const FileUpload: React.FC<FileUploadProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [pastedText, setPastedText] = useState('');
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [dialect, setDialect] = useState<CsvDialect>(DEFAULT_DIALECT);
+  const [encoding, setEncoding] = useState(DEFAULT_ENCODING);
+  const [locale, setLocale] = useState(detectBrowserLocale);
+  const [pendingWorkbook, setPendingWorkbook] = useState<PendingWorkbook | null>(null);
+  const [pendingAppend, setPendingAppend] = useState<ParseResult[] | null>(null);
+  const [parsing, setParsing] = useState<{ fileName: string; progress: ParseProgress } | null>(null);
+  const jobRef = useRef<ParseJob | null>(null);
 
   const isCompact = variant === 'compact';
 
-  const parseCsvText = useCallback((text: string, fileName: string, fileSize: number) => {
-    if (!text.trim()) {
+  // Cancel any running parse when the uploader goes away
+  useEffect(() => () => jobRef.current?.cancel(), []);
+
+  const runParse = useCallback((request: ParseWorkerRequest) => {
+    setError(null);
+    setParsing({ fileName: request.fileName, progress: { bytesProcessed: 0, totalBytes: request.fileSize, rowsProcessed: 0 } });
+
+    const job = parseInWorker(request, (progress) => {
+      setParsing({ fileName: request.fileName, progress });
+    });
+    jobRef.current = job;
+
+    job.promise
+      .then((result) => {
+        setPendingImport(null);
+        onDataLoaded(result);
+      })
+      .catch((err: Error) => {
+        if (err instanceof ParseCancelledError) return;
+        console.error(err);
+        setError(err.message || "Failed to parse the file. Please check the format.");
+      })
+      .finally(() => {
+        if (jobRef.current === job) jobRef.current = null;
+        setParsing(null);
+        setIsLoading(false);
+      });
+  }, [onDataLoaded]);
+
+  const handleCancelParse = () => {
+    jobRef.current?.cancel();
+  };
+
+  const beginImport = useCallback((
+    sample: string,
+    source: File | string,
+    fileName: string,
+    fileSize: number,
+    bytes?: { sampleBytes: Uint8Array; detectedEncoding: DetectedEncoding }
+  ) => {
+    if (!sample.trim()) {
       setError("Please provide some CSV content.");
       setIsLoading(false);
       return;
     }
 
-    try {
-      const data = d3.csvParse(text, (d) => {
-        const row: any = {};
-        for (const key in d) {
-          const val = d[key];
-          const num = parseFloat(val as string);
-          const lowerKey = key.toLowerCase();
-          // Keep as number if valid, otherwise keep original string
-          row[lowerKey] = !isNaN(num) && isFinite(num) && String(num) === val ? num : val;
-        }
-        return row;
-      });
-      
-      const columns = (data.columns || []).map(col => col.toLowerCase());
+    const detected = detectDialect(sample);
+    const detectedLocale = sniffLocale(sample, detected);
+    setPendingImport({ sample, source, fileName, fileSize, detected, detectedLocale, ...bytes });
+    setDialect(detected);
+    setEncoding(bytes?.detectedEncoding.encoding || DEFAULT_ENCODING);
+    setLocale(detectedLocale);
+    setIsLoading(false);
+  }, []);
 
-      if (data.length === 0) {
-        throw new Error("No data rows found in the provided CSV.");
-      }
+  const handleEncodingChange = (newEncoding: string) => {
+    if (!pendingImport?.sampleBytes) return;
+    // Re-decode the sample and sniff again, since a wrong encoding can hide the real delimiter
+    const sample = decodeSample(pendingImport.sampleBytes, newEncoding);
+    const detected = detectDialect(sample);
+    const detectedLocale = sniffLocale(sample, detected);
+    setPendingImport({ ...pendingImport, sample, detected, detectedLocale });
+    setDialect(detected);
+    setEncoding(newEncoding);
+    setLocale(detectedLocale);
+  };
 
-      onDataLoaded({
-        data: data,
-        columns: columns,
-        meta: {
-          rowCount: data.length,
-          fileSize: fileSize,
-          fileName: fileName
-        }
+  const handleConfirmImport = () => {
+    if (!pendingImport) return;
+    runParse({
+      source: pendingImport.source,
+      fileName: pendingImport.fileName,
+      fileSize: pendingImport.fileSize,
+      format: 'delimited',
+      dialect,
+      encoding: pendingImport.sampleBytes ? encoding : undefined,
+      locale
+    });
+  };
+
+  const handleConfirmSheet = ({ sheetName, range, hasHeader, locale }: SheetSelection) => {
+    if (!pendingWorkbook) return;
+    setError(null);
+
+    try {
+      const rows = sheetToRows(pendingWorkbook.workbook, sheetName, range);
+      const result = buildParseResult(rows, hasHeader, {
+        fileName: pendingWorkbook.fileName,
+        fileSize: pendingWorkbook.fileSize,
+        sheetName,
+        sheetRange: range,
+        locale
       });
+      setPendingWorkbook(null);
+      onDataLoaded(result);
     } catch (err: any) {
       console.error(err);
-      setError(err.message || "Failed to parse CSV. Please check the format.");
-    } finally {
-      setIsLoading(false);
+      setError(err.message || "Failed to read the selected sheet.");
     }
-  }, [onDataLoaded]);
+  };
+
+  const processWorkbook = useCallback((file: File) => {
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const workbook = readWorkbook(e.target?.result as ArrayBuffer);
+        setPendingWorkbook({ workbook, sheets: listSheets(workbook), fileName: file.name, fileSize: file.size });
+      } catch (err: any) {
+        console.error(err);
+        setError("Could not read this workbook. It may be corrupted or password protected.");
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    reader.onerror = () => {
+      setError("Error reading file.");
+      setIsLoading(false);
+    };
+
+    reader.readAsArrayBuffer(file);
+  }, []);
 
   const processFile = useCallback((file: File) => {
-    if (file.type !== "text/csv" && !file.name.endsWith('.csv')) {
-      setError("Please upload a valid CSV file.");
+    const extension = getExtension(file.name);
+    const isSpreadsheet = SPREADSHEET_EXTENSIONS.includes(extension);
+    const isJson = JSON_EXTENSIONS.includes(extension);
+    if (!isSupportedFile(file)) {
+      setError("Please upload a CSV, JSON or spreadsheet file.");
       return;
     }
 
     setError(null);
     setIsLoading(true);
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const text = e.target?.result as string;
-      parseCsvText(text, file.name, file.size);
-    };
+    if (isSpreadsheet) {
+      processWorkbook(file);
+      return;
+    }
 
-    reader.onerror = () => {
-      setError("Error reading file.");
+    // Only the head of the file is read here, for sniffing and the preview;
+    // the full parse streams the file in the worker
+    file.slice(0, SAMPLE_BYTES).arrayBuffer()
+      .then((buffer) => {
+        const sampleBytes = new Uint8Array(buffer);
+        const detectedEncoding = detectEncoding(sampleBytes);
+
+        if (isJson) {
+          runParse({
+            source: file,
+            fileName: file.name,
+            fileSize: file.size,
+            format: 'json',
+            encoding: detectedEncoding.encoding,
+            locale: detectBrowserLocale()
+          });
+          return;
+        }
+
+        const sample = decodeSample(sampleBytes, detectedEncoding.encoding);
+        beginImport(sample, file, file.name, file.size, { sampleBytes, detectedEncoding });
+      })
+      .catch(() => {
+        setError("Error reading file.");
+        setIsLoading(false);
+      });
+  }, [beginImport, runParse, processWorkbook]);
+
+  // Parses one file of a multi-file drop with its detected settings, skipping the settings step
+  const parseWithDetectedSettings = async (file: File, label: string): Promise<ParseResult> => {
+    const extension = getExtension(file.name);
+
+    if (SPREADSHEET_EXTENSIONS.includes(extension)) {
+      const workbook = readWorkbook(await file.arrayBuffer());
+      const sheet = listSheets(workbook).find(s => s.rowCount > 0);
+      if (!sheet) throw new Error("The workbook has no data.");
+      return buildParseResult(sheetToRows(workbook, sheet.name, sheet.range), true, {
+        fileName: file.name,
+        fileSize: file.size,
+        sheetName: sheet.name,
+        sheetRange: sheet.range,
+        locale: detectBrowserLocale()
+      });
+    }
+
+    const sampleBytes = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+    const { encoding: detectedEncoding } = detectEncoding(sampleBytes);
+    let request: ParseWorkerRequest;
+    if (JSON_EXTENSIONS.includes(extension)) {
+      request = { source: file, fileName: file.name, fileSize: file.size, format: 'json', encoding: detectedEncoding, locale: detectBrowserLocale() };
+    } else {
+      const sample = decodeSample(sampleBytes, detectedEncoding);
+      const detected = detectDialect(sample);
+      request = {
+        source: file,
+        fileName: file.name,
+        fileSize: file.size,
+        format: 'delimited',
+        dialect: detected,
+        encoding: detectedEncoding,
+        locale: sniffLocale(sample, detected)
+      };
+    }
+
+    setParsing({ fileName: label, progress: { bytesProcessed: 0, totalBytes: file.size, rowsProcessed: 0 } });
+    const job = parseInWorker(request, (progress) => setParsing({ fileName: label, progress }));
+    jobRef.current = job;
+    try {
+      return await job.promise;
+    } finally {
+      if (jobRef.current === job) jobRef.current = null;
+    }
+  };
+
+  const processFiles = async (files: File[]) => {
+    const unsupported = files.filter(file => !isSupportedFile(file));
+    if (unsupported.length > 0) {
+      setError(`Cannot append ${unsupported.map(file => file.name).join(', ')}: please use CSV, JSON or spreadsheet files.`);
+      return;
+    }
+
+    setError(null);
+    setIsLoading(true);
+    const results: ParseResult[] = [];
+    try {
+      for (const [i, file] of files.entries()) {
+        try {
+          results.push(await parseWithDetectedSettings(file, `${file.name} (${i + 1} of ${files.length})`));
+        } catch (err: any) {
+          if (err instanceof ParseCancelledError) throw err;
+          throw new Error(`${file.name}: ${err.message || "Failed to parse the file."}`);
+        }
+      }
+      setPendingAppend(results);
+    } catch (err: any) {
+      if (!(err instanceof ParseCancelledError)) {
+        console.error(err);
+        setError(err.message);
+      }
+    } finally {
+      setParsing(null);
       setIsLoading(false);
-    };
+    }
+  };
+
+  const handleConfirmAppend = (addSourceColumn: boolean) => {
+    if (!pendingAppend) return;
+    const result = appendResults(pendingAppend, addSourceColumn);
+    setPendingAppend(null);
+    onDataLoaded(result);
+  };
 
-    reader.readAsText(file);
-  }, [parseCsvText]);
+  const handleFiles = (fileList: FileList) => {
+    const files = Array.from(fileList);
+    if (files.length > 1) processFiles(files);
+    else if (files.length === 1) processFile(files[0]);
+  };
 
   const handleHandlePasteProcess = () => {
     setError(null);
     setIsLoading(true);
     // Rough estimation of size: 1 character = 1 byte
-    parseCsvText(pastedText, 'pasted_data.csv', pastedText.length);
+    if (looksLikeJson(pastedText)) {
+      runParse({
+        source: pastedText,
+        fileName: 'pasted_data.json',
+        fileSize: pastedText.length,
+        format: 'json',
+        locale: detectBrowserLocale()
+      });
+    } else {
+      beginImport(pastedText.slice(0, SAMPLE_BYTES), pastedText, 'pasted_data.csv', pastedText.length);
+    }
   };
 
   const handleDragOver = (e: React.DragEvent) => {
@@ -110,15 +378,17 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     e.preventDefault();
     setIsDragging(false);
     
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      processFile(e.dataTransfer.files[0]);
+    if (e.dataTransfer.files) {
+      handleFiles(e.dataTransfer.files);
     }
   };
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      processFile(e.target.files[0]);
+    if (e.target.files) {
+      handleFiles(e.target.files);
     }
+    // Allow picking the same files again after going back
+    e.target.value = '';
   };
 
   return (
@@ -130,7 +400,76 @@ export const FileUpload: React.FC<FileUploadProps> = ({
         </div>
       )}
 
-      {mode === 'upload' ? (
+      {parsing ? (
+        <div className="w-full bg-white border border-slate-200 rounded-2xl p-6 shadow-sm space-y-4 animate-in fade-in">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-slate-700 truncate mr-4" title={parsing.fileName}>
+              Parsing {parsing.fileName}...
+            </span>
+            <span className="font-semibold text-blue-600">
+              {Math.floor((parsing.progress.bytesProcessed / Math.max(parsing.progress.totalBytes, 1)) * 100)}%
+            </span>
+          </div>
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-blue-600 rounded-full transition-all duration-200"
+              style={{ width: `${Math.min(100, (parsing.progress.bytesProcessed / Math.max(parsing.progress.totalBytes, 1)) * 100)}%` }}
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-500">
+              {formatBytes(parsing.progress.bytesProcessed)} of {formatBytes(parsing.progress.totalBytes)}
+              {parsing.progress.rowsProcessed > 0 && ` · ${parsing.progress.rowsProcessed.toLocaleString()} rows`}
+            </span>
+            <Button variant="secondary" size="sm" onClick={handleCancelParse} icon={<X className="w-4 h-4" />}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : pendingAppend ? (
+        <AppendFiles
+          results={pendingAppend}
+          onConfirm={handleConfirmAppend}
+          onCancel={() => {
+            setPendingAppend(null);
+            setError(null);
+          }}
+          isCompact={isCompact}
+        />
+      ) : pendingWorkbook ? (
+        <SheetPicker
+          workbook={pendingWorkbook.workbook}
+          sheets={pendingWorkbook.sheets}
+          fileName={pendingWorkbook.fileName}
+          defaultLocale={detectBrowserLocale()}
+          onConfirm={handleConfirmSheet}
+          onCancel={() => {
+            setPendingWorkbook(null);
+            setError(null);
+          }}
+          isCompact={isCompact}
+        />
+      ) : pendingImport ? (
+        <ImportSettings
+          text={pendingImport.sample}
+          fileName={pendingImport.fileName}
+          dialect={dialect}
+          detected={pendingImport.detected}
+          onDialectChange={setDialect}
+          encoding={pendingImport.sampleBytes ? encoding : undefined}
+          detectedEncoding={pendingImport.detectedEncoding}
+          onEncodingChange={handleEncodingChange}
+          locale={locale}
+          detectedLocale={pendingImport.detectedLocale}
+          onLocaleChange={setLocale}
+          onConfirm={handleConfirmImport}
+          onCancel={() => {
+            setPendingImport(null);
+            setError(null);
+          }}
+          isCompact={isCompact}
+        />
+      ) : mode === 'upload' ? (
         <div className="w-full space-y-4">
           <div
             className={`relative group w-full border-2 border-dashed rounded-3xl transition-all duration-300 ease-in-out flex flex-col items-center justify-center bg-white 
@@ -145,7 +484,8 @@ export const FileUpload: React.FC<FileUploadProps> = ({
           >
             <input
               type="file"
-              accept=".csv"
+              multiple
+              accept={[...TEXT_EXTENSIONS, ...SPREADSHEET_EXTENSIONS, ...JSON_EXTENSIONS].join(',')}
               onChange={handleFileInput}
               className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
             />
@@ -163,11 +503,11 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                 <h3 className={`font-semibold text-slate-800 mb-1 ${isCompact ? 'text-sm' : 'text-xl'}`}>
                   {label || (isDragging ? 'Drop it here!' : 'Drag & Drop CSV')}
                 </h3>
-                {!isCompact && <p className="text-slate-500 mb-4 text-sm">or click to browse</p>}
+                {!isCompact && <p className="text-slate-500 mb-4 text-sm">or click to browse · drop several files to append them</p>}
                 
                 <div className={`flex items-center space-x-2 text-slate-400 bg-slate-50 rounded-full border border-slate-200 ${isCompact ? 'text-[10px] px-2 py-1' : 'text-xs px-3 py-1.5'}`}>
                   <FileText className={`${isCompact ? 'w-2.5 h-2.5' : 'w-3 h-3'}`} />
-                  <span>.csv</span>
+                  <span>.csv, .tsv, .txt, .xlsx, .xls, .ods, .json</span>
                 </div>
               </div>
             )}
@@ -178,7 +518,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
             className="w-full py-3 text-slate-500 hover:text-blue-600 flex items-center justify-center text-sm font-medium transition-colors border border-transparent hover:border-blue-100 hover:bg-blue-50/50 rounded-xl"
           >
             <Clipboard className="w-4 h-4 mr-2" />
-            Or paste CSV text manually
+            Or paste CSV or JSON text manually
           </button>
         </div>
       ) : (
@@ -194,7 +534,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
               <ArrowLeft className="w-4 h-4 mr-1" />
               Back to Upload
             </button>
-            <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Paste CSV Data</span>
+            <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider">Paste CSV or JSON Data</span>
           </div>
           
           <textarea
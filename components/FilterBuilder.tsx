@@ -0,0 +1,317 @@
+import React, { useState } from 'react';
+import { Filter, Plus, Trash2, X } from 'lucide-react';
+import { ColumnSchema } from '../types';
+import {
+  FilterCombinator,
+  FilterCondition,
+  FilterGroup,
+  FilterOperator,
+  RowFilter,
+  EMPTY_FILTER,
+  createFilterId,
+  describeOperator,
+  needsValue,
+  operatorsFor,
+  validateCondition
+} from '../utils/filters';
+import { formatValue, parseValue } from '../utils/schema';
+import { Button } from './Button';
+
+interface FilterBuilderProps {
+  filter: RowFilter;
+  columns: string[];
+  columnNames: Map<string, string>;
+  schema: Record<string, ColumnSchema>;
+  onApply: (filter: RowFilter) => void;
+  onClose: () => void;
+}
+
+// Range bounds and value lists are edited as text and converted on apply
+interface DraftText {
+  min: string;
+  max: string;
+  values: string;
+}
+
+const EMPTY_DRAFT: DraftText = { min: '', max: '', values: '' };
+
+const CombinatorToggle: React.FC<{ value: FilterCombinator; onChange: (value: FilterCombinator) => void }> = ({ value, onChange }) => (
+  <div className="inline-flex rounded-lg border border-slate-200 bg-white p-0.5 text-xs font-semibold">
+    {(['and', 'or'] as FilterCombinator[]).map(option => (
+      <button
+        key={option}
+        onClick={() => onChange(option)}
+        className={`px-2.5 py-1 rounded-md uppercase transition-colors ${value === option ? 'bg-blue-600 text-white' : 'text-slate-500 hover:text-slate-800'}`}
+      >
+        {option}
+      </button>
+    ))}
+  </div>
+);
+
+export const FilterBuilder: React.FC<FilterBuilderProps> = ({ filter, columns, columnNames, schema, onApply, onClose }) => {
+  const [combinator, setCombinator] = useState(filter.combinator);
+  const [groups, setGroups] = useState<FilterGroup[]>(() =>
+    filter.groups.length > 0 ? filter.groups : [{ id: createFilterId(), combinator: 'and', conditions: [] }]
+  );
+  const [drafts, setDrafts] = useState<Record<string, DraftText>>(() => {
+    const initial: Record<string, DraftText> = {};
+    filter.groups.forEach(group => group.conditions.forEach(c => {
+      const colSchema = schema[c.column];
+      initial[c.id] = {
+        min: c.min !== undefined ? formatValue(c.min, colSchema) : '',
+        max: c.max !== undefined ? formatValue(c.max, colSchema) : '',
+        values: (c.values || []).join(', ')
+      };
+    }));
+    return initial;
+  });
+
+  const getDraft = (id: string): DraftText => drafts[id] || EMPTY_DRAFT;
+  const setDraft = (id: string, patch: Partial<DraftText>) =>
+    setDrafts(prev => ({ ...prev, [id]: { ...(prev[id] || EMPTY_DRAFT), ...patch } }));
+
+  const updateGroup = (groupId: string, update: (group: FilterGroup) => FilterGroup) =>
+    setGroups(prev => prev.map(group => (group.id === groupId ? update(group) : group)));
+
+  const updateCondition = (groupId: string, id: string, patch: Partial<FilterCondition>) =>
+    updateGroup(groupId, group => ({
+      ...group,
+      conditions: group.conditions.map(c => (c.id === id ? { ...c, ...patch } : c))
+    }));
+
+  const addCondition = (groupId: string) => {
+    const column = columns[0];
+    if (!column) return;
+    updateGroup(groupId, group => ({
+      ...group,
+      conditions: [...group.conditions, { id: createFilterId(), column, operator: operatorsFor(schema[column])[0], value: '' }]
+    }));
+  };
+
+  const removeFromGroup = (groupId: string, id: string) =>
+    updateGroup(groupId, group => ({ ...group, conditions: group.conditions.filter(c => c.id !== id) }));
+
+  const addGroup = () =>
+    setGroups(prev => [...prev, { id: createFilterId(), combinator: 'and', conditions: [] }]);
+
+  const removeGroup = (groupId: string) =>
+    setGroups(prev => (prev.length > 1 ? prev.filter(group => group.id !== groupId) : prev));
+
+  // Converts the text drafts into condition values
+  const resolveCondition = (condition: FilterCondition): FilterCondition => {
+    const draft = getDraft(condition.id);
+    if (condition.operator === 'between') {
+      const parse = (text: string) => {
+        if (!text.trim()) return undefined;
+        const parsed = parseValue(text, schema[condition.column]);
+        return typeof parsed === 'number' ? parsed : undefined;
+      };
+      return { ...condition, min: parse(draft.min), max: parse(draft.max) };
+    }
+    if (condition.operator === 'in') {
+      return { ...condition, values: draft.values.split(',').map(v => v.trim()) };
+    }
+    return condition;
+  };
+
+  const errorFor = (condition: FilterCondition): string | null => {
+    const draft = getDraft(condition.id);
+    if (condition.operator === 'between') {
+      const resolved = resolveCondition(condition);
+      if ((draft.min.trim() && resolved.min === undefined) || (draft.max.trim() && resolved.max === undefined)) {
+        return 'Enter numbers in the column\'s format';
+      }
+      if (resolved.min === undefined && resolved.max === undefined) return 'Enter a min or max';
+      return null;
+    }
+    if (condition.operator === 'in' && !draft.values.trim()) return 'Enter one or more values';
+    if (['before', 'after', 'on'].includes(condition.operator) && !condition.value) return 'Pick a date';
+    return validateCondition(condition);
+  };
+
+  const hasErrors = groups.some(group => group.conditions.some(c => errorFor(c)));
+
+  const handleApply = () => {
+    onApply({
+      combinator,
+      groups: groups
+        .map(group => ({ ...group, conditions: group.conditions.map(resolveCondition) }))
+        .filter((group, i) => i === 0 || group.conditions.length > 0)
+    });
+  };
+
+  const inputClass = "bg-white border border-slate-300 rounded-lg text-sm py-1.5 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  const renderValueInput = (groupId: string, condition: FilterCondition) => {
+    const draft = getDraft(condition.id);
+    switch (condition.operator) {
+      case 'empty':
+      case 'not-empty':
+        return <div className="flex-1" />;
+      case 'between':
+        return (
+          <div className="flex-1 flex items-center gap-2">
+            <input className={`${inputClass} w-full`} placeholder="Min" value={draft.min} onChange={(e) => setDraft(condition.id, { min: e.target.value })} />
+            <span className="text-slate-400">–</span>
+            <input className={`${inputClass} w-full`} placeholder="Max" value={draft.max} onChange={(e) => setDraft(condition.id, { max: e.target.value })} />
+          </div>
+        );
+      case 'in':
+        return (
+          <input
+            className={`${inputClass} flex-1`}
+            placeholder="Values, separated by commas"
+            value={draft.values}
+            onChange={(e) => setDraft(condition.id, { values: e.target.value })}
+          />
+        );
+      case 'before':
+      case 'after':
+      case 'on':
+        return (
+          <input
+            type="date"
+            className={`${inputClass} flex-1`}
+            value={condition.value || ''}
+            onChange={(e) => updateCondition(groupId, condition.id, { value: e.target.value })}
+          />
+        );
+      default:
+        return (
+          <input
+            className={`${inputClass} flex-1 ${condition.operator === 'regex' ? 'font-mono' : ''}`}
+            placeholder="Value"
+            value={condition.value || ''}
+            onChange={(e) => updateCondition(groupId, condition.id, { value: e.target.value })}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl flex flex-col max-h-[90vh] overflow-hidden border border-slate-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-white">
+          <div className="flex items-center space-x-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <Filter className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-800">Advanced Filter</h3>
+              <p className="text-sm text-slate-500">Combine conditions in groups. Rows are kept when the groups match.</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-slate-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-4 bg-slate-50/50">
+          {groups.length > 1 && (
+            <div className="flex items-center space-x-2 text-sm text-slate-600">
+              <span>Keep rows matching</span>
+              <CombinatorToggle value={combinator} onChange={setCombinator} />
+              <span>of the groups</span>
+            </div>
+          )}
+
+          {groups.map((group, groupIndex) => (
+            <div key={group.id} className="bg-white border border-slate-200 rounded-xl p-4 space-y-3 shadow-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 text-sm text-slate-600">
+                  <span className="font-semibold text-slate-700">Group {groupIndex + 1}</span>
+                  <span className="text-slate-400">·</span>
+                  <span>match</span>
+                  <CombinatorToggle
+                    value={group.combinator}
+                    onChange={(value) => updateGroup(group.id, g => ({ ...g, combinator: value }))}
+                  />
+                  <span>of</span>
+                </div>
+                {groups.length > 1 && (
+                  <button
+                    onClick={() => removeGroup(group.id)}
+                    className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+                    title="Remove group"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+
+              {group.conditions.length === 0 && (
+                <p className="text-sm text-slate-400">No conditions yet.</p>
+              )}
+
+              {group.conditions.map(condition => {
+                const error = errorFor(condition);
+                return (
+                  <div key={condition.id} className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <select
+                        className={`${inputClass} w-44`}
+                        value={condition.column}
+                        onChange={(e) => {
+                          const column = e.target.value;
+                          const operators = operatorsFor(schema[column]);
+                          updateCondition(group.id, condition.id, {
+                            column,
+                            operator: operators.includes(condition.operator) ? condition.operator : operators[0]
+                          });
+                        }}
+                      >
+                        {columns.map(col => <option key={col} value={col}>{columnNames.get(col) ?? col}</option>)}
+                      </select>
+                      <select
+                        className={`${inputClass} w-40`}
+                        value={condition.operator}
+                        onChange={(e) => updateCondition(group.id, condition.id, { operator: e.target.value as FilterOperator, value: '' })}
+                      >
+                        {operatorsFor(schema[condition.column]).map(op => (
+                          <option key={op} value={op}>{describeOperator(op)}</option>
+                        ))}
+                      </select>
+                      {needsValue(condition.operator) ? renderValueInput(group.id, condition) : <div className="flex-1" />}
+                      <button
+                        onClick={() => removeFromGroup(group.id, condition.id)}
+                        className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md transition-colors"
+                        title="Remove condition"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                    {error && <p className="text-xs text-red-600 pl-1">{error}</p>}
+                  </div>
+                );
+              })}
+
+              <Button size="sm" variant="ghost" onClick={() => addCondition(group.id)} icon={<Plus className="w-4 h-4" />}>
+                Add Condition
+              </Button>
+            </div>
+          ))}
+
+          <Button size="sm" variant="secondary" onClick={addGroup} icon={<Plus className="w-4 h-4" />}>
+            Add Group
+          </Button>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-between gap-2">
+          <Button variant="ghost" onClick={() => onApply(EMPTY_FILTER)}>
+            Clear All
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={onClose}>Cancel</Button>
+            <Button onClick={handleApply} disabled={hasErrors} icon={<Filter className="w-4 h-4" />}>
+              Apply Filter
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
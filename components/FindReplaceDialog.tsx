@@ -0,0 +1,229 @@
+import React, { useDeferredValue, useMemo, useState } from 'react';
+import { AlertTriangle, Replace, X } from 'lucide-react';
+import { CellChange, ColumnMeta, ColumnSchema, CsvRow } from '../types';
+import { FindOptions, MatchMode, findMatches, validateFind } from '../utils/replace';
+import { formatValue } from '../utils/schema';
+import { Button } from './Button';
+
+export interface CellRange {
+  rowIndices: number[]; // Indices in `data`
+  columns: string[];
+}
+
+type Scope = 'all' | 'column' | 'selection';
+
+interface FindReplaceDialogProps {
+  data: CsvRow[];
+  rowIndices: number[]; // The rows shown in the table, in display order
+  columnMeta: ColumnMeta[]; // Columns that can be edited
+  schema: Record<string, ColumnSchema>;
+  selection?: CellRange;
+  initialQuery?: string;
+  initialColumn?: string;
+  onApply: (changes: CellChange[], label: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const MODES: { value: MatchMode; label: string }[] = [
+  { value: 'text', label: 'Contains' },
+  { value: 'whole-cell', label: 'Whole cell' },
+  { value: 'regex', label: 'Regex' }
+];
+
+export const FindReplaceDialog: React.FC<FindReplaceDialogProps> = ({
+  data,
+  rowIndices,
+  columnMeta,
+  schema,
+  selection,
+  initialQuery = '',
+  initialColumn,
+  onApply,
+  onClose
+}) => {
+  const [options, setOptions] = useState<FindOptions>({ query: initialQuery, replacement: '', mode: 'text', caseSensitive: false });
+  const [scope, setScope] = useState<Scope>(selection ? 'selection' : 'all');
+  const [column, setColumn] = useState(
+    columnMeta.find(col => col.key === initialColumn)?.key ?? columnMeta[0]?.key ?? ''
+  );
+
+  const editable = useMemo(() => new Set(columnMeta.map(col => col.key)), [columnMeta]);
+  const names = useMemo(() => new Map(columnMeta.map(col => [col.key, col.name])), [columnMeta]);
+
+  // Matching runs over every cell in scope, so keep typing responsive
+  const deferredOptions = useDeferredValue(options);
+  const error = validateFind(deferredOptions);
+
+  const result = useMemo(() => {
+    const [rows, cols] =
+      scope === 'selection' && selection ? [selection.rowIndices, selection.columns.filter(col => editable.has(col))]
+      : scope === 'column' ? [rowIndices, [column]]
+      : [rowIndices, columnMeta.map(col => col.key)];
+    return findMatches(data, rows, cols, schema, deferredOptions);
+  }, [data, rowIndices, columnMeta, editable, schema, selection, scope, column, deferredOptions]);
+
+  const update = (patch: Partial<FindOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const handleApply = () => {
+    const count = result.changes.length;
+    onApply(result.changes, `Replace "${options.query}" in ${count.toLocaleString()} ${count === 1 ? 'cell' : 'cells'}`);
+  };
+
+  const canApply = !error && result.changes.length > 0 && options === deferredOptions;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh] overflow-hidden border border-slate-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-white">
+          <div className="flex items-center space-x-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <Replace className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-800">Find and Replace</h3>
+              <p className="text-sm text-slate-500">Searches the cells as they are displayed, in the rows shown.</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-slate-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-4">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+              <span>Find</span>
+              <input
+                autoFocus
+                spellCheck={false}
+                className={`bg-white border border-slate-300 rounded-lg text-sm py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500
+                  ${options.mode === 'regex' ? 'font-mono' : ''}`}
+                value={options.query}
+                onChange={(e) => update({ query: e.target.value })}
+                onKeyDown={(e) => { if (e.key === 'Enter' && canApply) handleApply(); }}
+              />
+            </label>
+            <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+              <span>Replace with</span>
+              <input
+                spellCheck={false}
+                className={`bg-white border border-slate-300 rounded-lg text-sm py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500
+                  ${options.mode === 'regex' ? 'font-mono' : ''}`}
+                placeholder={options.mode === 'regex' ? '$1 inserts the first group' : 'Leave empty to delete matches'}
+                value={options.replacement}
+                onChange={(e) => update({ replacement: e.target.value })}
+                onKeyDown={(e) => { if (e.key === 'Enter' && canApply) handleApply(); }}
+              />
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-slate-700">
+            <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs font-medium">
+              {MODES.map(mode => (
+                <button
+                  key={mode.value}
+                  onClick={() => update({ mode: mode.value })}
+                  className={`px-3 py-1 rounded-md transition-colors
+                    ${options.mode === mode.value ? 'bg-white text-blue-700 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input type="checkbox" checked={options.caseSensitive} onChange={(e) => update({ caseSensitive: e.target.checked })} />
+              <span>Match case</span>
+            </label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-sm text-slate-700">
+            <span className="text-xs font-medium text-slate-500">Look in</span>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input type="radio" checked={scope === 'all'} onChange={() => setScope('all')} />
+              <span>All columns</span>
+            </label>
+            <label className="flex items-center space-x-2 cursor-pointer">
+              <input type="radio" checked={scope === 'column'} onChange={() => setScope('column')} />
+              <span>Column</span>
+            </label>
+            {scope === 'column' && (
+              <select
+                className="bg-white border border-slate-300 rounded-lg text-sm py-1 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={column}
+                onChange={(e) => setColumn(e.target.value)}
+              >
+                {columnMeta.map(col => <option key={col.key} value={col.key}>{col.name}</option>)}
+              </select>
+            )}
+            <label className={`flex items-center space-x-2 ${selection ? 'cursor-pointer' : 'text-slate-400'}`}>
+              <input type="radio" disabled={!selection} checked={scope === 'selection'} onChange={() => setScope('selection')} />
+              <span>
+                Selection
+                {selection && ` (${selection.rowIndices.length.toLocaleString()} × ${selection.columns.length})`}
+              </span>
+            </label>
+          </div>
+
+          {error && options.query ? (
+            <div className="flex items-center p-3 bg-red-50 text-red-700 rounded-xl border border-red-200 text-xs font-medium">
+              <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+              {error}
+            </div>
+          ) : !error && (
+            <div className="space-y-2">
+              <p className="text-sm text-slate-600">
+                {result.matchCount === 0 ? 'No matches.' : (
+                  <>
+                    <span className="font-semibold text-slate-800">{result.matchCount.toLocaleString()}</span>
+                    {result.matchCount === 1 ? ' match' : ' matches'},{' '}
+                    <span className="font-semibold text-slate-800">{result.changes.length.toLocaleString()}</span>
+                    {result.changes.length === 1 ? ' cell' : ' cells'} will change.
+                  </>
+                )}
+              </p>
+              {result.changes.length > 0 && (
+                <table className="w-full text-sm border border-slate-200 rounded-lg overflow-hidden table-fixed">
+                  <thead className="bg-slate-50 text-xs text-slate-500">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-semibold w-16">Row</th>
+                      <th className="px-3 py-2 text-left font-semibold w-32">Column</th>
+                      <th className="px-3 py-2 text-left font-semibold">Before</th>
+                      <th className="px-3 py-2 text-left font-semibold">After</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {result.changes.slice(0, PREVIEW_ROWS).map(change => (
+                      <tr key={`${change.rowIndex}:${change.column}`}>
+                        <td className="px-3 py-1.5 text-slate-400">{change.rowIndex + 1}</td>
+                        <td className="px-3 py-1.5 text-slate-500 truncate">{names.get(change.column) ?? change.column}</td>
+                        <td className="px-3 py-1.5 text-slate-600 truncate line-through decoration-red-300">
+                          {formatValue(change.before, schema[change.column])}
+                        </td>
+                        <td className="px-3 py-1.5 text-slate-800 truncate">{formatValue(change.after, schema[change.column])}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+              {result.changes.length > PREVIEW_ROWS && (
+                <p className="text-xs text-slate-400">...and {(result.changes.length - PREVIEW_ROWS).toLocaleString()} more</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleApply} disabled={!canApply} icon={<Replace className="w-4 h-4" />}>
+            Replace All
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useState } from 'react';
+import { AlertTriangle, ArrowDown, ArrowRight, ArrowUp, Paintbrush, Plus, Trash2, X } from 'lucide-react';
+import { ColumnSchema } from '../types';
+import {
+  COLOR_SCALES,
+  ColorScale,
+  FORMAT_KINDS,
+  FormatKind,
+  FormatRule,
+  HIGHLIGHT_COLORS,
+  HIGHLIGHT_CONDITIONS,
+  HighlightColor,
+  HighlightCondition,
+  createFormatRuleId,
+  describeFormatRule,
+  isScalable,
+  validateFormatRule
+} from '../utils/formatting';
+import { Button } from './Button';
+
+interface FormattingDialogProps {
+  column: string;
+  columnName: string;
+  schema?: ColumnSchema;
+  rules: FormatRule[]; // Every column's rules; only this column's are shown
+  onChange: (rules: FormatRule[]) => void;
+  onClose: () => void;
+}
+
+// A small sample of what the rule looks like in the grid
+const RulePreview: React.FC<{ rule: FormatRule }> = ({ rule }) => {
+  switch (rule.kind) {
+    case 'color-scale':
+      return (
+        <span
+          className="w-10 h-4 rounded border border-slate-200"
+          style={{ background: `linear-gradient(to right, ${COLOR_SCALES[rule.scale || 'red-green'].colors.join(', ')})` }}
+        />
+      );
+    case 'data-bar':
+      return (
+        <span className="w-10 h-4 rounded border border-slate-200 overflow-hidden">
+          <span className="block h-full w-2/3 opacity-60" style={{ background: HIGHLIGHT_COLORS[rule.color || 'blue'].bar }} />
+        </span>
+      );
+    case 'icon-set':
+      return (
+        <span className="w-10 flex items-center">
+          <ArrowUp className="w-3.5 h-3.5 text-green-600" />
+          <ArrowRight className="w-3.5 h-3.5 text-amber-500" />
+          <ArrowDown className="w-3.5 h-3.5 text-red-600" />
+        </span>
+      );
+    case 'highlight': {
+      const { fill, text } = HIGHLIGHT_COLORS[rule.color || 'red'];
+      return (
+        <span className="w-10 h-4 rounded border border-slate-200 text-[10px] font-bold leading-4 text-center" style={{ background: fill, color: text }}>
+          Abc
+        </span>
+      );
+    }
+  }
+};
+
+export const FormattingDialog: React.FC<FormattingDialogProps> = ({ column, columnName, schema, rules, onChange, onClose }) => {
+  const scalable = isScalable(schema);
+  const [draft, setDraft] = useState<FormatRule>({
+    id: '',
+    column,
+    kind: scalable ? 'color-scale' : 'highlight',
+    scale: 'red-green',
+    condition: scalable ? 'greater' : 'contains',
+    value: '',
+    color: 'red'
+  });
+
+  const columnRules = rules.filter(rule => rule.column === column);
+  const kinds = FORMAT_KINDS.filter(kind => scalable || kind.value === 'highlight');
+  const conditions = HIGHLIGHT_CONDITIONS.filter(c => scalable || (c.value !== 'greater' && c.value !== 'less'));
+  const draftError = validateFormatRule(draft, schema);
+  const needsValue = draft.kind === 'highlight' && draft.condition !== 'duplicate';
+  const isPercentValue = schema?.type === 'percent' && draft.condition !== 'contains';
+
+  const update = (patch: Partial<FormatRule>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const handleKindChange = (kind: FormatKind) => {
+    // Bars read best in blue, highlights in red
+    update({ kind, color: kind === 'data-bar' ? 'blue' : kind === 'highlight' ? 'red' : draft.color });
+  };
+
+  const handleAdd = () => {
+    if (draftError) return;
+    const { kind, scale, condition, value, color } = draft;
+    const rule: FormatRule = { id: createFormatRuleId(), column, kind };
+    if (kind === 'color-scale') rule.scale = scale;
+    if (kind === 'data-bar') rule.color = color;
+    if (kind === 'highlight') Object.assign(rule, { condition, color, value: condition === 'duplicate' ? undefined : value.trim() });
+    onChange([...rules, rule]);
+    update({ value: '' });
+  };
+
+  const inputClass = "bg-white border border-slate-300 rounded-lg text-sm py-1.5 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh] overflow-hidden border border-slate-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-white">
+          <div className="flex items-center space-x-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <Paintbrush className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-800">Conditional Formatting</h3>
+              <p className="text-sm text-slate-500">
+                Rules for <span className="font-medium text-slate-700">{columnName}</span>. They're kept in the Excel export.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-slate-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-5">
+          {columnRules.length > 0 ? (
+            <ul className="divide-y divide-slate-100 border border-slate-200 rounded-xl text-sm">
+              {columnRules.map(rule => (
+                <li key={rule.id} className="flex items-center px-3 py-2 gap-3">
+                  <RulePreview rule={rule} />
+                  <span className="flex-1 text-slate-700 truncate">{describeFormatRule(rule, schema)}</span>
+                  <button
+                    onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                    className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md"
+                    title="Remove rule"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-slate-500">No rules on this column yet.</p>
+          )}
+          {columnRules.length > 1 && (
+            <p className="text-xs text-slate-500">Where two rules color the same cell, the one higher in the list wins.</p>
+          )}
+
+          <div className="space-y-2 pt-4 border-t border-slate-100">
+            <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Add a rule</div>
+            <div className="flex items-center gap-2">
+              <select className={`${inputClass} w-36`} value={draft.kind} onChange={(e) => handleKindChange(e.target.value as FormatKind)}>
+                {kinds.map(kind => <option key={kind.value} value={kind.value}>{kind.label}</option>)}
+              </select>
+
+              {draft.kind === 'highlight' && (
+                <select className={`${inputClass} w-32`} value={draft.condition} onChange={(e) => update({ condition: e.target.value as HighlightCondition })}>
+                  {conditions.map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                </select>
+              )}
+              {needsValue && (
+                <input
+                  type={schema?.type === 'date' && draft.condition !== 'contains' ? 'date' : 'text'}
+                  className={`${inputClass} flex-1 min-w-0`}
+                  placeholder={isPercentValue ? 'Value in %' : 'Value'}
+                  value={draft.value}
+                  onChange={(e) => update({ value: e.target.value })}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+                />
+              )}
+              {draft.kind === 'color-scale' && (
+                <select className={`${inputClass} flex-1`} value={draft.scale} onChange={(e) => update({ scale: e.target.value as ColorScale })}>
+                  {(Object.keys(COLOR_SCALES) as ColorScale[]).map(scale => (
+                    <option key={scale} value={scale}>{COLOR_SCALES[scale].label}</option>
+                  ))}
+                </select>
+              )}
+              {(draft.kind === 'highlight' || draft.kind === 'data-bar') && (
+                <select className={`${inputClass} w-24`} value={draft.color} onChange={(e) => update({ color: e.target.value as HighlightColor })}>
+                  {(Object.keys(HIGHLIGHT_COLORS) as HighlightColor[]).map(color => (
+                    <option key={color} value={color}>{HIGHLIGHT_COLORS[color].label}</option>
+                  ))}
+                </select>
+              )}
+              {!needsValue && draft.kind !== 'color-scale' && <div className="flex-1" />}
+              <RulePreview rule={draft} />
+              <Button size="sm" onClick={handleAdd} disabled={!!draftError} icon={<Plus className="w-4 h-4" />}>
+                Add
+              </Button>
+            </div>
+            {draftError && draft.value ? (
+              <p className="flex items-center text-xs text-red-600">
+                <AlertTriangle className="w-3.5 h-3.5 mr-1" />
+                {draftError}
+              </p>
+            ) : needsValue && isPercentValue && (
+              <p className="text-xs text-slate-500">Enter percentages as shown in the column, e.g. 50 for 50%.</p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-between gap-2">
+          <Button
+            variant="ghost"
+            onClick={() => onChange(rules.filter(rule => rule.column !== column))}
+            disabled={columnRules.length === 0}
+          >
+            Clear column
+          </Button>
+          <Button onClick={onClose}>Done</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,238 @@
+import React, { useDeferredValue, useMemo, useRef, useState } from 'react';
+import { AlertTriangle, Check, ChevronDown, ChevronRight, Sigma, X } from 'lucide-react';
+import { ColumnMeta, ColumnSchema, CsvRow, CsvValue } from '../types';
+import { FORMULA_FUNCTIONS, FormulaError, compileFormula, computeColumn, normalizeFormula, schemaForValues } from '../utils/formula';
+import { formatValue } from '../utils/schema';
+import { Button } from './Button';
+
+export interface ComputedColumn {
+  name: string;
+  formula: string; // With column references normalized to [key]
+  values: CsvValue[];
+  schema: ColumnSchema; // Carries the formula when the column stays live
+}
+
+interface FormulaDialogProps {
+  data: CsvRow[];
+  columnMeta: ColumnMeta[];
+  defaultName: string;
+  locale?: string;
+  onApply: (column: ComputedColumn) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+const EXAMPLES = ['price * qty', 'UPPER(country)', 'IF(status = "paid", amount, 0)'];
+
+// Names that can be written without [brackets]
+const isPlainName = (name: string) =>
+  /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) && !/^(AND|OR|NOT|TRUE|FALSE|NULL|BLANK)$/i.test(name);
+
+export const FormulaDialog: React.FC<FormulaDialogProps> = ({ data, columnMeta, defaultName, locale, onApply, onClose }) => {
+  const [name, setName] = useState(defaultName);
+  const [formula, setFormula] = useState('');
+  const [isLive, setIsLive] = useState(true);
+  const [showFunctions, setShowFunctions] = useState(false);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Evaluating every row on each keystroke is slow on large datasets
+  const deferredFormula = useDeferredValue(formula);
+
+  const result = useMemo(() => {
+    if (!deferredFormula.trim()) return null;
+    try {
+      const compiled = compileFormula(deferredFormula, columnMeta);
+      const computed = computeColumn(compiled, data);
+      return { ...computed, schema: schemaForValues(computed.values, undefined, locale) };
+    } catch (err) {
+      if (err instanceof FormulaError) return { error: err };
+      throw err;
+    }
+  }, [deferredFormula, columnMeta, data, locale]);
+
+  const insertText = (text: string) => {
+    const el = inputRef.current;
+    const start = el?.selectionStart ?? formula.length;
+    const end = el?.selectionEnd ?? formula.length;
+    setFormula(formula.slice(0, start) + text + formula.slice(end));
+    requestAnimationFrame(() => {
+      el?.focus();
+      el?.setSelectionRange(start + text.length, start + text.length);
+    });
+  };
+
+  const handleApply = () => {
+    if (!result || 'error' in result) return;
+    const normalized = normalizeFormula(formula, columnMeta);
+    onApply({
+      name: name.trim(),
+      formula: normalized,
+      values: result.values,
+      schema: isLive ? { ...result.schema, formula: normalized } : result.schema
+    });
+  };
+
+  const canApply = !!name.trim() && !!result && !('error' in result) && formula === deferredFormula;
+  const categories = ['Math', 'Text', 'Date', 'Logic'] as const;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl flex flex-col max-h-[90vh] overflow-hidden border border-slate-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-white">
+          <div className="flex items-center space-x-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <Sigma className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-800">Computed Column</h3>
+              <p className="text-sm text-slate-500">Derive a new column from a formula over each row.</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-slate-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-4">
+          <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+            <span>Column name</span>
+            <input
+              className="bg-white border border-slate-300 rounded-lg text-sm py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </label>
+
+          <div className="space-y-1">
+            <span className="text-xs font-medium text-slate-500">Formula</span>
+            <textarea
+              ref={inputRef}
+              autoFocus
+              rows={3}
+              spellCheck={false}
+              className="w-full bg-white border border-slate-300 rounded-lg text-sm py-2 px-3 font-mono focus:outline-none focus:ring-2 focus:ring-blue-500"
+              placeholder={EXAMPLES.join('   ·   ')}
+              value={formula}
+              onChange={(e) => setFormula(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-1">
+              {columnMeta.map(col => (
+                <button
+                  key={col.key}
+                  onClick={() => insertText(isPlainName(col.name) ? col.name : `[${col.name}]`)}
+                  className="px-2 py-0.5 text-xs rounded-md bg-slate-100 text-slate-600 hover:bg-blue-50 hover:text-blue-700 font-mono"
+                >
+                  {col.name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {result && 'error' in result && (
+            <div className="p-3 bg-red-50 text-red-700 rounded-xl border border-red-200 text-xs space-y-1">
+              <div className="flex items-center font-medium">
+                <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                {result.error.message}
+              </div>
+              {result.error.position !== undefined && (
+                <pre className="font-mono text-red-600 whitespace-pre overflow-x-auto">
+                  {deferredFormula.replace(/\n/g, ' ')}{'\n'}{' '.repeat(result.error.position)}^
+                </pre>
+              )}
+            </div>
+          )}
+
+          {result && !('error' in result) && (
+            <div className="space-y-2">
+              <table className="w-full text-sm border border-slate-200 rounded-lg overflow-hidden">
+                <thead className="bg-slate-50 text-xs text-slate-500">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-semibold w-16">Row</th>
+                    <th className="px-3 py-2 text-left font-semibold">{name || 'Result'}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {result.values.slice(0, PREVIEW_ROWS).map((value, i) => (
+                    <tr key={i}>
+                      <td className="px-3 py-1.5 text-slate-400">{i + 1}</td>
+                      <td className="px-3 py-1.5 text-slate-800 truncate">{formatValue(value, result.schema)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {result.firstError && (
+                <p className="flex items-center text-xs text-amber-700">
+                  <AlertTriangle className="w-4 h-4 mr-1.5 flex-shrink-0" />
+                  {result.errorCount.toLocaleString()} {result.errorCount === 1 ? 'row' : 'rows'} left empty. Row {result.firstError.row + 1}: {result.firstError.message}
+                </p>
+              )}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <label className="flex items-start text-sm text-slate-700 space-x-2 cursor-pointer">
+              <input type="radio" className="mt-1" checked={isLive} onChange={() => setIsLive(true)} />
+              <span>
+                <span className="font-medium">Keep live</span>
+                <span className="block text-xs text-slate-500">Recalculated whenever the data changes; cells can't be edited.</span>
+              </span>
+            </label>
+            <label className="flex items-start text-sm text-slate-700 space-x-2 cursor-pointer">
+              <input type="radio" className="mt-1" checked={!isLive} onChange={() => setIsLive(false)} />
+              <span>
+                <span className="font-medium">Convert to values</span>
+                <span className="block text-xs text-slate-500">Fills the column once; later edits don't change it.</span>
+              </span>
+            </label>
+          </div>
+
+          <div className="border border-slate-200 rounded-xl">
+            <button
+              onClick={() => setShowFunctions(!showFunctions)}
+              className="w-full flex items-center px-3 py-2 text-xs font-semibold text-slate-600 hover:bg-slate-50"
+            >
+              {showFunctions ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+              Functions and operators
+            </button>
+            {showFunctions && (
+              <div className="px-3 pb-3 space-y-3 text-xs">
+                <p className="text-slate-500">
+                  Operators: <code>+ - * / % ^</code>, <code>&</code> joins text, comparisons <code>= &lt;&gt; &lt; &gt; &lt;= &gt;=</code>, and <code>AND OR NOT</code>.
+                  Refer to columns by name, or in <code>[brackets]</code> when the name has spaces. Text goes in "double quotes".
+                </p>
+                {categories.map(category => (
+                  <div key={category}>
+                    <div className="font-semibold text-slate-500 uppercase tracking-wider mb-1">{category}</div>
+                    <ul className="grid sm:grid-cols-2 gap-x-4 gap-y-0.5">
+                      {FORMULA_FUNCTIONS.filter(fn => fn.category === category).map(fn => (
+                        <li key={fn.signature}>
+                          <button
+                            onClick={() => insertText(`${fn.signature.slice(0, fn.signature.indexOf('(') + 1)}`)}
+                            className="text-left hover:text-blue-700"
+                            title={fn.description}
+                          >
+                            <code className="text-slate-700">{fn.signature}</code>
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleApply} disabled={!canApply} icon={<Check className="w-4 h-4" />}>
+            Add Column
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,49 @@
+import React from 'react';
+import { FileText, History } from 'lucide-react';
+import { EditHistory } from '../utils/history';
+
+interface HistoryPanelProps {
+  history: EditHistory;
+  fileName: string;
+  onJump: (position: number) => void;
+  onClose: () => void;
+}
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, fileName, onJump, onClose }) => {
+  const entries = [
+    { label: history.truncated ? 'Earliest available state' : `Opened ${fileName}`, position: 0 },
+    ...history.commands.map((command, i) => ({ label: command.label, position: i + 1 }))
+  ];
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onMouseDown={onClose} />
+      <div className="absolute right-0 top-full mt-2 z-50 w-72 bg-white rounded-xl shadow-2xl border border-slate-200 overflow-hidden animate-in fade-in duration-150">
+        <div className="px-4 py-2.5 border-b border-slate-100 flex items-center text-sm font-semibold text-slate-700">
+          <History className="w-4 h-4 mr-2 text-slate-400" />
+          Edit History
+        </div>
+        <ul className="max-h-80 overflow-auto py-1 text-sm">
+          {entries.map(entry => {
+            const isCurrent = entry.position === history.position;
+            const isUndone = entry.position > history.position;
+            return (
+              <li key={entry.position}>
+                <button
+                  onClick={() => onJump(entry.position)}
+                  className={`w-full text-left px-4 py-1.5 flex items-center transition-colors
+                    ${isCurrent ? 'bg-blue-50 text-blue-700 font-medium' : 'hover:bg-slate-50'}
+                    ${isUndone ? 'text-slate-400' : 'text-slate-700'}`}
+                  title={isUndone ? 'Redo up to here' : 'Go back to here'}
+                >
+                  {entry.position === 0 && <FileText className="w-3.5 h-3.5 mr-2 flex-shrink-0" />}
+                  <span className="truncate">{entry.label}</span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+    </>
+  );
+};
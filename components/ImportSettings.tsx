@@ -0,0 +1,215 @@
+import React, { useMemo } from 'react';
+import { Settings2, ArrowLeft, Check, AlertTriangle } from 'lucide-react';
+import { CsvDialect } from '../types';
+import { DetectedEncoding, ENCODING_OPTIONS, describeEncoding } from '../utils/encoding';
+import { DELIMITER_OPTIONS, QUOTE_OPTIONS, parseDelimited, describeDelimiter } from '../utils/csv';
+import { LOCALE_OPTIONS, getLocale } from '../utils/locale';
+import { buildColumnMeta } from '../utils/columns';
+import { Button } from './Button';
+
+interface ImportSettingsProps {
+  text: string;
+  fileName: string;
+  dialect: CsvDialect;
+  detected: CsvDialect;
+  onDialectChange: (dialect: CsvDialect) => void;
+  encoding?: string; // Omitted for pasted text, which is already decoded
+  detectedEncoding?: DetectedEncoding;
+  onEncodingChange?: (encoding: string) => void;
+  locale: string;
+  detectedLocale: string;
+  onLocaleChange: (locale: string) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+  isLoading?: boolean;
+  isCompact?: boolean;
+}
+
+const PREVIEW_ROWS = 8;
+const PREVIEW_SAMPLE_SIZE = 16 * 1024;
+
+export const ImportSettings: React.FC<ImportSettingsProps> = ({
+  text,
+  fileName,
+  dialect,
+  detected,
+  onDialectChange,
+  encoding,
+  detectedEncoding,
+  onEncodingChange,
+  locale,
+  detectedLocale,
+  onLocaleChange,
+  onConfirm,
+  onCancel,
+  isLoading = false,
+  isCompact = false
+}) => {
+  const isCustomDelimiter = !DELIMITER_OPTIONS.some(opt => opt.value === dialect.delimiter);
+
+  const previewRows = useMemo(() => {
+    return parseDelimited(text.slice(0, PREVIEW_SAMPLE_SIZE), dialect, PREVIEW_ROWS + 1);
+  }, [text, dialect]);
+
+  const previewWidth = previewRows.reduce((max, r) => Math.max(max, r.length), 0);
+  const header = dialect.hasHeader
+    ? previewRows[0] || []
+    : Array.from({ length: previewWidth }, (_, i) => `column_${i + 1}`);
+  const body = (dialect.hasHeader ? previewRows.slice(1) : previewRows).slice(0, PREVIEW_ROWS);
+  const headerWarnings = dialect.hasHeader ? buildColumnMeta(header).warnings : [];
+
+  const selectClass = "bg-white border border-slate-300 rounded-lg text-sm py-1.5 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  return (
+    <div className="w-full space-y-4 animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onCancel}
+          className="flex items-center text-slate-500 hover:text-slate-800 text-sm font-medium transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </button>
+        <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider truncate max-w-[60%]" title={fileName}>
+          {fileName}
+        </span>
+      </div>
+
+      <div className="bg-white border border-slate-200 rounded-2xl p-4 shadow-sm space-y-3">
+        <div className="flex items-center text-sm text-slate-700">
+          <Settings2 className="w-4 h-4 mr-2 text-blue-600" />
+          <span className="font-semibold mr-1">Detected:</span>
+          <span className="text-slate-500">
+            {detectedEncoding && `${describeEncoding(detectedEncoding.encoding)}${detectedEncoding.hasBom ? ' (BOM)' : ''}, `}
+            {describeDelimiter(detected.delimiter)}, {QUOTE_OPTIONS.find(q => q.value === detected.quote)?.label.toLowerCase()}, {detected.hasHeader ? 'header row' : 'no header'}, {getLocale(detectedLocale).example}
+          </span>
+        </div>
+
+        <div className={`grid gap-3 ${isCompact ? 'grid-cols-1' : 'grid-cols-2'}`}>
+          {encoding && onEncodingChange && (
+            <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+              <span>Encoding</span>
+              <select
+                className={selectClass}
+                value={encoding}
+                onChange={(e) => onEncodingChange(e.target.value)}
+              >
+                {ENCODING_OPTIONS.map(opt => (
+                  <option key={opt.value} value={opt.value}>{opt.label}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+            <span>Delimiter</span>
+            <div className="flex space-x-2">
+              <select
+                className={`${selectClass} flex-1`}
+                value={isCustomDelimiter ? 'custom' : dialect.delimiter}
+                onChange={(e) => onDialectChange({
+                  ...dialect,
+                  delimiter: e.target.value === 'custom' ? '' : e.target.value
+                })}
+              >
+                {DELIMITER_OPTIONS.map(opt => (
+                  <option key={opt.label} value={opt.value}>{opt.label}</option>
+                ))}
+                <option value="custom">Other...</option>
+              </select>
+              {isCustomDelimiter && (
+                <input
+                  type="text"
+                  maxLength={1}
+                  className={`${selectClass} w-12 text-center font-mono`}
+                  value={dialect.delimiter}
+                  onChange={(e) => onDialectChange({ ...dialect, delimiter: e.target.value })}
+                />
+              )}
+            </div>
+          </label>
+
+          <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+            <span>Quote character</span>
+            <select
+              className={selectClass}
+              value={dialect.quote}
+              onChange={(e) => onDialectChange({ ...dialect, quote: e.target.value })}
+            >
+              {QUOTE_OPTIONS.map(opt => (
+                <option key={opt.label} value={opt.value}>{opt.label}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+            <span>Numbers &amp; dates</span>
+            <select
+              className={selectClass}
+              value={locale}
+              onChange={(e) => onLocaleChange(e.target.value)}
+            >
+              {LOCALE_OPTIONS.map(opt => (
+                <option key={opt.id} value={opt.id}>{opt.label} — {opt.example}</option>
+              ))}
+            </select>
+          </label>
+
+          <label className="flex items-center text-sm text-slate-700 space-x-2 self-end pb-1.5 cursor-pointer">
+            <input
+              type="checkbox"
+              className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+              checked={dialect.hasHeader}
+              onChange={(e) => onDialectChange({ ...dialect, hasHeader: e.target.checked })}
+            />
+            <span>First row is a header</span>
+          </label>
+        </div>
+      </div>
+
+      {headerWarnings.length > 0 && (
+        <div className="flex items-start p-3 bg-amber-50 text-amber-800 rounded-xl border border-amber-200 text-xs space-x-2">
+          <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+          <ul className="space-y-0.5">
+            {headerWarnings.map(warning => <li key={warning}>{warning}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="border border-slate-200 rounded-2xl overflow-auto max-h-64 bg-white shadow-sm">
+        <table className="w-full text-left text-xs">
+          <thead className="bg-slate-50 sticky top-0">
+            <tr>
+              {header.map((col, i) => (
+                <th key={i} className="px-3 py-2 font-semibold text-slate-700 whitespace-nowrap border-b border-slate-200">
+                  {col}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {body.map((row, rowIdx) => (
+              <tr key={rowIdx}>
+                {header.map((_, colIdx) => (
+                  <td key={colIdx} className="px-3 py-1.5 text-slate-600 whitespace-nowrap max-w-[12rem] truncate">
+                    {row[colIdx] ?? ''}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <Button
+        className="w-full py-3 rounded-xl shadow-lg shadow-blue-100"
+        onClick={onConfirm}
+        isLoading={isLoading}
+        disabled={!dialect.delimiter}
+        icon={<Check className="w-4 h-4" />}
+      >
+        Import Data
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { AlertTriangle, X, Trash2, Check, Wrench } from 'lucide-react';
+import { ParseDiagnostic } from '../types';
+import { Button } from './Button';
+
+interface ParseDiagnosticsProps {
+  diagnostics: ParseDiagnostic[];
+  onSkip: () => void;
+  onKeep: () => void;
+  onFix: () => void;
+}
+
+export const describeDiagnostic = (d: ParseDiagnostic) => {
+  switch (d.kind) {
+    case 'unclosed-quote':
+      return 'Quote never closed; the rest of the file was read into this row';
+    case 'header-repeat':
+      return 'Repeated header row';
+    default:
+      return d.actual < d.expected
+        ? `${d.actual} of ${d.expected} fields; padded with empty cells`
+        : `${d.actual} fields, expected ${d.expected}; extra fields dropped`;
+  }
+};
+
+export const ParseDiagnostics: React.FC<ParseDiagnosticsProps> = ({ diagnostics, onSkip, onKeep, onFix }) => {
+  const showFile = diagnostics.some(d => d.fileName);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-4xl flex flex-col max-h-[90vh] overflow-hidden border border-slate-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-white">
+          <div className="flex items-center space-x-3">
+            <div className="bg-amber-100 p-2 rounded-lg">
+              <AlertTriangle className="w-5 h-5 text-amber-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-800">
+                {diagnostics.length.toLocaleString()} malformed {diagnostics.length === 1 ? 'row' : 'rows'}
+              </h3>
+              <p className="text-sm text-slate-500">These rows did not match the header and were imported as best as possible.</p>
+            </div>
+          </div>
+          <button
+            onClick={onKeep}
+            className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-slate-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <table className="w-full text-left text-sm border-collapse">
+            <thead className="bg-slate-50 sticky top-0 shadow-sm z-10">
+              <tr>
+                {showFile && <th className="px-4 py-3 font-semibold text-slate-600 border-b border-slate-200">File</th>}
+                <th className="px-4 py-3 font-semibold text-slate-600 border-b border-slate-200 text-right">Line</th>
+                <th className="px-4 py-3 font-semibold text-slate-600 border-b border-slate-200">Problem</th>
+                <th className="px-4 py-3 font-semibold text-slate-600 border-b border-slate-200">Raw text</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {diagnostics.map((d, i) => (
+                <tr key={i} className="hover:bg-slate-50">
+                  {showFile && <td className="px-4 py-2 text-slate-500 whitespace-nowrap">{d.fileName}</td>}
+                  <td className="px-4 py-2 text-slate-500 text-right font-mono">{d.line}</td>
+                  <td className="px-4 py-2 text-slate-700 whitespace-nowrap">{describeDiagnostic(d)}</td>
+                  <td className="px-4 py-2 font-mono text-xs text-slate-600 max-w-md truncate" title={d.raw}>{d.raw}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex flex-wrap justify-end gap-2">
+          <Button variant="danger" onClick={onSkip} icon={<Trash2 className="w-4 h-4" />}>
+            Skip These Rows
+          </Button>
+          <Button variant="secondary" onClick={onKeep} icon={<Check className="w-4 h-4" />}>
+            Keep Padded
+          </Button>
+          <Button onClick={onFix} icon={<Wrench className="w-4 h-4" />}>
+            Fix in Table
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
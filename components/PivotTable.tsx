@@ -0,0 +1,467 @@
+import React, { useDeferredValue, useEffect, useMemo, useState } from 'react';
+import { Columns3, FileSpreadsheet, GripVertical, Rows3, Sigma, Table2, X } from 'lucide-react';
+import { ColumnMeta, ColumnSchema, CsvRow } from '../types';
+import { Button } from './Button';
+import { COLUMN_TYPES, inferSchema, isNumericType } from '../utils/schema';
+import { downloadCsv, downloadExcel } from '../utils/export';
+import {
+  Aggregation,
+  DATE_GRAINS,
+  DateGrain,
+  EMPTY_PIVOT,
+  PivotConfig,
+  PivotDrill,
+  PivotRow,
+  aggregationsFor,
+  computePivot,
+  describeValue,
+  formatAggregate,
+  pivotToTable
+} from '../utils/pivot';
+
+interface PivotTableProps {
+  data: CsvRow[];
+  columns: string[];
+  columnMeta?: ColumnMeta[];
+  schema?: Record<string, ColumnSchema>; // Inferred from the data when omitted
+  fileName?: string;
+  onDrill?: (drill: PivotDrill) => void; // Shows the rows behind a cell
+}
+
+type Zone = 'rows' | 'columns' | 'values';
+
+interface DragState {
+  column: string;
+  from?: { zone: Zone; index: number }; // Unset when dragged from the field list
+}
+
+// Large pivots render their first rows only; exports have all of them
+const MAX_RENDERED_ROWS = 1000;
+
+const ZONES: { zone: Zone; label: string; icon: React.ReactNode; hint: string }[] = [
+  { zone: 'rows', label: 'Rows', icon: <Rows3 className="w-4 h-4" />, hint: 'Group rows by' },
+  { zone: 'columns', label: 'Columns', icon: <Columns3 className="w-4 h-4" />, hint: 'Spread across' },
+  { zone: 'values', label: 'Values', icon: <Sigma className="w-4 h-4" />, hint: 'Aggregate' }
+];
+
+export const PivotTable: React.FC<PivotTableProps> = ({ data, columns, columnMeta, schema, fileName, onDrill }) => {
+  const [config, setConfig] = useState<PivotConfig>(EMPTY_PIVOT);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dropZone, setDropZone] = useState<Zone | null>(null);
+
+  const columnSchema = useMemo(() => schema ?? inferSchema(data, columns), [schema, data, columns]);
+  const columnName = (col: string) => columnMeta?.find(meta => meta.key === col)?.name || col;
+
+  // Fields on a deleted column no longer apply
+  useEffect(() => {
+    const present = new Set(columns);
+    setConfig(prev => {
+      const keep = <T extends { column: string }>(items: T[]) => items.filter(item => present.has(item.column));
+      const next = { ...prev, rows: keep(prev.rows), columns: keep(prev.columns), values: keep(prev.values) };
+      return next.rows.length === prev.rows.length && next.columns.length === prev.columns.length && next.values.length === prev.values.length
+        ? prev
+        : next;
+    });
+  }, [columns]);
+
+  // Grouping a large file takes a moment, so dragging stays responsive while it runs
+  const deferredConfig = useDeferredValue(config);
+  const allRows = useMemo(() => data.map((_, idx) => idx), [data]);
+  const result = useMemo(
+    () => computePivot(data, allRows, deferredConfig, columnSchema),
+    [data, allRows, deferredConfig, columnSchema]
+  );
+  const isStale = deferredConfig !== config;
+
+  // --- Building the layout ---
+
+  const addField = (zone: Zone, column: string, index?: number) => {
+    setConfig(prev => {
+      const next = { ...prev };
+      if (zone === 'values') {
+        const aggregation: Aggregation = isNumericType(columnSchema[column]?.type) ? 'sum' : 'count';
+        const values = [...prev.values];
+        values.splice(index ?? values.length, 0, { column, aggregation });
+        next.values = values;
+      } else {
+        // A field groups either the rows or the columns, not both
+        const other = zone === 'rows' ? 'columns' : 'rows';
+        next[other] = prev[other].filter(field => field.column !== column);
+        const fields = prev[zone].filter(field => field.column !== column);
+        const grain: DateGrain | undefined = columnSchema[column]?.type === 'date' ? 'month' : undefined;
+        fields.splice(Math.min(index ?? fields.length, fields.length), 0, { column, grain });
+        next[zone] = fields;
+      }
+      return next;
+    });
+  };
+
+  const removeField = (zone: Zone, index: number) => {
+    setConfig(prev => ({ ...prev, [zone]: (prev[zone] as unknown[]).filter((_, i) => i !== index) }));
+  };
+
+  const handleDrop = (zone: Zone, index?: number) => {
+    if (!drag) return;
+    const { column, from } = drag;
+    setDrag(null);
+    setDropZone(null);
+    if (from) {
+      if (from.zone === zone && index !== undefined && index > from.index) index--;
+      // Moving a value keeps its aggregation
+      const moved = from.zone === 'values' && zone === 'values' ? config.values[from.index] : null;
+      removeField(from.zone, from.index);
+      if (moved) {
+        setConfig(prev => {
+          const values = [...prev.values];
+          values.splice(index ?? values.length, 0, moved);
+          return { ...prev, values };
+        });
+        return;
+      }
+    }
+    addField(zone, column, index);
+  };
+
+  const setGrain = (zone: 'rows' | 'columns', index: number, grain: DateGrain) => {
+    setConfig(prev => ({ ...prev, [zone]: prev[zone].map((field, i) => (i === index ? { ...field, grain } : field)) }));
+  };
+
+  const setAggregation = (index: number, aggregation: Aggregation) => {
+    setConfig(prev => ({ ...prev, values: prev.values.map((value, i) => (i === index ? { ...value, aggregation } : value)) }));
+  };
+
+  // --- Drill-down and export ---
+
+  const describeField = (zone: 'rows' | 'columns', level: number) => {
+    const field = deferredConfig[zone][level];
+    const grain = DATE_GRAINS.find(g => g.value === field.grain);
+    return grain ? `${grain.label} of ${columnName(field.column)}` : columnName(field.column);
+  };
+
+  const handleDrill = (row: PivotRow, cellIndex: number) => {
+    if (!onDrill) return;
+    const keyIndex = Math.floor(cellIndex / result.values.length);
+    const columnKey = keyIndex < result.columnKeys.length ? result.columnKeys[keyIndex] : [];
+    const value = result.values[cellIndex % result.values.length];
+    const filters = [
+      ...row.path.map((label, level) => ({ field: deferredConfig.rows[level], label, name: describeField('rows', level) })),
+      ...columnKey.map((label, level) => ({ field: deferredConfig.columns[level], label, name: describeField('columns', level) }))
+    ];
+    onDrill({
+      filters: filters.map(({ field, label }) => ({ field, label })),
+      description: [
+        describeValue(value, columnName(value.column)),
+        ...filters.map(({ name, label }) => `${name}: ${label}`)
+      ].join(' · ')
+    });
+  };
+
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    const table = pivotToTable(result, deferredConfig, columnName);
+    const timestamp = new Date().toISOString().replace(/[-:T]/g, '').slice(0, 12);
+    const base = (fileName || 'data').replace(/\.[a-z0-9]+$/i, '');
+    const name = `${base}_pivot_${timestamp}.${format}`;
+    if (format === 'csv') downloadCsv(table.rows, table.columns, name);
+    else downloadExcel(table.rows, table.columns, name, 'Pivot');
+  };
+
+  // --- Rendering ---
+
+  const typeLabel = (col: string) => COLUMN_TYPES.find(t => t.value === columnSchema[col]?.type)?.label || 'Text';
+  const selectClass = "bg-white border border-slate-200 rounded text-xs py-0.5 px-1 focus:outline-none focus:ring-1 focus:ring-blue-500";
+
+  const renderChip = (zone: Zone, index: number) => {
+    const column = zone === 'values' ? config.values[index].column : config[zone][index].column;
+    const isDate = columnSchema[column]?.type === 'date';
+    return (
+      <li
+        key={`${column}-${index}`}
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          e.dataTransfer.setData('text/plain', column);
+          setDrag({ column, from: { zone, index } });
+        }}
+        onDragEnd={() => { setDrag(null); setDropZone(null); }}
+        onDragOver={(e) => { if (drag) e.preventDefault(); }}
+        onDrop={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          handleDrop(zone, index);
+        }}
+        className="flex items-center gap-1 bg-white border border-slate-200 rounded-lg pl-1 pr-1 py-1 text-sm shadow-sm cursor-grab active:cursor-grabbing"
+      >
+        <GripVertical className="w-3.5 h-3.5 text-slate-300 flex-shrink-0" />
+        <span className="flex-1 truncate text-slate-700" title={columnName(column)}>{columnName(column)}</span>
+        {zone === 'values' && (
+          <select
+            className={selectClass}
+            value={config.values[index].aggregation}
+            onChange={(e) => setAggregation(index, e.target.value as Aggregation)}
+          >
+            {aggregationsFor(columnSchema[column]).map(agg => <option key={agg.value} value={agg.value}>{agg.label}</option>)}
+          </select>
+        )}
+        {zone !== 'values' && isDate && (
+          <select
+            className={selectClass}
+            value={config[zone][index].grain || 'day'}
+            onChange={(e) => setGrain(zone, index, e.target.value as DateGrain)}
+          >
+            {DATE_GRAINS.map(grain => <option key={grain.value} value={grain.value}>{grain.label}</option>)}
+          </select>
+        )}
+        <button
+          onClick={() => removeField(zone, index)}
+          className="p-0.5 rounded text-slate-400 hover:text-red-600 hover:bg-red-50"
+          title="Remove"
+        >
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </li>
+    );
+  };
+
+  const rowFieldCount = deferredConfig.rows.length;
+  const colFieldCount = deferredConfig.columns.length;
+  const valueCount = result.values.length;
+  const valueNames = result.values.map(value => describeValue(value, columnName(value.column)));
+  const showValueRow = valueCount > 1 || colFieldCount === 0;
+  const headerRows = colFieldCount + (showValueRow ? 1 : 0);
+  const columnGroups = [...result.columnKeys, ...(result.hasTotalColumn ? [null] : [])];
+  const shownRows = result.rows.slice(0, MAX_RENDERED_ROWS);
+
+  // Column labels that span every data column below them with the same prefix
+  const headerSpans = (level: number) => {
+    const spans: { label: string; span: number }[] = [];
+    result.columnKeys.forEach((key, i) => {
+      const prev = result.columnKeys[i - 1];
+      const samePrefix = prev && key.slice(0, level + 1).join('\u0000') === prev.slice(0, level + 1).join('\u0000');
+      if (samePrefix) spans[spans.length - 1].span += valueCount;
+      else spans.push({ label: key[level], span: valueCount });
+    });
+    return spans;
+  };
+
+  const cornerCells = () => (rowFieldCount > 0
+    ? deferredConfig.rows.map((_, level) => (
+        <th key={level} className="px-3 py-2 text-left font-semibold text-slate-700 bg-slate-100 border-b border-r border-slate-200">
+          {describeField('rows', level)}
+        </th>
+      ))
+    : <th className="px-3 py-2 bg-slate-100 border-b border-r border-slate-200" />);
+
+  const renderLabels = (row: PivotRow, index: number) => {
+    const span = Math.max(rowFieldCount, 1);
+    if (row.kind === 'total') {
+      return <td colSpan={span} className="px-3 py-2 font-bold text-slate-800 border-r border-slate-200">Grand Total</td>;
+    }
+    if (row.kind === 'subtotal') {
+      return (
+        <>
+          {row.path.length > 1 && <td colSpan={row.path.length - 1} className="border-r border-slate-200" />}
+          <td colSpan={span - row.path.length + 1} className="px-3 py-2 font-semibold text-slate-700 border-r border-slate-200">
+            {row.path[row.path.length - 1]} Total
+          </td>
+        </>
+      );
+    }
+    // Labels repeated from the row above are left blank, so groups read as blocks
+    const prev = shownRows[index - 1];
+    return row.path.map((label, level) => {
+      const repeated = prev?.kind === 'item' && prev.path.slice(0, level + 1).join('\u0000') === row.path.slice(0, level + 1).join('\u0000');
+      return (
+        <td key={level} className="px-3 py-2 text-slate-700 whitespace-nowrap border-r border-slate-200">
+          {repeated ? '' : label}
+        </td>
+      );
+    });
+  };
+
+  return (
+    <div className="h-full flex gap-4 min-h-0">
+      {/* Field list and layout */}
+      <div className="w-72 flex-shrink-0 flex flex-col gap-3 min-h-0">
+        <div
+          className="flex-1 min-h-0 flex flex-col bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden"
+          onDragOver={(e) => { if (drag?.from) e.preventDefault(); }}
+          onDrop={(e) => {
+            // Dropping a placed field back on the list removes it
+            e.preventDefault();
+            if (drag?.from) removeField(drag.from.zone, drag.from.index);
+            setDrag(null);
+            setDropZone(null);
+          }}
+        >
+          <div className="px-4 py-3 border-b border-slate-100 text-xs font-semibold text-slate-500 uppercase tracking-wider">
+            Fields
+          </div>
+          <ul className="flex-1 overflow-auto p-2 space-y-1">
+            {columns.map(col => (
+              <li
+                key={col}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'copyMove';
+                  e.dataTransfer.setData('text/plain', col);
+                  setDrag({ column: col });
+                }}
+                onDragEnd={() => { setDrag(null); setDropZone(null); }}
+                className="flex items-center px-2 py-1.5 rounded-lg text-sm text-slate-700 hover:bg-slate-50 cursor-grab active:cursor-grabbing"
+              >
+                <GripVertical className="w-3.5 h-3.5 mr-1 text-slate-300" />
+                <span className="flex-1 truncate" title={columnName(col)}>{columnName(col)}</span>
+                <span className="ml-2 text-[10px] uppercase tracking-wider text-slate-400">{typeLabel(col)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {ZONES.map(({ zone, label, icon, hint }) => {
+          const count = zone === 'values' ? config.values.length : config[zone].length;
+          return (
+            <div
+              key={zone}
+              className={`bg-white rounded-xl border shadow-sm p-3 transition-colors
+                ${dropZone === zone ? 'border-blue-400 bg-blue-50/50' : 'border-slate-200'}`}
+              onDragOver={(e) => {
+                if (!drag) return;
+                e.preventDefault();
+                if (dropZone !== zone) setDropZone(zone);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropZone(null);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(zone);
+              }}
+            >
+              <div className="flex items-center text-xs font-semibold text-slate-500 uppercase tracking-wider mb-2">
+                <span className="mr-1.5 text-slate-400">{icon}</span>
+                {label}
+              </div>
+              {count > 0 ? (
+                <ul className="space-y-1">
+                  {Array.from({ length: count }, (_, index) => renderChip(zone, index))}
+                </ul>
+              ) : (
+                <div className="text-xs text-slate-400 border border-dashed border-slate-200 rounded-lg px-3 py-2 text-center">
+                  {hint}: drag a field here
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Result */}
+      <div className="flex-1 min-w-0 flex flex-col bg-white rounded-xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="p-4 border-b border-slate-200 flex flex-wrap items-center justify-between gap-3 bg-slate-50/50">
+          <div className="flex items-center gap-4 text-sm text-slate-600">
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                checked={config.subtotals}
+                onChange={(e) => setConfig(prev => ({ ...prev, subtotals: e.target.checked }))}
+              />
+              Subtotals
+            </label>
+            <label className="flex items-center gap-1.5 cursor-pointer">
+              <input
+                type="checkbox"
+                className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                checked={config.grandTotals}
+                onChange={(e) => setConfig(prev => ({ ...prev, grandTotals: e.target.checked }))}
+              />
+              Grand totals
+            </label>
+            {isStale && <span className="text-xs text-slate-400">Updating...</span>}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button size="sm" variant="secondary" onClick={() => handleExport('csv')} icon={<Table2 className="w-4 h-4" />}>
+              Export CSV
+            </Button>
+            <Button size="sm" variant="secondary" onClick={() => handleExport('xlsx')} icon={<FileSpreadsheet className="w-4 h-4" />}>
+              Export Excel
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <table className="text-sm border-collapse min-w-full">
+            <thead className="sticky top-0 z-10">
+              {Array.from({ length: headerRows }, (_, level) => {
+                const isValueRow = showValueRow && level === headerRows - 1;
+                return (
+                  <tr key={level}>
+                    {level === headerRows - 1
+                      ? cornerCells()
+                      : level === 0 && <th rowSpan={headerRows - 1} colSpan={Math.max(rowFieldCount, 1)} className="bg-slate-100 border-b border-r border-slate-200" />}
+                    {isValueRow
+                      ? columnGroups.flatMap((_, g) => valueNames.map((name, v) => (
+                          <th key={`${g}-${v}`} className="px-3 py-2 text-right font-semibold text-slate-700 bg-slate-100 border-b border-r border-slate-200 whitespace-nowrap">
+                            {name}
+                          </th>
+                        )))
+                      : (
+                        <>
+                          {headerSpans(level).map((span, i) => (
+                            <th key={i} colSpan={span.span} className="px-3 py-2 text-left font-semibold text-slate-700 bg-slate-100 border-b border-r border-slate-200 whitespace-nowrap">
+                              {span.label}
+                            </th>
+                          ))}
+                          {result.hasTotalColumn && level === 0 && (
+                            <th
+                              rowSpan={colFieldCount}
+                              colSpan={valueCount}
+                              className="px-3 py-2 text-left font-bold text-slate-800 bg-slate-100 border-b border-slate-200"
+                            >
+                              Total
+                            </th>
+                          )}
+                        </>
+                      )}
+                  </tr>
+                );
+              })}
+            </thead>
+            <tbody>
+              {shownRows.map((row, index) => (
+                <tr
+                  key={`${row.kind}-${row.path.join('\u0000')}`}
+                  className={`border-b border-slate-100
+                    ${row.kind === 'total' ? 'bg-slate-100' : row.kind === 'subtotal' ? 'bg-slate-50' : 'hover:bg-slate-50/50'}`}
+                >
+                  {renderLabels(row, index)}
+                  {row.cells.map((n, i) => {
+                    const value = result.values[i % valueCount];
+                    const isTotalColumn = result.hasTotalColumn && i >= result.columnKeys.length * valueCount;
+                    return (
+                      <td
+                        key={i}
+                        className={`px-3 py-2 text-right tabular-nums whitespace-nowrap border-r border-slate-100
+                          ${row.kind !== 'item' || isTotalColumn ? 'font-semibold text-slate-800' : 'text-slate-600'}
+                          ${onDrill && n !== null ? 'cursor-pointer hover:bg-blue-50 hover:text-blue-700' : ''}`}
+                        title={onDrill && n !== null ? 'Show the rows behind this value' : undefined}
+                        onClick={n !== null ? () => handleDrill(row, i) : undefined}
+                      >
+                        {formatAggregate(n, value, columnSchema[value.column])}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {result.rows.length > MAX_RENDERED_ROWS && (
+            <p className="p-3 text-xs text-slate-500 text-center">
+              Showing the first {MAX_RENDERED_ROWS.toLocaleString()} of {result.rows.length.toLocaleString()} rows. Export to get all of them.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
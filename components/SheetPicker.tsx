@@ -0,0 +1,198 @@
+import React, { useMemo, useState } from 'react';
+import * as XLSX from 'xlsx';
+import { ArrowLeft, Check, Sheet, AlertCircle } from 'lucide-react';
+import { SheetInfo, resolveSheetRange, sheetToRows } from '../utils/excel';
+import { LOCALE_OPTIONS } from '../utils/locale';
+import { Button } from './Button';
+
+export interface SheetSelection {
+  sheetName: string;
+  range: string;
+  hasHeader: boolean;
+  locale: string; // Used for numbers and dates stored as text cells
+}
+
+interface SheetPickerProps {
+  workbook: XLSX.WorkBook;
+  sheets: SheetInfo[];
+  fileName: string;
+  defaultLocale: string;
+  onConfirm: (selection: SheetSelection) => void;
+  onCancel: () => void;
+  isCompact?: boolean;
+}
+
+const PREVIEW_ROWS = 8;
+
+const firstRowOf = (sheet: SheetInfo | undefined) =>
+  sheet?.range ? XLSX.utils.decode_range(sheet.range).s.r + 1 : 1;
+
+export const SheetPicker: React.FC<SheetPickerProps> = ({
+  workbook,
+  sheets,
+  fileName,
+  defaultLocale,
+  onConfirm,
+  onCancel,
+  isCompact = false
+}) => {
+  const [sheetName, setSheetName] = useState(() => (sheets.find(s => s.rowCount > 0) || sheets[0])?.name || '');
+  const selectedSheet = sheets.find(s => s.name === sheetName);
+  const [headerRow, setHeaderRow] = useState(() => firstRowOf(selectedSheet));
+  const [rangeText, setRangeText] = useState('');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [locale, setLocale] = useState(defaultLocale);
+
+  const resolved = useMemo(() => {
+    if (!selectedSheet || selectedSheet.rowCount === 0) {
+      return { range: '', error: 'This sheet is empty.' };
+    }
+    try {
+      return { range: resolveSheetRange(selectedSheet, headerRow, rangeText), error: null };
+    } catch (err: any) {
+      return { range: '', error: err.message as string };
+    }
+  }, [selectedSheet, headerRow, rangeText]);
+
+  const previewRows = useMemo(() => {
+    return resolved.range ? sheetToRows(workbook, sheetName, resolved.range, PREVIEW_ROWS + 1) : [];
+  }, [workbook, sheetName, resolved.range]);
+
+  const previewWidth = previewRows.reduce((max, r) => Math.max(max, r.length), 0);
+  const header = hasHeader
+    ? previewRows[0] || []
+    : Array.from({ length: previewWidth }, (_, i) => `column_${i + 1}`);
+  const body = (hasHeader ? previewRows.slice(1) : previewRows).slice(0, PREVIEW_ROWS);
+
+  const handleSelectSheet = (name: string) => {
+    setSheetName(name);
+    setHeaderRow(firstRowOf(sheets.find(s => s.name === name)));
+    setRangeText('');
+  };
+
+  const inputClass = "bg-white border border-slate-300 rounded-lg text-sm py-1.5 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-100 disabled:text-slate-400";
+
+  return (
+    <div className="w-full space-y-4 animate-in fade-in slide-in-from-bottom-2">
+      <div className="flex items-center justify-between">
+        <button
+          onClick={onCancel}
+          className="flex items-center text-slate-500 hover:text-slate-800 text-sm font-medium transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          Back
+        </button>
+        <span className="text-xs font-semibold text-slate-400 uppercase tracking-wider truncate max-w-[60%]" title={fileName}>
+          {fileName}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {sheets.map(sheet => (
+          <button
+            key={sheet.name}
+            onClick={() => handleSelectSheet(sheet.name)}
+            className={`flex items-center px-3 py-2 rounded-xl border text-sm transition-all duration-200
+              ${sheet.name === sheetName
+                ? 'bg-blue-50 border-blue-500 ring-1 ring-blue-500 text-blue-700'
+                : 'bg-white border-slate-200 text-slate-600 hover:border-slate-300 hover:bg-slate-50'
+              }`}
+          >
+            <Sheet className="w-4 h-4 mr-2" />
+            <span className="font-medium mr-2">{sheet.name}</span>
+            <span className="text-xs text-slate-400">{sheet.rowCount.toLocaleString()} rows</span>
+          </button>
+        ))}
+      </div>
+
+      <div className={`bg-white border border-slate-200 rounded-2xl p-4 shadow-sm grid gap-3 ${isCompact ? 'grid-cols-1' : 'grid-cols-2'}`}>
+        <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+          <span>Header row</span>
+          <input
+            type="number"
+            min={1}
+            className={inputClass}
+            value={headerRow}
+            disabled={!!rangeText.trim()}
+            onChange={(e) => setHeaderRow(Math.max(1, Number(e.target.value) || 1))}
+          />
+        </label>
+
+        <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+          <span>Cell range (optional)</span>
+          <input
+            type="text"
+            className={`${inputClass} font-mono`}
+            placeholder={selectedSheet?.range || 'A1:F100'}
+            value={rangeText}
+            onChange={(e) => setRangeText(e.target.value)}
+          />
+        </label>
+
+        <label className="flex flex-col text-xs font-medium text-slate-500 space-y-1">
+          <span>Numbers &amp; dates in text cells</span>
+          <select
+            className={inputClass}
+            value={locale}
+            onChange={(e) => setLocale(e.target.value)}
+          >
+            {LOCALE_OPTIONS.map(opt => (
+              <option key={opt.id} value={opt.id}>{opt.label} — {opt.example}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center text-sm text-slate-700 space-x-2 self-end pb-1.5 cursor-pointer">
+          <input
+            type="checkbox"
+            className="rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+            checked={hasHeader}
+            onChange={(e) => setHasHeader(e.target.checked)}
+          />
+          <span>First row is a header</span>
+        </label>
+      </div>
+
+      {resolved.error ? (
+        <div className="flex items-center p-3 bg-amber-50 text-amber-800 rounded-xl border border-amber-200 text-xs">
+          <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+          {resolved.error}
+        </div>
+      ) : (
+        <div className="border border-slate-200 rounded-2xl overflow-auto max-h-64 bg-white shadow-sm">
+          <table className="w-full text-left text-xs">
+            <thead className="bg-slate-50 sticky top-0">
+              <tr>
+                {header.map((col, i) => (
+                  <th key={i} className="px-3 py-2 font-semibold text-slate-700 whitespace-nowrap border-b border-slate-200">
+                    {String(col ?? '')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {body.map((row, rowIdx) => (
+                <tr key={rowIdx}>
+                  {header.map((_, colIdx) => (
+                    <td key={colIdx} className="px-3 py-1.5 text-slate-600 whitespace-nowrap max-w-[12rem] truncate">
+                      {String(row[colIdx] ?? '')}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <Button
+        className="w-full py-3 rounded-xl shadow-lg shadow-blue-100"
+        onClick={() => onConfirm({ sheetName, range: resolved.range, hasHeader, locale })}
+        disabled={!resolved.range}
+        icon={<Check className="w-4 h-4" />}
+      >
+        Import Sheet
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,290 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Plus, Save, ShieldCheck, Trash2, X } from 'lucide-react';
+import { ColumnMeta, ColumnSchema, ColumnType } from '../types';
+import { COLUMN_TYPES } from '../utils/schema';
+import {
+  RULE_KINDS,
+  RuleKind,
+  SavedRuleSet,
+  ValidationResult,
+  ValidationRule,
+  applyRuleSet,
+  createRuleId,
+  deleteRuleSet,
+  describeRule,
+  loadRuleSets,
+  saveRuleSet,
+  validateRule
+} from '../utils/validation';
+import { Button } from './Button';
+
+interface ValidationDialogProps {
+  columnMeta: ColumnMeta[];
+  schema: Record<string, ColumnSchema>;
+  rules: ValidationRule[];
+  result: ValidationResult | null;
+  onChange: (rules: ValidationRule[]) => void;
+  onClose: () => void;
+}
+
+// The rule being added; lists and lengths are edited as text
+interface DraftRule {
+  column: string;
+  kind: RuleKind;
+  type: ColumnType;
+  min: string;
+  max: string;
+  pattern: string;
+  values: string;
+  maxLength: string;
+}
+
+const toRule = (draft: DraftRule, id: string): ValidationRule => {
+  const rule: ValidationRule = { id, column: draft.column, kind: draft.kind };
+  switch (draft.kind) {
+    case 'type':
+      return { ...rule, type: draft.type };
+    case 'range':
+      return { ...rule, min: draft.min.trim() || undefined, max: draft.max.trim() || undefined };
+    case 'pattern':
+      return { ...rule, pattern: draft.pattern };
+    case 'allowed':
+      return { ...rule, values: draft.values.split(/[,\n]/).map(v => v.trim()).filter(Boolean) };
+    case 'max-length':
+      return { ...rule, maxLength: draft.maxLength.trim() ? Number(draft.maxLength) : undefined };
+    default:
+      return rule;
+  }
+};
+
+export const ValidationDialog: React.FC<ValidationDialogProps> = ({ columnMeta, schema, rules, result, onChange, onClose }) => {
+  const [draft, setDraft] = useState<DraftRule>({
+    column: columnMeta[0]?.key ?? '',
+    kind: 'required',
+    type: 'integer',
+    min: '',
+    max: '',
+    pattern: '',
+    values: '',
+    maxLength: ''
+  });
+  const [savedSets, setSavedSets] = useState<SavedRuleSet[]>(loadRuleSets);
+  const [setName, setSetName] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const names = new Map(columnMeta.map(col => [col.key, col.name]));
+  const update = (patch: Partial<DraftRule>) => setDraft(prev => ({ ...prev, ...patch }));
+  const draftError = draft.column ? validateRule(toRule(draft, ''), schema[draft.column]) : 'Choose a column.';
+  const isDateColumn = schema[draft.column]?.type === 'date';
+  const isPercentColumn = schema[draft.column]?.type === 'percent';
+
+  const handleAdd = () => {
+    if (draftError) return;
+    onChange([...rules, toRule(draft, createRuleId())]);
+    setNotice(null);
+  };
+
+  const handleSave = () => {
+    const name = setName.trim();
+    if (!name || rules.length === 0) return;
+    setSavedSets(saveRuleSet(name, rules, columnMeta));
+    setNotice(`Saved ${rules.length} ${rules.length === 1 ? 'rule' : 'rules'} as "${name}".`);
+  };
+
+  const handleLoad = (set: SavedRuleSet) => {
+    const { rules: loaded, skipped } = applyRuleSet(set, columnMeta);
+    onChange(loaded);
+    setSetName(set.name);
+    setNotice(skipped.length > 0
+      ? `Loaded "${set.name}". Skipped rules for ${skipped.join(', ')}, which this file doesn't have.`
+      : `Loaded "${set.name}".`);
+  };
+
+  const inputClass = "bg-white border border-slate-300 rounded-lg text-sm py-1.5 px-2 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+  const renderParameters = () => {
+    switch (draft.kind) {
+      case 'type':
+        return (
+          <select className={`${inputClass} flex-1`} value={draft.type} onChange={(e) => update({ type: e.target.value as ColumnType })}>
+            {COLUMN_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+          </select>
+        );
+      case 'range':
+        return (
+          <div className="flex-1 flex items-center gap-2">
+            <input
+              type={isDateColumn ? 'date' : 'text'}
+              className={`${inputClass} w-full`}
+              placeholder={isPercentColumn ? 'Min %' : 'Min'}
+              value={draft.min}
+              onChange={(e) => update({ min: e.target.value })}
+            />
+            <span className="text-slate-400">–</span>
+            <input
+              type={isDateColumn ? 'date' : 'text'}
+              className={`${inputClass} w-full`}
+              placeholder={isPercentColumn ? 'Max %' : 'Max'}
+              value={draft.max}
+              onChange={(e) => update({ max: e.target.value })}
+            />
+          </div>
+        );
+      case 'pattern':
+        return (
+          <input
+            className={`${inputClass} flex-1 font-mono`}
+            placeholder="^[A-Z]{2}\d{4}$"
+            value={draft.pattern}
+            onChange={(e) => update({ pattern: e.target.value })}
+          />
+        );
+      case 'allowed':
+        return (
+          <input
+            className={`${inputClass} flex-1`}
+            placeholder="Values, separated by commas"
+            value={draft.values}
+            onChange={(e) => update({ values: e.target.value })}
+          />
+        );
+      case 'max-length':
+        return (
+          <input
+            type="number"
+            min={0}
+            className={`${inputClass} flex-1`}
+            placeholder="Characters"
+            value={draft.maxLength}
+            onChange={(e) => update({ maxLength: e.target.value })}
+          />
+        );
+      default:
+        return <div className="flex-1" />;
+    }
+  };
+
+  const invalidRows = result?.cellErrors.size ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/40 backdrop-blur-sm animate-in fade-in duration-200">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl flex flex-col max-h-[90vh] overflow-hidden border border-slate-200">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between bg-white">
+          <div className="flex items-center space-x-3">
+            <div className="bg-blue-100 p-2 rounded-lg">
+              <ShieldCheck className="w-5 h-5 text-blue-600" />
+            </div>
+            <div>
+              <h3 className="text-lg font-bold text-slate-800">Validation Rules</h3>
+              <p className="text-sm text-slate-500">
+                {rules.length === 0
+                  ? 'Flag cells that break the rules you set for each column.'
+                  : invalidRows === 0
+                    ? 'Every row passes.'
+                    : `${result!.invalidCells.toLocaleString()} invalid ${result!.invalidCells === 1 ? 'cell' : 'cells'} in ${invalidRows.toLocaleString()} ${invalidRows === 1 ? 'row' : 'rows'}.`}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-slate-100 rounded-full transition-colors text-slate-400 hover:text-slate-600"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto p-6 space-y-5">
+          {rules.length > 0 && (
+            <ul className="divide-y divide-slate-100 border border-slate-200 rounded-xl text-sm">
+              {rules.map(rule => {
+                const count = result?.ruleCounts.get(rule.id) ?? 0;
+                return (
+                  <li key={rule.id} className="flex items-center px-3 py-2 gap-3">
+                    <span className="w-40 font-medium text-slate-700 truncate">{names.get(rule.column) ?? rule.column}</span>
+                    <span className="flex-1 text-slate-600 truncate">{describeRule(rule, schema[rule.column])}</span>
+                    <span className={`text-xs font-medium px-2 py-0.5 rounded-full ${count > 0 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'}`}>
+                      {count > 0 ? `${count.toLocaleString()} invalid` : 'Passing'}
+                    </span>
+                    <button
+                      onClick={() => onChange(rules.filter(r => r.id !== rule.id))}
+                      className="p-1 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-md"
+                      title="Remove rule"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <div className="space-y-2">
+            <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Add a rule</div>
+            <div className="flex items-center gap-2">
+              <select className={`${inputClass} w-40`} value={draft.column} onChange={(e) => update({ column: e.target.value })}>
+                {columnMeta.map(col => <option key={col.key} value={col.key}>{col.name}</option>)}
+              </select>
+              <select className={`${inputClass} w-36`} value={draft.kind} onChange={(e) => update({ kind: e.target.value as RuleKind })}>
+                {RULE_KINDS.map(kind => <option key={kind.value} value={kind.value}>{kind.label}</option>)}
+              </select>
+              {renderParameters()}
+              <Button size="sm" onClick={handleAdd} disabled={!!draftError} icon={<Plus className="w-4 h-4" />}>
+                Add
+              </Button>
+            </div>
+            {draftError && (draft.min || draft.max || draft.pattern || draft.values || draft.maxLength) ? (
+              <p className="flex items-center text-xs text-red-600">
+                <AlertTriangle className="w-3.5 h-3.5 mr-1" />
+                {draftError}
+              </p>
+            ) : draft.kind === 'range' && isPercentColumn && (
+              <p className="text-xs text-slate-500">Enter percentages as shown in the column, e.g. 50 for 50%.</p>
+            )}
+          </div>
+
+          <div className="space-y-2 pt-4 border-t border-slate-100">
+            <div className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Saved rule sets</div>
+            <p className="text-xs text-slate-500">Rules are saved in this browser and matched to the next file's columns by name.</p>
+            <div className="flex items-center gap-2">
+              <input
+                className={`${inputClass} flex-1`}
+                placeholder="Name, e.g. Vendor orders"
+                value={setName}
+                onChange={(e) => setSetName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+              />
+              <Button size="sm" variant="secondary" onClick={handleSave} disabled={!setName.trim() || rules.length === 0} icon={<Save className="w-4 h-4" />}>
+                Save rules
+              </Button>
+            </div>
+            {savedSets.length > 0 && (
+              <ul className="flex flex-wrap gap-2">
+                {savedSets.map(set => (
+                  <li key={set.name} className="inline-flex items-center bg-slate-100 rounded-full pl-3 pr-1 py-0.5 text-xs">
+                    <button onClick={() => handleLoad(set)} className="font-medium text-slate-700 hover:text-blue-700" title="Replace the current rules with this set">
+                      {set.name}
+                      <span className="ml-1 text-slate-400">({set.rules.length})</span>
+                    </button>
+                    <button
+                      onClick={() => setSavedSets(deleteRuleSet(set.name))}
+                      className="ml-1 p-0.5 rounded-full text-slate-400 hover:text-red-600 hover:bg-slate-200"
+                      title="Delete saved set"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {notice && <p className="text-xs text-slate-600">{notice}</p>}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 bg-slate-50 flex justify-between gap-2">
+          <Button variant="ghost" onClick={() => onChange([])} disabled={rules.length === 0}>Remove all</Button>
+          <Button onClick={onClose}>Done</Button>
+        </div>
+      </div>
+    </div>
+  );
+};
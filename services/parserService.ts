@@ -0,0 +1,56 @@
+import { ParseProgress, ParseResult } from "../types";
+import type { ParseWorkerMessage, ParseWorkerRequest } from "../workers/parseWorker";
+
+export interface ParseJob {
+  promise: Promise<ParseResult>;
+  cancel: () => void;
+}
+
+export class ParseCancelledError extends Error {
+  constructor() {
+    super("Parsing was cancelled.");
+    this.name = "ParseCancelledError";
+  }
+}
+
+/**
+ * Parses a file or pasted text in a Web Worker so large inputs never block the UI.
+ * Cancelling terminates the worker and rejects the promise with ParseCancelledError.
+ */
+export const parseInWorker = (
+  request: ParseWorkerRequest,
+  onProgress?: (progress: ParseProgress) => void
+): ParseJob => {
+  const worker = new Worker(new URL("../workers/parseWorker.ts", import.meta.url), { type: "module" });
+  let rejectJob: (reason: Error) => void = () => {};
+
+  const promise = new Promise<ParseResult>((resolve, reject) => {
+    rejectJob = reject;
+
+    worker.onmessage = (e: MessageEvent<ParseWorkerMessage>) => {
+      const message = e.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === "done") resolve(message.result);
+      else reject(new Error(message.message));
+    };
+
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || "The parser stopped unexpectedly."));
+    };
+
+    worker.postMessage(request);
+  });
+
+  const cancel = () => {
+    worker.terminate();
+    rejectJob(new ParseCancelledError());
+  };
+
+  return { promise, cancel };
+};
@@ -1,17 +1,80 @@
+export type CsvValue = string | number | boolean | null;
+
 export interface CsvRow {
-  [key: string]: string | number | null;
+  [key: string]: CsvValue;
+}
+
+export interface CsvDialect {
+  delimiter: string;
+  quote: string; // Empty string disables quote handling
+  hasHeader: boolean;
+}
+
+export interface ColumnMeta {
+  key: string;  // Stable, unique key used in CsvRow
+  name: string; // Original header text, used for display and export
+}
+
+export type ColumnType = 'string' | 'integer' | 'decimal' | 'boolean' | 'date' | 'currency' | 'percent';
+
+export interface ColumnSchema {
+  type: ColumnType;
+  nullable: boolean;
+  // Detected source format: a number pattern such as '0.00', '$0.00' or '0%',
+  // a date pattern such as 'DD/MM/YYYY', or a boolean pair such as 'yes/no'
+  format?: string;
+  inferredType?: ColumnType; // Set when the user overrides the inferred type
+  locale?: string; // Import locale that decides decimal/thousands separators and date order
+  formula?: string; // Set on computed columns that are recalculated whenever the data changes
+}
+
+export type ParseDiagnosticKind = 'field-count' | 'unclosed-quote' | 'header-repeat';
+
+// A row the importer could not read cleanly; it is kept (padded or truncated) until the user decides
+export interface ParseDiagnostic {
+  kind: ParseDiagnosticKind;
+  line: number; // 1-based line in the source file
+  expected: number; // Field count of the header (or first row)
+  actual: number;
+  raw: string; // Source text of the row, possibly shortened
+  rowIndex: number; // Index of the row in ParseResult.data
+  fileName?: string; // Source file, for datasets combined from several files
+}
+
+// One cell edit, kept so it can be undone
+export interface CellChange {
+  rowIndex: number; // Index of the row in ParseResult.data
+  column: string;
+  before: CsvValue;
+  after: CsvValue;
 }
 
 export interface ParseResult {
   data: CsvRow[];
-  columns: string[];
+  columns: string[]; // Column keys, in display order
+  columnMeta: ColumnMeta[]; // Same order as columns
+  schema: Record<string, ColumnSchema>; // Keyed by column key
   meta: {
     rowCount: number;
     fileSize: number;
     fileName: string;
+    dialect?: CsvDialect;
+    encoding?: string;
+    locale?: string;
+    sheetName?: string; // Source sheet for workbook imports
+    sheetRange?: string; // A1-style range that was read from the sheet
+    sourceFiles?: string[]; // Every file combined into this dataset, when more than one was appended
+    warnings?: string[];
+    diagnostics?: ParseDiagnostic[];
   };
 }
 
+export interface ParseProgress {
+  bytesProcessed: number;
+  totalBytes: number;
+  rowsProcessed: number;
+}
+
 export enum AppView {
   UPLOAD = 'UPLOAD',
   DASHBOARD = 'DASHBOARD'
@@ -21,6 +84,7 @@ export enum DashboardTab {
   DATA = 'DATA',
   CHARTS = 'CHARTS',
   INSIGHTS = 'INSIGHTS',
+  PIVOT = 'PIVOT',
   COMPARISON = 'COMPARISON'
 }
 
@@ -0,0 +1,158 @@
+import { ColumnSchema, CsvRow, CsvValue, ParseResult } from '../types';
+import { buildColumnMeta } from './columns';
+import { formatValue, isEmptyValue } from './schema';
+
+export const SOURCE_FILE_COLUMN = 'source_file';
+
+export interface AppendReport {
+  fileName: string;
+  rowCount: number;
+  missingColumns: string[]; // Combined column names the file did not have
+}
+
+interface AlignedColumn {
+  name: string;
+  keys: (string | undefined)[]; // The column's key in each file, if the file has it
+}
+
+// Header drift such as "Amount " vs "amount" should still line up
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Lines up the columns of several files by name, in first-seen order.
+ * Repeated names are matched by occurrence, so the second "total" of one
+ * file lines up with the second "total" of another.
+ */
+const alignColumns = (results: ParseResult[]): AlignedColumn[] => {
+  const aligned: AlignedColumn[] = [];
+  const byId = new Map<string, AlignedColumn>();
+
+  results.forEach((result, fileIdx) => {
+    const occurrences = new Map<string, number>();
+    result.columnMeta.forEach(({ key, name }) => {
+      const normalized = normalizeName(name);
+      const occurrence = (occurrences.get(normalized) || 0) + 1;
+      occurrences.set(normalized, occurrence);
+
+      const id = `${normalized}\u0000${occurrence}`;
+      let column = byId.get(id);
+      if (!column) {
+        column = { name, keys: new Array(results.length).fill(undefined) };
+        byId.set(id, column);
+        aligned.push(column);
+      }
+      column.keys[fileIdx] = key;
+    });
+  });
+
+  return aligned;
+};
+
+export const getAppendReport = (results: ParseResult[]): AppendReport[] => {
+  const aligned = alignColumns(results);
+  return results.map((result, fileIdx) => ({
+    fileName: result.meta.fileName,
+    rowCount: result.meta.rowCount,
+    missingColumns: aligned.filter(col => col.keys[fileIdx] === undefined).map(col => col.name)
+  }));
+};
+
+const hasValues = (result: ParseResult, key: string) => result.data.some(row => !isEmptyValue(row[key]));
+
+/**
+ * Picks one schema for a column from the schemas it had in each file.
+ * Integers and decimals widen to decimal; any other disagreement falls
+ * back to text. Files where the column is empty have no say.
+ */
+const mergeSchemas = (schemas: ColumnSchema[], nullable: boolean): ColumnSchema => {
+  const [first] = schemas;
+  if (!first) return { type: 'string', nullable: true };
+  if (schemas.every(s => s.type === first.type)) {
+    return { type: first.type, nullable, format: first.format, locale: first.locale };
+  }
+  if (schemas.every(s => s.type === 'integer' || s.type === 'decimal')) {
+    return { type: 'decimal', nullable, format: schemas.find(s => s.type === 'decimal')?.format, locale: first.locale };
+  }
+  return { type: 'string', nullable, locale: first.locale };
+};
+
+/**
+ * Combines several parsed files into one dataset. Columns are the union of
+ * every file's columns, with nulls where a file lacks one. With
+ * `addSourceColumn`, a leading column records which file each row came from.
+ */
+export const appendResults = (results: ParseResult[], addSourceColumn: boolean): ParseResult => {
+  const aligned = alignColumns(results);
+  const names = aligned.map(col => col.name);
+  const { columns: columnMeta, warnings: headerWarnings } = buildColumnMeta(
+    addSourceColumn ? [SOURCE_FILE_COLUMN, ...names] : names
+  );
+  const sourceKey = addSourceColumn ? columnMeta[0].key : null;
+  const alignedMeta = addSourceColumn ? columnMeta.slice(1) : columnMeta;
+
+  const schema: Record<string, ColumnSchema> = {};
+  if (sourceKey) schema[sourceKey] = { type: 'string', nullable: false };
+  aligned.forEach((col, i) => {
+    const present = results
+      .map((result, fileIdx) => ({ result, key: col.keys[fileIdx] }))
+      .filter((part): part is { result: ParseResult; key: string } => part.key !== undefined);
+    const nullable = present.length < results.length || present.some(({ result, key }) => result.schema[key]?.nullable);
+    const typed = present.filter(({ result, key }) => hasValues(result, key)).map(({ result, key }) => result.schema[key]);
+    schema[alignedMeta[i].key] = mergeSchemas(typed, nullable);
+  });
+
+  const data: CsvRow[] = [];
+  results.forEach((result, fileIdx) => {
+    result.data.forEach(sourceRow => {
+      const row: CsvRow = {};
+      if (sourceKey) row[sourceKey] = result.meta.fileName;
+      aligned.forEach((col, i) => {
+        const key = col.keys[fileIdx];
+        const target = alignedMeta[i].key;
+        let value: CsvValue = key === undefined ? null : sourceRow[key] ?? null;
+        // Columns that fell back to text keep each file's own rendering of the value
+        if (key !== undefined && value !== null && schema[target].type === 'string' && result.schema[key]?.type !== 'string') {
+          value = formatValue(value, result.schema[key]);
+        }
+        row[target] = value;
+      });
+      data.push(row);
+    });
+  });
+
+  const report = getAppendReport(results);
+  const warnings = [
+    ...headerWarnings,
+    ...results.flatMap(result => (result.meta.warnings || []).map(w => `${result.meta.fileName}: ${w}`)),
+    ...report
+      .filter(file => file.missingColumns.length > 0)
+      .map(file => `${file.fileName} has no ${file.missingColumns.map(name => `"${name}"`).join(', ')} column(s); left empty.`)
+  ];
+
+  // Diagnostics point at rows of their own file, so move them to the combined position
+  let offset = 0;
+  const diagnostics = results.flatMap(result => {
+    const shifted = (result.meta.diagnostics || []).map(d => ({ ...d, rowIndex: d.rowIndex + offset, fileName: result.meta.fileName }));
+    offset += result.data.length;
+    return shifted;
+  });
+
+  const [first] = results;
+  return {
+    data,
+    columns: columnMeta.map(col => col.key),
+    columnMeta,
+    schema,
+    meta: {
+      rowCount: data.length,
+      fileSize: results.reduce((sum, result) => sum + result.meta.fileSize, 0),
+      fileName: first.meta.fileName,
+      dialect: first.meta.dialect,
+      encoding: first.meta.encoding,
+      locale: first.meta.locale,
+      sourceFiles: results.map(result => result.meta.fileName),
+      warnings,
+      diagnostics: diagnostics.length > 0 ? diagnostics : undefined
+    }
+  };
+};
@@ -0,0 +1,26 @@
+import { parseDelimited } from './csv';
+
+const TSV_DIALECT = { delimiter: '\t', quote: '"', hasHeader: false };
+
+// Spreadsheets quote cells that contain tabs, line breaks or quotes
+const quoteTsvCell = (text: string) => (/[\t\r\n"]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text);
+
+export const toTsv = (rows: string[][]) => rows.map(row => row.map(quoteTsvCell).join('\t')).join('\n');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * An HTML table of the cells, which Excel and Google Sheets paste as a range.
+ */
+export const toHtmlTable = (rows: string[][]) =>
+  `<table>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</table>`;
+
+/**
+ * Reads a block of tab-separated cells as copied from a spreadsheet. Blank
+ * lines are empty cells, so they are kept as rows to keep the cells below in
+ * place.
+ */
+export const parseTsv = (text: string): string[][] =>
+  // Spreadsheets end the block with a line break; the tokenizer makes no row after it
+  parseDelimited(text, TSV_DIALECT, Infinity, true);
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { buildColumnMeta, uniqueColumnKey } from './columns';
+
+describe('buildColumnMeta', () => {
+  it('keeps the header text as the name and makes every key unique', () => {
+    const { columns, warnings } = buildColumnMeta(['id', '', 'id', ' id ']);
+    expect(columns).toEqual([
+      { key: 'id', name: 'id' },
+      { key: 'column_2', name: '' },
+      { key: 'id_2', name: 'id' },
+      { key: 'id_3', name: ' id ' }
+    ]);
+    expect(warnings).toEqual([
+      'Blank header in column 2 renamed to column_<n>.',
+      'Header "id" appears 3 times; later copies were renamed id_2, id_3.'
+    ]);
+  });
+
+  it('skips keys already taken by another header', () => {
+    const { columns, warnings } = buildColumnMeta(['a', 'a_2', 'a']);
+    expect(columns.map(c => c.key)).toEqual(['a', 'a_2', 'a_3']);
+    expect(warnings).toEqual(['Header "a" appears 2 times; later copies were renamed a_3.']);
+  });
+
+  it('shortens long lists of renamed copies', () => {
+    const { warnings } = buildColumnMeta(['x', 'x', 'x', 'x', 'x']);
+    expect(warnings).toEqual(['Header "x" appears 5 times; later copies were renamed x_2, x_3, …, x_5.']);
+  });
+});
+
+describe('uniqueColumnKey', () => {
+  it('adds a suffix only when the name is taken', () => {
+    expect(uniqueColumnKey('total', ['a'])).toBe('total');
+    expect(uniqueColumnKey('a', ['a', 'a_2'])).toBe('a_3');
+    expect(uniqueColumnKey(' ', ['a'])).toBe('column_2');
+  });
+});
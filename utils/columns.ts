@@ -0,0 +1,60 @@
+import { ColumnMeta } from '../types';
+
+/**
+ * Derives a unique key for every header while keeping the original text as
+ * the column name. Blank headers become `column_<n>` and repeated headers get
+ * a numeric suffix (`amount`, `amount_2`, ...), so the result only depends on
+ * the header order.
+ */
+export const buildColumnMeta = (header: string[]): { columns: ColumnMeta[]; warnings: string[] } => {
+  const used = new Set<string>();
+  const blank: number[] = [];
+  const renamed = new Map<string, string[]>(); // Base name -> keys given to its later copies
+
+  const columns = header.map((name, i) => {
+    let base = name.trim();
+    if (!base) {
+      base = `column_${i + 1}`;
+      blank.push(i + 1);
+    }
+
+    let key = base;
+    let suffix = 2;
+    while (used.has(key)) {
+      key = `${base}_${suffix++}`;
+    }
+    if (key !== base) renamed.set(base, [...(renamed.get(base) || []), key]);
+
+    used.add(key);
+    return { key, name };
+  });
+
+  const warnings: string[] = [];
+  if (blank.length > 0) {
+    warnings.push(`Blank header${blank.length > 1 ? 's' : ''} in column${blank.length > 1 ? 's' : ''} ${blank.join(', ')} renamed to column_<n>.`);
+  }
+  renamed.forEach((keys, base) => {
+    const list = keys.length > 3 ? `${keys.slice(0, 2).join(', ')}, …, ${keys[keys.length - 1]}` : keys.join(', ');
+    warnings.push(`Header "${base}" appears ${keys.length + 1} times; later copies were renamed ${list}.`);
+  });
+
+  return { columns, warnings };
+};
+
+export const getColumnName = (columnMeta: ColumnMeta[] | undefined, key: string) =>
+  columnMeta?.find(c => c.key === key)?.name || key;
+
+/**
+ * A key for a new column that does not clash with `existing`, following the
+ * same `name`, `name_2`, ... scheme as imported headers.
+ */
+export const uniqueColumnKey = (name: string, existing: string[]) => {
+  const used = new Set(existing);
+  const base = name.trim() || `column_${existing.length + 1}`;
+  let key = base;
+  let suffix = 2;
+  while (used.has(key)) {
+    key = `${base}_${suffix++}`;
+  }
+  return key;
+};
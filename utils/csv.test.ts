@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { createDelimitedParser, createRecordBuilder, detectDialect, parseDelimited } from './csv';
+
+const COMMA = { delimiter: ',', quote: '"', hasHeader: true };
+
+describe('parseDelimited', () => {
+  it('splits rows and fields', () => {
+    expect(parseDelimited('a,b\n1,2\n', COMMA)).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('reads quoted fields with delimiters, line breaks and doubled quotes', () => {
+    expect(parseDelimited('"a,b","line\nbreak","say ""hi"""\n', COMMA)).toEqual([['a,b', 'line\nbreak', 'say "hi"']]);
+  });
+
+  it('accepts LF, CRLF and CR line endings', () => {
+    expect(parseDelimited('a\r\nb\rc\nd', COMMA)).toEqual([['a'], ['b'], ['c'], ['d']]);
+  });
+
+  it('skips blank lines unless asked to keep them', () => {
+    expect(parseDelimited('a\n\nb\n', COMMA)).toEqual([['a'], ['b']]);
+    expect(parseDelimited('a\n\nb\n', COMMA, Infinity, true)).toEqual([['a'], [''], ['b']]);
+  });
+
+  it('drops a leading byte order mark', () => {
+    expect(parseDelimited('﻿a,b', COMMA)).toEqual([['a', 'b']]);
+  });
+
+  it('stops at maxRows', () => {
+    expect(parseDelimited('1\n2\n3\n', COMMA, 2)).toEqual([['1'], ['2']]);
+  });
+});
+
+describe('createDelimitedParser', () => {
+  it('gives the same rows however the text is chunked', () => {
+    const text = 'id,note\r\n1,"multi\r\nline"\r\n2,"quote "" here"\r\n';
+    const whole = parseDelimited(text, COMMA);
+    for (let size = 1; size <= 5; size++) {
+      const parser = createDelimitedParser(COMMA);
+      const rows: string[][] = [];
+      for (let i = 0; i < text.length; i += size) {
+        rows.push(...parser.push(text.slice(i, i + size)).map(record => record.fields));
+      }
+      rows.push(...parser.flush().map(record => record.fields));
+      expect(rows).toEqual(whole);
+    }
+  });
+
+  it('reports the line each row starts on and its raw text', () => {
+    const parser = createDelimitedParser(COMMA);
+    const records = [...parser.push('a,b\n"x\ny",z\nlast,row'), ...parser.flush()];
+    expect(records.map(r => r.line)).toEqual([1, 2, 4]);
+    expect(records[1].raw).toBe('"x\ny",z');
+  });
+
+  it('flags a quote left open at the end of the input', () => {
+    const parser = createDelimitedParser(COMMA);
+    const records = [...parser.push('a,"open\nstill open'), ...parser.flush()];
+    expect(records).toHaveLength(1);
+    expect(records[0].unclosedQuote).toBe(true);
+  });
+});
+
+describe('detectDialect', () => {
+  it('finds the delimiter used consistently', () => {
+    expect(detectDialect('name;amount\nAda;1,5\nBob;2,25\n').delimiter).toBe(';');
+    expect(detectDialect('a\tb\tc\n1\t2\t3\n').delimiter).toBe('\t');
+    expect(detectDialect('a|b\n1|2\n').delimiter).toBe('|');
+  });
+
+  it('prefers single quotes when they wrap more fields', () => {
+    expect(detectDialect("'a','b'\n'1','2'\n").quote).toBe("'");
+  });
+
+  it('guesses whether the first row is a header', () => {
+    expect(detectDialect('name,age\nAda,36\nBob,41\n').hasHeader).toBe(true);
+    expect(detectDialect('1,2\n3,4\n5,6\n').hasHeader).toBe(false);
+  });
+});
+
+describe('createRecordBuilder', () => {
+  const build = (text: string) => {
+    const builder = createRecordBuilder(true);
+    const parser = createDelimitedParser(COMMA);
+    [...parser.push(text), ...parser.flush()].forEach(record => builder.add(record.fields, record));
+    return builder.finish({ fileName: 'test.csv', fileSize: text.length });
+  };
+
+  it('keys rows by header and converts values to the inferred types', () => {
+    const result = build('id,name\n1,Ada\n2,Bob\n');
+    expect(result.columns).toEqual(['id', 'name']);
+    expect(result.data).toEqual([{ id: 1, name: 'Ada' }, { id: 2, name: 'Bob' }]);
+    expect(result.schema.id.type).toBe('integer');
+  });
+
+  it('reports rows with the wrong field count and repeated headers', () => {
+    const result = build('a,b\n1,2\n3\na,b\n');
+    expect(result.meta.diagnostics?.map(d => [d.kind, d.line, d.rowIndex])).toEqual([
+      ['field-count', 3, 1],
+      ['header-repeat', 4, 2]
+    ]);
+  });
+
+  it('fails when there are no data rows', () => {
+    expect(() => build('a,b\n')).toThrow('No data rows');
+  });
+});
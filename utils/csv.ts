@@ -0,0 +1,342 @@
+import { ColumnMeta, CsvDialect, CsvRow, CsvValue, ParseDiagnostic, ParseDiagnosticKind, ParseResult } from '../types';
+import { buildColumnMeta } from './columns';
+import { applySchema } from './schema';
+
+export const DELIMITER_OPTIONS: { value: string; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' }
+];
+
+export const QUOTE_OPTIONS: { value: string; label: string }[] = [
+  { value: '"', label: 'Double quote (")' },
+  { value: "'", label: "Single quote (')" },
+  { value: '', label: 'None' }
+];
+
+export const DEFAULT_DIALECT: CsvDialect = { delimiter: ',', quote: '"', hasHeader: true };
+
+// Only the first few KB are inspected when sniffing the dialect
+const SNIFF_SAMPLE_SIZE = 16 * 1024;
+const SNIFF_MAX_ROWS = 50;
+
+export interface DelimitedRecord {
+  fields: string[];
+  line: number; // 1-based line of the source the row starts on
+  raw: string; // Source text of the row, without its line break
+  unclosedQuote?: boolean; // The input ended inside a quoted field
+}
+
+export interface DelimitedParser {
+  push: (chunk: string) => DelimitedRecord[]; // Returns the rows completed by this chunk
+  flush: () => DelimitedRecord[]; // Returns the trailing row, if any
+}
+
+/**
+ * Incremental tokenizer for delimited text that can be fed arbitrary chunks.
+ * Handles quoted fields (with doubled quotes as escapes), embedded newlines
+ * and LF / CRLF / CR line endings, even when they straddle chunk boundaries.
+ * Blank lines are skipped unless `keepBlankLines` is set, in which case they
+ * come out as a row with one empty field. Each row carries its line number
+ * and raw text so malformed rows can be reported.
+ */
+export const createDelimitedParser = (dialect: CsvDialect, keepBlankLines = false): DelimitedParser => {
+  const { delimiter, quote } = dialect;
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let quotePending = false; // Saw a quote inside a quoted field; the next char decides
+  let skipLineFeed = false; // Last char was CR, so a following LF belongs to it
+  let atStart = true;
+  let line = 1;
+  let rowLine = 1;
+  let lastWasCR = false;
+  let rawCarry = ''; // Text of the current row from earlier chunks
+
+  const endRow = (records: DelimitedRecord[], raw: string, unclosedQuote = false) => {
+    row.push(field);
+    field = '';
+    // A line with a single empty field is a blank line
+    if (keepBlankLines || row.length > 1 || row[0] !== '') {
+      records.push(unclosedQuote ? { fields: row, line: rowLine, raw, unclosedQuote } : { fields: row, line: rowLine, raw });
+    }
+    row = [];
+  };
+
+  const push = (chunk: string) => {
+    const records: DelimitedRecord[] = [];
+    let i = 0;
+    if (atStart) {
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1;
+      if (chunk.length > 0) atStart = false;
+    }
+    let rowStart = i;
+
+    for (; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      // Physical lines, including those inside quoted fields
+      if (ch === '\r' || (ch === '\n' && !lastWasCR)) line++;
+      lastWasCR = ch === '\r';
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (ch === '\n') {
+          rowStart = i + 1;
+          continue;
+        }
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (ch === quote) {
+          field += quote;
+          continue;
+        }
+        inQuotes = false;
+      } else if (inQuotes) {
+        if (ch === quote) quotePending = true;
+        else field += ch;
+        continue;
+      }
+
+      if (quote && ch === quote && field === '') {
+        inQuotes = true;
+      } else if (ch === delimiter) {
+        row.push(field);
+        field = '';
+      } else if (ch === '\n' || ch === '\r') {
+        skipLineFeed = ch === '\r';
+        endRow(records, rawCarry + chunk.slice(rowStart, i));
+        rawCarry = '';
+        rowStart = i + 1;
+        rowLine = line;
+      } else {
+        field += ch;
+      }
+    }
+    rawCarry += chunk.slice(rowStart);
+    return records;
+  };
+
+  const flush = () => {
+    const records: DelimitedRecord[] = [];
+    if (field !== '' || row.length > 0 || inQuotes) endRow(records, rawCarry, inQuotes && !quotePending);
+    inQuotes = false;
+    quotePending = false;
+    rawCarry = '';
+    return records;
+  };
+
+  return { push, flush };
+};
+
+/**
+ * Splits delimited text into rows of raw string fields in one go.
+ */
+export const parseDelimited = (text: string, dialect: CsvDialect, maxRows = Infinity, keepBlankLines = false): string[][] => {
+  const parser = createDelimitedParser(dialect, keepBlankLines);
+  const rows = [...parser.push(text), ...parser.flush()].map(record => record.fields);
+  return rows.length > maxRows ? rows.slice(0, maxRows) : rows;
+};
+
+const isNumeric = (val: string) => val.trim() !== '' && !isNaN(Number(val));
+
+const pickQuote = (sample: string): string => {
+  const doubleQuoted = sample.match(/(^|[,;\t|])"[^"]*"(?=[,;\t|]|$)/gm)?.length || 0;
+  const singleQuoted = sample.match(/(^|[,;\t|])'[^']*'(?=[,;\t|]|$)/gm)?.length || 0;
+  return singleQuoted > doubleQuoted ? "'" : '"';
+};
+
+const scoreDelimiter = (rows: string[][]): number => {
+  if (rows.length === 0) return 0;
+  const counts = new Map<number, number>();
+  rows.forEach(r => counts.set(r.length, (counts.get(r.length) || 0) + 1));
+
+  let modeFields = 0;
+  let modeRows = 0;
+  counts.forEach((rowCount, fields) => {
+    if (rowCount > modeRows || (rowCount === modeRows && fields > modeFields)) {
+      modeFields = fields;
+      modeRows = rowCount;
+    }
+  });
+
+  if (modeFields < 2) return 0;
+  // Consistency matters most; the field count breaks ties between equally consistent candidates
+  return (modeRows / rows.length) * 100 + Math.min(modeFields, 50) / 100;
+};
+
+const guessHasHeader = (rows: string[][]): boolean => {
+  if (rows.length < 2) return true;
+  const [first, ...body] = rows;
+
+  if (first.some(cell => cell.trim() === '')) return false;
+  if (new Set(first.map(cell => cell.trim())).size !== first.length) return false;
+
+  let votes = 0;
+  first.forEach((cell, colIdx) => {
+    const values = body.map(r => r[colIdx]).filter(v => v !== undefined && v.trim() !== '');
+    if (values.length === 0 || !values.every(isNumeric)) return;
+    votes += isNumeric(cell) ? -1 : 1;
+  });
+
+  // Purely textual files give no signal either way; assume the common case
+  return votes >= 0;
+};
+
+/**
+ * Guesses the delimiter, quote character and header presence from the
+ * beginning of the text.
+ */
+export const detectDialect = (text: string): CsvDialect => {
+  let sample = text.slice(0, SNIFF_SAMPLE_SIZE);
+  if (text.length > SNIFF_SAMPLE_SIZE) {
+    // Drop the last, probably truncated, line
+    const lastBreak = Math.max(sample.lastIndexOf('\n'), sample.lastIndexOf('\r'));
+    if (lastBreak > 0) sample = sample.slice(0, lastBreak);
+  }
+
+  const quote = pickQuote(sample);
+
+  let best = DEFAULT_DIALECT.delimiter;
+  let bestScore = 0;
+  DELIMITER_OPTIONS.forEach(({ value }) => {
+    const score = scoreDelimiter(parseDelimited(sample, { delimiter: value, quote, hasHeader: true }, SNIFF_MAX_ROWS));
+    if (score > bestScore) {
+      best = value;
+      bestScore = score;
+    }
+  });
+
+  const rows = parseDelimited(sample, { delimiter: best, quote, hasHeader: true }, SNIFF_MAX_ROWS);
+  return { delimiter: best, quote, hasHeader: guessHasHeader(rows) };
+};
+
+export const describeDelimiter = (delimiter: string) =>
+  DELIMITER_OPTIONS.find(opt => opt.value === delimiter)?.label || `"${delimiter}"`;
+
+export interface RecordBuilder {
+  // Pass the parser's record to have malformed rows reported in `meta.diagnostics`
+  add: (fields: CsvValue[], source?: DelimitedRecord) => void;
+  rowCount: () => number;
+  finish: (meta: Omit<ParseResult['meta'], 'rowCount' | 'warnings' | 'diagnostics'>) => ParseResult;
+}
+
+const MAX_DIAGNOSTICS = 1000;
+const MAX_RAW_LENGTH = 500;
+
+const sameFields = (a: CsvValue[], b: string[]) =>
+  a.length === b.length && a.every((val, i) => String(val ?? '').trim() === b[i].trim());
+
+/**
+ * Turns raw rows into CsvRow records one at a time, so streaming parsers
+ * never have to hold the whole file as arrays of strings. Values stay as
+ * given until `finish`, which infers the column schema with the import
+ * locale and converts them.
+ */
+export const createRecordBuilder = (hasHeader: boolean): RecordBuilder => {
+  const data: CsvRow[] = [];
+  let columnMeta: ColumnMeta[] | null = null;
+  let warnings: string[] = [];
+  let width = 0;
+  let headerFields: string[] | null = null;
+  let expected: number | null = null; // Field count of the header, or of the first row without one
+  const diagnostics: ParseDiagnostic[] = [];
+  let diagnosticCount = 0;
+
+  const check = (fields: CsvValue[], source: DelimitedRecord) => {
+    const kind: ParseDiagnosticKind | null = source.unclosedQuote ? 'unclosed-quote'
+      : headerFields && sameFields(fields, headerFields) ? 'header-repeat'
+      : fields.length !== expected ? 'field-count'
+      : null;
+    if (!kind) return;
+
+    diagnosticCount++;
+    if (diagnostics.length < MAX_DIAGNOSTICS) {
+      diagnostics.push({
+        kind,
+        line: source.line,
+        expected: expected ?? fields.length,
+        actual: fields.length,
+        raw: source.raw.length > MAX_RAW_LENGTH ? `${source.raw.slice(0, MAX_RAW_LENGTH)}…` : source.raw,
+        rowIndex: data.length
+      });
+    }
+  };
+
+  const add = (fields: CsvValue[], source?: DelimitedRecord) => {
+    if (hasHeader && !columnMeta) {
+      headerFields = fields.map(field => (field === null ? '' : String(field)));
+      expected = fields.length;
+      ({ columns: columnMeta, warnings } = buildColumnMeta(headerFields));
+      return;
+    }
+
+    if (expected === null) expected = fields.length;
+    if (source) check(fields, source);
+
+    const row: CsvRow = {};
+    if (columnMeta) {
+      columnMeta.forEach((col, i) => {
+        row[col.key] = fields[i] ?? '';
+      });
+    } else {
+      // Without a header the column count is only known at the end
+      fields.forEach((val, i) => {
+        row[`column_${i + 1}`] = val;
+      });
+      width = Math.max(width, fields.length);
+    }
+    data.push(row);
+  };
+
+  const finish = (meta: Omit<ParseResult['meta'], 'rowCount' | 'warnings' | 'diagnostics'>): ParseResult => {
+    if (data.length === 0) {
+      throw new Error("No data rows found in the provided file.");
+    }
+
+    if (!columnMeta) {
+      columnMeta = Array.from({ length: width }, (_, i) => ({ key: `column_${i + 1}`, name: `column_${i + 1}` }));
+      columnMeta.forEach(({ key }) => {
+        data.forEach(row => {
+          if (row[key] === undefined) row[key] = '';
+        });
+      });
+    }
+
+    const columns = columnMeta.map(col => col.key);
+    const schema = applySchema(data, columns, meta.locale);
+
+    return {
+      data,
+      columns,
+      columnMeta,
+      schema,
+      meta: {
+        ...meta,
+        rowCount: data.length,
+        warnings: diagnosticCount > diagnostics.length
+          ? [...warnings, `${diagnosticCount.toLocaleString()} malformed rows found; only the first ${MAX_DIAGNOSTICS.toLocaleString()} are listed.`]
+          : warnings,
+        diagnostics: diagnostics.length > 0 ? diagnostics : undefined
+      }
+    };
+  };
+
+  return { add, rowCount: () => data.length, finish };
+};
+
+/**
+ * Converts raw rows into the ParseResult handed to the rest of the app.
+ */
+export const buildParseResult = (
+  rows: CsvValue[][],
+  hasHeader: boolean,
+  meta: Omit<ParseResult['meta'], 'rowCount' | 'warnings' | 'diagnostics'>
+): ParseResult => {
+  const builder = createRecordBuilder(hasHeader);
+  rows.forEach(row => builder.add(row));
+  return builder.finish(meta);
+};
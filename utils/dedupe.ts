@@ -0,0 +1,71 @@
+import { ColumnSchema, CsvRow, CsvValue } from '../types';
+import { formatValue, isEmptyValue } from './schema';
+
+export interface DedupeOptions {
+  columns: string[]; // Key columns; rows match when all of them do
+  trim: boolean;
+  ignoreCase: boolean;
+}
+
+export type KeepStrategy = 'first' | 'last' | 'most-complete';
+
+export const KEEP_STRATEGIES: { value: KeepStrategy; label: string; description: string }[] = [
+  { value: 'first', label: 'First', description: 'Keep the row that comes first in the file' },
+  { value: 'last', label: 'Last', description: 'Keep the row that comes last in the file' },
+  { value: 'most-complete', label: 'Most complete', description: 'Keep the row with the fewest empty cells' }
+];
+
+const SEP = '\u0000';
+
+/**
+ * Groups rows whose key columns hold the same displayed text, after the
+ * optional normalization. Only groups of two or more rows are returned,
+ * each in row order, ordered by their first row.
+ */
+export const findDuplicateGroups = (
+  data: CsvRow[],
+  rowIndices: number[],
+  schema: Record<string, ColumnSchema>,
+  options: DedupeOptions
+): number[][] => {
+  const { columns, trim, ignoreCase } = options;
+  if (columns.length === 0) return [];
+  const normalize = (text: string) => {
+    const trimmed = trim ? text.trim() : text;
+    return ignoreCase ? trimmed.toLowerCase() : trimmed;
+  };
+
+  const groups = new Map<string, number[]>();
+  [...rowIndices].sort((a, b) => a - b).forEach(idx => {
+    const key = columns.map(col => normalize(formatValue(data[idx][col], schema[col]))).join(SEP);
+    const group = groups.get(key);
+    if (group) group.push(idx);
+    else groups.set(key, [idx]);
+  });
+  return [...groups.values()].filter(group => group.length > 1).sort((a, b) => a[0] - b[0]);
+};
+
+/**
+ * The row to keep from a group of duplicates. Ties on completeness go to the
+ * earlier row.
+ */
+export const pickKeeper = (data: CsvRow[], group: number[], columns: string[], strategy: KeepStrategy): number => {
+  if (strategy === 'first') return group[0];
+  if (strategy === 'last') return group[group.length - 1];
+  const filled = (idx: number) => columns.filter(col => !isEmptyValue(data[idx][col])).length;
+  return group.reduce((best, idx) => (filled(idx) > filled(best) ? idx : best), group[0]);
+};
+
+/**
+ * Marks every row of every group in a new column: the kept row as "Original"
+ * and the others with the row they duplicate. Rows without duplicates stay empty.
+ */
+export const flagDuplicates = (rowCount: number, groups: number[][], keepers: number[]): CsvValue[] => {
+  const values: CsvValue[] = Array.from({ length: rowCount }, () => '');
+  groups.forEach((group, g) => {
+    group.forEach(idx => {
+      values[idx] = idx === keepers[g] ? 'Original' : `Duplicate of row ${keepers[g] + 1}`;
+    });
+  });
+  return values;
+};
@@ -0,0 +1,75 @@
+export const ENCODING_OPTIONS: { value: string; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252 / Latin-1' },
+  { value: 'iso-8859-15', label: 'ISO-8859-15 (Latin-9)' },
+  { value: 'windows-1250', label: 'Windows-1250 (Central European)' },
+  { value: 'macintosh', label: 'Mac Roman' }
+];
+
+export const DEFAULT_ENCODING = 'utf-8';
+
+export interface DetectedEncoding {
+  encoding: string;
+  hasBom: boolean;
+}
+
+export const describeEncoding = (encoding: string) =>
+  ENCODING_OPTIONS.find(opt => opt.value === encoding)?.label || encoding;
+
+const detectBom = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+};
+
+// Mostly-ASCII text in UTF-16 has a zero in every other byte
+const detectUtf16 = (bytes: Uint8Array): string | null => {
+  const length = Math.min(bytes.length, 4096) & ~1;
+  if (length === 0) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+
+  const pairs = length / 2;
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+};
+
+const isValidUtf8 = (bytes: Uint8Array) => {
+  try {
+    // Streaming mode tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Guesses the encoding of the first bytes of a file: a byte order mark wins,
+ * then UTF-16 without BOM, then strict UTF-8. Anything else is assumed to be
+ * Windows-1252, which is what spreadsheet tools on Windows usually write.
+ */
+export const detectEncoding = (bytes: Uint8Array): DetectedEncoding => {
+  const bom = detectBom(bytes);
+  if (bom) return { encoding: bom, hasBom: true };
+
+  const utf16 = detectUtf16(bytes);
+  if (utf16) return { encoding: utf16, hasBom: false };
+
+  return { encoding: isValidUtf8(bytes) ? 'utf-8' : 'windows-1252', hasBom: false };
+};
+
+/**
+ * Decodes a sample of a file. The BOM, if present, is stripped.
+ */
+export const decodeSample = (bytes: Uint8Array, encoding: string) =>
+  new TextDecoder(encoding).decode(bytes, { stream: true });
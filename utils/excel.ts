@@ -0,0 +1,90 @@
+import * as XLSX from 'xlsx';
+import { CsvValue } from '../types';
+
+export const SPREADSHEET_EXTENSIONS = ['.xlsx', '.xlsm', '.xls', '.ods'];
+
+export interface SheetInfo {
+  name: string;
+  range: string; // Used range of the sheet, e.g. "A1:F120"
+  rowCount: number;
+  columnCount: number;
+}
+
+export const readWorkbook = (buffer: ArrayBuffer): XLSX.WorkBook =>
+  XLSX.read(buffer, { type: 'array', cellDates: true });
+
+export const listSheets = (workbook: XLSX.WorkBook): SheetInfo[] =>
+  workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]?.['!ref'];
+    if (!ref) return { name, range: '', rowCount: 0, columnCount: 0 };
+
+    const range = XLSX.utils.decode_range(ref);
+    return {
+      name,
+      range: ref,
+      rowCount: range.e.r - range.s.r + 1,
+      columnCount: range.e.c - range.s.c + 1
+    };
+  });
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Dates come back as local-time Date objects; keep them readable and sortable
+const formatDate = (date: Date) => {
+  const day = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  if (date.getHours() === 0 && date.getMinutes() === 0 && date.getSeconds() === 0) return day;
+  return `${day} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+/**
+ * Resolves the cell range to read from a sheet. An explicit A1 range wins;
+ * otherwise the sheet's used range is read starting at `headerRow` (1-based).
+ * Throws when the range text cannot be parsed.
+ */
+export const resolveSheetRange = (sheet: SheetInfo, headerRow: number, rangeText: string): string => {
+  if (rangeText.trim()) {
+    const cleaned = rangeText.trim().toUpperCase();
+    if (!/^[A-Z]+\d+(:[A-Z]+\d+)?$/.test(cleaned)) {
+      throw new Error(`"${rangeText}" is not a valid cell range (e.g. A1:F100).`);
+    }
+    return cleaned;
+  }
+
+  const range = XLSX.utils.decode_range(sheet.range);
+  range.s.r = Math.min(Math.max(range.s.r, headerRow - 1), range.e.r);
+  return XLSX.utils.encode_range(range);
+};
+
+/**
+ * Reads a cell range of a sheet as rows, the same shape the CSV parser
+ * produces. Numbers and booleans keep their cell type, so they are never
+ * re-read with the import locale; dates become ISO text. Pass `maxRows` to
+ * only read the top of the range.
+ */
+export const sheetToRows = (
+  workbook: XLSX.WorkBook,
+  sheetName: string,
+  range: string,
+  maxRows = Infinity
+): CsvValue[][] => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet || !range) return [];
+
+  const bounds = XLSX.utils.decode_range(range);
+  if (isFinite(maxRows)) bounds.e.r = Math.min(bounds.e.r, bounds.s.r + maxRows - 1);
+
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, {
+    header: 1,
+    range: bounds,
+    raw: true,
+    defval: '',
+    blankrows: false
+  });
+
+  return rows.map(row => row.map(val => {
+    if (val === null || val === undefined) return '';
+    if (val instanceof Date) return formatDate(val);
+    if (typeof val === 'number' || typeof val === 'boolean') return val;
+    return String(val);
+  }));
+};
@@ -0,0 +1,222 @@
+import * as d3 from 'd3';
+import * as XLSX from 'xlsx';
+import { ColumnMeta, ColumnSchema, CsvRow } from '../types';
+import { COLOR_SCALES, FormatRule, HIGHLIGHT_COLORS, ICON_THRESHOLDS, validateFormatRule } from './formatting';
+import { formatValue, isNumericType, parseNumericBound } from './schema';
+
+/**
+ * Lays rows out as an array of arrays with the original header names on top.
+ * Going through arrays (rather than objects keyed by name) keeps repeated
+ * header names intact in the output.
+ */
+export const toExportRows = (data: CsvRow[], columns: ColumnMeta[]) => [
+  columns.map(col => col.name),
+  ...data.map(row => columns.map(col => row[col.key] ?? null))
+];
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.setAttribute('href', url);
+  link.setAttribute('download', fileName);
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export interface CsvExportOptions {
+  // Writes typed values the way they were imported, with the column's locale and format
+  schema?: Record<string, ColumnSchema>;
+  delimiter?: string;
+}
+
+export const downloadCsv = (data: CsvRow[], columns: ColumnMeta[], fileName: string, options: CsvExportOptions = {}) => {
+  const { schema, delimiter = ',' } = options;
+  const rows = schema
+    ? [columns.map(col => col.name), ...data.map(row => columns.map(col => formatValue(row[col.key], schema[col.key])))]
+    : toExportRows(data, columns);
+  const csv = d3.dsvFormat(delimiter).formatRows(rows);
+  downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), fileName);
+};
+
+const EXCEL_DATE_FORMATS: Record<string, string> = {
+  'YYYY-MM-DD': 'yyyy-mm-dd',
+  'DD.MM.YYYY': 'dd.mm.yyyy',
+  'MM/DD/YYYY': 'mm/dd/yyyy',
+  'DD/MM/YYYY': 'dd/mm/yyyy'
+};
+
+/**
+ * Maps a column's detected format onto an Excel number format. Excel applies
+ * the reader's own separators, so only the shape of the pattern matters.
+ */
+const toExcelFormat = (schema: ColumnSchema): string | undefined => {
+  const format = schema.format;
+  if (schema.type === 'date') return EXCEL_DATE_FORMATS[format || 'YYYY-MM-DD'];
+  if (!isNumericType(schema.type) || !format) return undefined;
+  if (schema.type === 'currency') {
+    // Quote the symbol and group thousands: '$0.00' -> '"$"#,##0.00'
+    const match = format.match(/^(\D*?)\s?(0(?:\.0+)?)\s?(\D*)$/);
+    if (!match) return undefined;
+    const [, prefix, digits, suffix] = match;
+    return `${prefix ? `"${prefix}"` : ''}#,##${digits}${suffix ? ` "${suffix}"` : ''}`;
+  }
+  return format;
+};
+
+const isoToDate = (iso: string): Date | null => {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})(?: (\d{2}):(\d{2}):(\d{2}))?$/);
+  if (!match) return null;
+  const [, y, m, d, hh = '0', mm = '0', ss = '0'] = match;
+  return new Date(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss));
+};
+
+// --- Conditional formatting ---
+// SheetJS doesn't write conditional formats, so they are added to the
+// written workbook's XML as native Excel rules.
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const argb = (hex: string) => `FF${hex.slice(1).toUpperCase()}`;
+
+// A value typed into a rule, as an Excel formula operand
+const toExcelOperand = (value: string, schema: ColumnSchema) => {
+  const text = value.trim();
+  const date = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (schema.type === 'date' && date) return `DATE(${Number(date[1])},${Number(date[2])},${Number(date[3])})`;
+  const n = parseNumericBound(text, schema);
+  if (isNumericType(schema.type) && text !== '' && !isNaN(n)) return String(n);
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+const toConditionalFormatting = (
+  rules: FormatRule[],
+  columns: ColumnMeta[],
+  rowCount: number,
+  schema: Record<string, ColumnSchema>
+): { sheetXml: string; dxfs: string[] } => {
+  const dxfs: string[] = [];
+  const blocks: string[] = [];
+  if (rowCount === 0) return { sheetXml: '', dxfs };
+
+  rules.forEach(rule => {
+    const c = columns.findIndex(col => col.key === rule.column);
+    const colSchema = schema[rule.column];
+    if (c === -1 || !colSchema || validateFormatRule(rule, colSchema)) return;
+    const letter = XLSX.utils.encode_col(c);
+    const firstCell = `${letter}2`;
+    const priority = blocks.length + 1;
+    let cfRule: string;
+
+    switch (rule.kind) {
+      case 'color-scale': {
+        const colors = COLOR_SCALES[rule.scale || 'red-green'].colors;
+        cfRule = `<cfRule type="colorScale" priority="${priority}"><colorScale>` +
+          '<cfvo type="min"/><cfvo type="percentile" val="50"/><cfvo type="max"/>' +
+          colors.map(color => `<color rgb="${argb(color)}"/>`).join('') +
+          '</colorScale></cfRule>';
+        break;
+      }
+      case 'data-bar':
+        cfRule = `<cfRule type="dataBar" priority="${priority}"><dataBar>` +
+          `<cfvo type="min"/><cfvo type="max"/><color rgb="${argb(HIGHLIGHT_COLORS[rule.color || 'blue'].bar)}"/>` +
+          '</dataBar></cfRule>';
+        break;
+      case 'icon-set':
+        cfRule = `<cfRule type="iconSet" priority="${priority}"><iconSet iconSet="3Arrows">` +
+          [0, ...ICON_THRESHOLDS].map(val => `<cfvo type="percent" val="${val}"/>`).join('') +
+          '</iconSet></cfRule>';
+        break;
+      case 'highlight': {
+        const { fill, text } = HIGHLIGHT_COLORS[rule.color || 'red'];
+        const dxfId = dxfs.length;
+        dxfs.push(`<dxf><font><color rgb="${argb(text)}"/></font><fill><patternFill><bgColor rgb="${argb(fill)}"/></patternFill></fill></dxf>`);
+        const value = rule.value || '';
+        if (rule.condition === 'duplicate') {
+          cfRule = `<cfRule type="duplicateValues" dxfId="${dxfId}" priority="${priority}"/>`;
+        } else if (rule.condition === 'contains') {
+          // SEARCH ignores case like the grid does, but reads * ? and ~ as wildcards
+          const literal = value.trim().replace(/[~*?]/g, '~$&').replace(/"/g, '""');
+          cfRule = `<cfRule type="containsText" dxfId="${dxfId}" priority="${priority}" operator="containsText" text="${escapeXml(value.trim())}">` +
+            `<formula>${escapeXml(`NOT(ISERROR(SEARCH("${literal}",${firstCell})))`)}</formula></cfRule>`;
+        } else {
+          const operator = rule.condition === 'greater' ? 'greaterThan' : rule.condition === 'less' ? 'lessThan' : 'equal';
+          cfRule = `<cfRule type="cellIs" dxfId="${dxfId}" priority="${priority}" operator="${operator}">` +
+            `<formula>${escapeXml(toExcelOperand(value, colSchema))}</formula></cfRule>`;
+        }
+        break;
+      }
+    }
+    blocks.push(`<conditionalFormatting sqref="${firstCell}:${letter}${rowCount + 1}">${cfRule}</conditionalFormatting>`);
+  });
+
+  return { sheetXml: blocks.join(''), dxfs };
+};
+
+const addConditionalFormatting = (workbook: ArrayBuffer, sheetXml: string, dxfs: string[]): Uint8Array => {
+  const zip = XLSX.CFB.read(new Uint8Array(workbook), { type: 'array' });
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const patch = (path: string, edit: (xml: string) => string) => {
+    const entry = XLSX.CFB.find(zip, path);
+    entry.content = encoder.encode(edit(decoder.decode(entry.content)));
+    entry.size = entry.content.length;
+  };
+
+  // Conditional formats follow the cell data in the worksheet's element order
+  patch('/xl/worksheets/sheet1.xml', xml => xml.replace(/<\/sheetData>|<sheetData\/>/, match => match + sheetXml));
+  if (dxfs.length > 0) {
+    patch('/xl/styles.xml', xml => xml.replace(
+      /<dxfs[^>]*\/>|<dxfs[^>]*>[\s\S]*?<\/dxfs>/,
+      `<dxfs count="${dxfs.length}">${dxfs.join('')}</dxfs>`
+    ));
+  }
+  return XLSX.CFB.write(zip, { type: 'array', fileType: 'zip' });
+};
+
+export const downloadExcel = (
+  data: CsvRow[],
+  columns: ColumnMeta[],
+  fileName: string,
+  sheetName = 'Data',
+  schema?: Record<string, ColumnSchema>,
+  formatRules: FormatRule[] = []
+) => {
+  // Dates go in as real date cells so Excel can sort and format them
+  const rows = schema
+    ? [
+        columns.map(col => col.name),
+        ...data.map(row => columns.map(col => {
+          const value = row[col.key] ?? null;
+          return schema[col.key]?.type === 'date' && typeof value === 'string' ? isoToDate(value) ?? value : value;
+        }))
+      ]
+    : toExportRows(data, columns);
+  const worksheet = XLSX.utils.aoa_to_sheet(rows);
+
+  if (schema) {
+    columns.forEach((col, c) => {
+      const numFmt = schema[col.key] && toExcelFormat(schema[col.key]);
+      if (!numFmt) return;
+      for (let r = 1; r <= data.length; r++) {
+        const cell = worksheet[XLSX.utils.encode_cell({ r, c })];
+        if (cell && (cell.t === 'n' || cell.t === 'd')) cell.z = numFmt;
+      }
+    });
+  }
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, worksheet, sheetName);
+
+  const formatting = schema && toConditionalFormatting(formatRules, columns, data.length, schema);
+  if (!formatting?.sheetXml) {
+    XLSX.writeFile(workbook, fileName);
+    return;
+  }
+  const written: ArrayBuffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+  const xlsx = addConditionalFormatting(written, formatting.sheetXml, formatting.dxfs);
+  downloadBlob(new Blob([xlsx], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }), fileName);
+};
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { seriesSeeds, seriesValues } from './fill';
+
+describe('seriesValues', () => {
+  it('steps numbers by the difference between the seeds, or by 1', () => {
+    expect(seriesValues([5], 3)).toEqual([5, 6, 7]);
+    expect(seriesValues([10, 7], 4)).toEqual([10, 7, 4, 1]);
+  });
+
+  it('keeps the precision of the seeds', () => {
+    expect(seriesValues([0.1, 0.2], 4)).toEqual([0.1, 0.2, 0.3, 0.4]);
+    expect(seriesValues([1e-7, 2e-7], 3)).toEqual([1e-7, 2e-7, 3e-7]);
+    expect(seriesValues([0, 2.5e-8], 3)).toEqual([0, 2.5e-8, 5e-8]);
+  });
+
+  it('steps dates by days', () => {
+    expect(seriesValues(['2025-01-30'], 3)).toEqual(['2025-01-30', '2025-01-31', '2025-02-01']);
+    expect(seriesValues(['2025-01-01', '2025-01-08'], 3)).toEqual(['2025-01-01', '2025-01-08', '2025-01-15']);
+  });
+
+  it('counts on text ending in a number, keeping zero padding', () => {
+    expect(seriesValues(['INV-007'], 3)).toEqual(['INV-007', 'INV-008', 'INV-009']);
+    expect(seriesValues(['Item 2', 'Item 4'], 3)).toEqual(['Item 2', 'Item 4', 'Item 6']);
+  });
+
+  it('returns null when the seeds do not form a series', () => {
+    expect(seriesValues(['abc'], 3)).toBeNull();
+    expect(seriesValues([1, 'x'], 3)).toBeNull();
+    expect(seriesValues(['A1', 'B2'], 3)).toBeNull();
+    expect(seriesValues([''], 3)).toBeNull();
+  });
+});
+
+describe('seriesSeeds', () => {
+  it('uses two seeds only when the rest of the line is empty', () => {
+    expect(seriesSeeds([1, 3, '', null])).toEqual([1, 3]);
+    expect(seriesSeeds([1, 3, 5])).toEqual([1]);
+    expect(seriesSeeds([1, '', ''])).toEqual([1]);
+  });
+});
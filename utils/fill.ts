@@ -0,0 +1,79 @@
+import { CsvValue } from '../types';
+import { isEmptyValue } from './schema';
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isoToDays = (iso: string) => {
+  const [, y, m, d] = ISO_DATE.exec(iso)!;
+  return Date.UTC(Number(y), Number(m) - 1, Number(d)) / DAY_MS;
+};
+
+const daysToIso = (days: number) => new Date(days * DAY_MS).toISOString().slice(0, 10);
+
+// Counts the exponent too, so tiny steps such as 2.5e-8 are not rounded away
+const decimalsOf = (n: number) => {
+  const [mantissa, exponent = '0'] = String(n).split('e');
+  const decimals = (mantissa.split('.')[1] || '').length - Number(exponent);
+  return Math.min(Math.max(decimals, 0), 100);
+};
+
+/**
+ * Continues a series from one or two seed values over `length` cells
+ * (seeds included). Numbers and dates step by the difference between the
+ * seeds, or by 1 (day) from a single seed; text ending in a number, such as
+ * "Item 9", counts on. Returns null when the seeds don't form a series.
+ */
+export const seriesValues = (seeds: CsvValue[], length: number): CsvValue[] | null => {
+  const [first, second] = seeds;
+  const hasStep = seeds.length > 1;
+  if (isEmptyValue(first)) return null;
+  const steps = Array.from({ length }, (_, i) => i);
+
+  if (typeof first === 'number') {
+    let step = 1;
+    // Keep the seeds' precision, so 0.1 steps don't drift into 0.30000000000000004
+    let decimals = decimalsOf(first);
+    if (hasStep) {
+      if (typeof second !== 'number') return null;
+      step = second - first;
+      decimals = Math.max(decimals, decimalsOf(second));
+    }
+    return steps.map(i => Number((first + i * step).toFixed(decimals)));
+  }
+
+  // Date columns hold ISO dates, and ISO text reads best as dates too
+  if (typeof first === 'string' && ISO_DATE.test(first)) {
+    const start = isoToDays(first);
+    let step = 1;
+    if (hasStep) {
+      if (typeof second !== 'string' || !ISO_DATE.test(second)) return null;
+      step = isoToDays(second) - start;
+    }
+    return steps.map(i => daysToIso(start + i * step));
+  }
+
+  const counter = typeof first === 'string' ? /^(.*?)(\d+)$/.exec(first) : null;
+  if (counter) {
+    const [, prefix, digits] = counter;
+    let step = 1;
+    if (hasStep) {
+      const next = typeof second === 'string' ? /^(.*?)(\d+)$/.exec(second) : null;
+      if (!next || next[1] !== prefix) return null;
+      step = Number(next[2]) - Number(digits);
+    }
+    // Zero-padded counters (INV-007) keep their width
+    return steps.map(i => `${prefix}${String(Math.max(0, Number(digits) + i * step)).padStart(digits.length, '0')}`);
+  }
+
+  return null;
+};
+
+/**
+ * The seeds for a series along a line of cells: the first two when the rest
+ * of the line is empty (so they show the step), otherwise just the first.
+ */
+export const seriesSeeds = (line: CsvValue[]): CsvValue[] => {
+  if (line.length > 2 && !isEmptyValue(line[1]) && line.slice(2).every(isEmptyValue)) return line.slice(0, 2);
+  return line.slice(0, 1);
+};
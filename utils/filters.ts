@@ -0,0 +1,241 @@
+import { ColumnSchema, CsvRow, CsvValue } from '../types';
+import { formatValue, isEmptyValue, isNumericType } from './schema';
+
+export type FilterOperator =
+  | 'in'
+  | 'between'
+  | 'before'
+  | 'after'
+  | 'on'
+  | 'contains'
+  | 'not-contains'
+  | 'equals'
+  | 'regex'
+  | 'empty'
+  | 'not-empty';
+
+export interface FilterCondition {
+  id: string;
+  column: string; // Column key
+  operator: FilterOperator;
+  value?: string; // Text for text operators, ISO date for date operators
+  values?: string[]; // Displayed values for 'in'; '' stands for blank cells
+  min?: number; // Bounds for 'between', either may be left open
+  max?: number;
+}
+
+export type FilterCombinator = 'and' | 'or';
+
+export interface FilterGroup {
+  id: string;
+  combinator: FilterCombinator;
+  conditions: FilterCondition[];
+}
+
+/**
+ * Groups of conditions combined by `combinator`. Filters set from a column
+ * header live in the first group.
+ */
+export interface RowFilter {
+  combinator: FilterCombinator;
+  groups: FilterGroup[];
+}
+
+export const EMPTY_FILTER: RowFilter = { combinator: 'and', groups: [] };
+
+// Above this many distinct values a checklist stops being useful
+export const MAX_CHECKLIST_VALUES = 500;
+
+const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  'in': 'is one of',
+  'between': 'between',
+  'before': 'before',
+  'after': 'after',
+  'on': 'on',
+  'contains': 'contains',
+  'not-contains': 'does not contain',
+  'equals': 'equals',
+  'regex': 'matches regex',
+  'empty': 'is empty',
+  'not-empty': 'is not empty'
+};
+
+export const describeOperator = (operator: FilterOperator) => OPERATOR_LABELS[operator];
+
+/**
+ * Operators that make sense for a column, in the order they are offered.
+ */
+export const operatorsFor = (schema?: ColumnSchema): FilterOperator[] => {
+  if (isNumericType(schema?.type)) return ['between', 'in', 'empty', 'not-empty'];
+  if (schema?.type === 'date') return ['after', 'before', 'on', 'in', 'empty', 'not-empty'];
+  if (schema?.type === 'boolean') return ['in', 'empty', 'not-empty'];
+  return ['contains', 'not-contains', 'equals', 'regex', 'in', 'empty', 'not-empty'];
+};
+
+export const needsValue = (operator: FilterOperator) => operator !== 'empty' && operator !== 'not-empty';
+
+let nextId = 0;
+export const createFilterId = () => `f${++nextId}`;
+
+export const countConditions = (filter: RowFilter) =>
+  filter.groups.reduce((sum, group) => sum + group.conditions.length, 0);
+
+/**
+ * Short human-readable form of a condition, used for the chips above the grid.
+ */
+export const describeCondition = (condition: FilterCondition, columnName: string, schema?: ColumnSchema) => {
+  const op = describeOperator(condition.operator);
+  switch (condition.operator) {
+    case 'empty':
+    case 'not-empty':
+      return `${columnName} ${op}`;
+    case 'in': {
+      const values = (condition.values || []).map(v => (v === '' ? '(Blank)' : v));
+      const shown = values.length > 3 ? `${values.slice(0, 3).join(', ')} +${values.length - 3}` : values.join(', ');
+      return `${columnName} ${op} ${shown}`;
+    }
+    case 'between': {
+      const fmt = (n: number) => formatValue(n, schema);
+      if (condition.min !== undefined && condition.max !== undefined) return `${columnName} ${fmt(condition.min)} – ${fmt(condition.max)}`;
+      if (condition.min !== undefined) return `${columnName} ≥ ${fmt(condition.min)}`;
+      return `${columnName} ≤ ${fmt(condition.max ?? 0)}`;
+    }
+    case 'before':
+    case 'after':
+    case 'on':
+      return `${columnName} ${op} ${formatValue(condition.value || '', schema)}`;
+    default:
+      return `${columnName} ${op} "${condition.value || ''}"`;
+  }
+};
+
+/**
+ * Returns an error message when a condition cannot be applied as entered.
+ */
+export const validateCondition = (condition: FilterCondition): string | null => {
+  if (condition.operator === 'regex') {
+    try {
+      new RegExp(condition.value || '');
+    } catch (err: any) {
+      return `Invalid regex: ${err.message}`;
+    }
+  }
+  return null;
+};
+
+type Predicate = (row: CsvRow) => boolean;
+
+const compileCondition = (condition: FilterCondition, schema?: ColumnSchema): Predicate => {
+  const { column } = condition;
+  const text = (value: CsvValue | undefined) => formatValue(value, schema);
+
+  switch (condition.operator) {
+    case 'empty':
+      return row => isEmptyValue(row[column]);
+    case 'not-empty':
+      return row => !isEmptyValue(row[column]);
+    case 'in': {
+      const values = new Set(condition.values || []);
+      return row => values.has(isEmptyValue(row[column]) ? '' : text(row[column]));
+    }
+    case 'between': {
+      const { min, max } = condition;
+      return row => {
+        const value = row[column];
+        if (typeof value !== 'number') return false;
+        return (min === undefined || value >= min) && (max === undefined || value <= max);
+      };
+    }
+    case 'before':
+    case 'after':
+    case 'on': {
+      // Dates are stored as ISO strings, so comparing the date part as text orders them correctly
+      const target = (condition.value || '').slice(0, 10);
+      return row => {
+        const value = row[column];
+        if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value)) return false;
+        const day = value.slice(0, 10);
+        if (condition.operator === 'before') return day < target;
+        if (condition.operator === 'after') return day > target;
+        return day === target;
+      };
+    }
+    case 'contains':
+    case 'not-contains': {
+      const needle = (condition.value || '').toLowerCase();
+      const negate = condition.operator === 'not-contains';
+      return row => text(row[column]).toLowerCase().includes(needle) !== negate;
+    }
+    case 'equals': {
+      const target = (condition.value || '').trim().toLowerCase();
+      return row => text(row[column]).trim().toLowerCase() === target;
+    }
+    case 'regex': {
+      if (validateCondition(condition)) return () => false;
+      const regex = new RegExp(condition.value || '');
+      return row => regex.test(text(row[column]));
+    }
+  }
+};
+
+/**
+ * Turns a filter into a row predicate, or null when it has no conditions.
+ */
+export const compileFilter = (filter: RowFilter, schema: Record<string, ColumnSchema>): Predicate | null => {
+  const groups = filter.groups
+    .filter(group => group.conditions.length > 0)
+    .map(group => {
+      const predicates = group.conditions.map(c => compileCondition(c, schema[c.column]));
+      return group.combinator === 'and'
+        ? (row: CsvRow) => predicates.every(p => p(row))
+        : (row: CsvRow) => predicates.some(p => p(row));
+    });
+
+  if (groups.length === 0) return null;
+  return filter.combinator === 'and'
+    ? row => groups.every(p => p(row))
+    : row => groups.some(p => p(row));
+};
+
+/**
+ * Replaces the conditions on one column in the first group, which is where
+ * filters set from a column header live.
+ */
+export const setColumnConditions = (filter: RowFilter, column: string, conditions: FilterCondition[]): RowFilter => {
+  const [first, ...rest] = filter.groups.length > 0
+    ? filter.groups
+    : [{ id: createFilterId(), combinator: 'and' as FilterCombinator, conditions: [] }];
+  const kept = first.conditions.filter(c => c.column !== column);
+  // Conditions on this column in other groups belong to the builder and are left alone
+  return { ...filter, groups: [{ ...first, conditions: [...kept, ...conditions] }, ...rest] };
+};
+
+export const removeCondition = (filter: RowFilter, id: string): RowFilter => ({
+  ...filter,
+  groups: filter.groups
+    .map(group => ({ ...group, conditions: group.conditions.filter(c => c.id !== id) }))
+    .filter((group, i) => i === 0 || group.conditions.length > 0)
+});
+
+export const getColumnConditions = (filter: RowFilter, column: string) =>
+  filter.groups[0]?.conditions.filter(c => c.column === column) || [];
+
+/**
+ * Distinct displayed values of a column with their counts, most frequent
+ * first. Returns null when there are too many to list.
+ */
+export const getDistinctValues = (
+  data: CsvRow[],
+  column: string,
+  schema?: ColumnSchema
+): { value: string; count: number }[] | null => {
+  const counts = new Map<string, number>();
+  for (const row of data) {
+    const value = isEmptyValue(row[column]) ? '' : formatValue(row[column], schema);
+    counts.set(value, (counts.get(value) || 0) + 1);
+    if (counts.size > MAX_CHECKLIST_VALUES) return null;
+  }
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
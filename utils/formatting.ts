@@ -0,0 +1,269 @@
+import { ColumnSchema, CsvRow, CsvValue } from '../types';
+import { describeBound, formatValue, isEmptyValue, isNumericType, parseNumericBound } from './schema';
+
+export type FormatKind = 'color-scale' | 'data-bar' | 'icon-set' | 'highlight';
+export type HighlightCondition = 'greater' | 'less' | 'equal' | 'contains' | 'duplicate';
+export type HighlightColor = 'red' | 'yellow' | 'green' | 'blue';
+export type ColorScale = 'red-green' | 'green-red' | 'white-blue';
+
+/**
+ * A conditional format on one column. The options mirror Excel's built-in
+ * rules so the export can write them as native conditional formatting.
+ */
+export interface FormatRule {
+  id: string;
+  column: string; // Column key
+  kind: FormatKind;
+  scale?: ColorScale; // For 'color-scale'
+  condition?: HighlightCondition; // For 'highlight'
+  value?: string; // Compared value for 'greater', 'less', 'equal' and 'contains'; YYYY-MM-DD in date columns
+  color?: HighlightColor; // For 'highlight' and 'data-bar'
+}
+
+export type TrendIcon = 'up' | 'flat' | 'down';
+
+export interface CellFormat {
+  background?: string;
+  color?: string;
+  bar?: { fraction: number; color: string }; // Fraction of the cell the bar fills, 0 to 1
+  icon?: TrendIcon;
+}
+
+export const FORMAT_KINDS: { value: FormatKind; label: string }[] = [
+  { value: 'highlight', label: 'Highlight cells' },
+  { value: 'color-scale', label: 'Color scale' },
+  { value: 'data-bar', label: 'Data bar' },
+  { value: 'icon-set', label: 'Icon set' }
+];
+
+export const HIGHLIGHT_CONDITIONS: { value: HighlightCondition; label: string }[] = [
+  { value: 'greater', label: 'Greater than' },
+  { value: 'less', label: 'Less than' },
+  { value: 'equal', label: 'Equal to' },
+  { value: 'contains', label: 'Contains' },
+  { value: 'duplicate', label: 'Is duplicate' }
+];
+
+// Excel's preset fills, so the export looks the same as the grid
+export const HIGHLIGHT_COLORS: Record<HighlightColor, { label: string; fill: string; text: string; bar: string }> = {
+  red: { label: 'Red', fill: '#FFC7CE', text: '#9C0006', bar: '#F8696B' },
+  yellow: { label: 'Yellow', fill: '#FFEB9C', text: '#9C5700', bar: '#FFB628' },
+  green: { label: 'Green', fill: '#C6EFCE', text: '#006100', bar: '#63BE7B' },
+  blue: { label: 'Blue', fill: '#DDEBF7', text: '#1F4E78', bar: '#638EC6' }
+};
+
+// Low, middle (the median) and high colors
+export const COLOR_SCALES: Record<ColorScale, { label: string; colors: [string, string, string] }> = {
+  'red-green': { label: 'Red – yellow – green', colors: ['#F8696B', '#FFEB84', '#63BE7B'] },
+  'green-red': { label: 'Green – yellow – red', colors: ['#63BE7B', '#FFEB84', '#F8696B'] },
+  'white-blue': { label: 'White – blue', colors: ['#FFFFFF', '#BDD7EE', '#5B9BD5'] }
+};
+
+// Icon sets split the column's range into thirds, as Excel's 3 Arrows preset does
+export const ICON_THRESHOLDS = [33, 67];
+
+let nextId = 0;
+export const createFormatRuleId = () => `cf${++nextId}`;
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const isoToDays = (iso: string) => {
+  const match = ISO_DATE.exec(iso);
+  return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / DAY_MS : NaN;
+};
+
+// Scales, bars, icons and greater/less than need values that can be placed in order
+export const isScalable = (schema?: ColumnSchema) => !!schema && (isNumericType(schema.type) || schema.type === 'date');
+
+// Numbers as they are, dates as days; anything else has no place on a scale
+const toNumber = (value: CsvValue, schema?: ColumnSchema): number | null => {
+  if (typeof value === 'number') return value;
+  if (schema?.type === 'date' && typeof value === 'string') {
+    const days = isoToDays(value);
+    return isNaN(days) ? null : days;
+  }
+  return null;
+};
+
+// Numbers are read in the column's locale and format; percent columns take
+// their bounds as percentages, like range validation rules
+const parseBound = (text: string, schema?: ColumnSchema) =>
+  schema?.type === 'date' ? (/^\d{4}-\d{2}-\d{2}$/.test(text.trim()) ? isoToDays(text.trim()) : NaN) : parseNumericBound(text, schema);
+
+/**
+ * Short human-readable form of a rule, without the column.
+ */
+export const describeFormatRule = (rule: FormatRule, schema?: ColumnSchema): string => {
+  switch (rule.kind) {
+    case 'color-scale':
+      return `Color scale, ${COLOR_SCALES[rule.scale || 'red-green'].label.toLowerCase()}`;
+    case 'data-bar':
+      return `${HIGHLIGHT_COLORS[rule.color || 'blue'].label} data bars`;
+    case 'icon-set':
+      return 'Arrows by thirds of the range';
+    case 'highlight': {
+      const color = HIGHLIGHT_COLORS[rule.color || 'red'].label.toLowerCase();
+      switch (rule.condition) {
+        case 'greater': return `Greater than ${describeBound(rule.value, schema)}, ${color}`;
+        case 'less': return `Less than ${describeBound(rule.value, schema)}, ${color}`;
+        case 'equal': return `Equal to "${rule.value}", ${color}`;
+        case 'contains': return `Contains "${rule.value}", ${color}`;
+        default: return `Duplicates, ${color}`;
+      }
+    }
+  }
+};
+
+/**
+ * Returns an error message when a rule cannot be applied as entered.
+ */
+export const validateFormatRule = (rule: FormatRule, schema?: ColumnSchema): string | null => {
+  if (rule.kind !== 'highlight') {
+    return isScalable(schema) ? null : 'Scales, bars and icons need a number or date column.';
+  }
+  switch (rule.condition) {
+    case 'greater':
+    case 'less':
+      if (!isScalable(schema)) return 'Greater and less than need a number or date column.';
+      if (!rule.value?.trim()) return 'Enter a value.';
+      if (isNaN(parseBound(rule.value, schema))) {
+        return schema.type === 'date' ? `"${rule.value}" is not a date (YYYY-MM-DD).` : `"${rule.value}" is not a number.`;
+      }
+      return null;
+    case 'equal':
+    case 'contains':
+      return rule.value?.trim() ? null : 'Enter a value.';
+    case 'duplicate':
+      return null;
+    default:
+      return 'Choose a condition.';
+  }
+};
+
+const mix = (from: string, to: string, t: number) => {
+  const channels = (hex: string) => [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  const a = channels(from);
+  const b = channels(to);
+  return `rgb(${a.map((v, i) => Math.round(v + (b[i] - v) * t)).join(', ')})`;
+};
+
+// Linear percentile, the way Excel's PERCENTILE works
+const percentile = (sorted: number[], p: number) => {
+  const pos = (sorted.length - 1) * p;
+  const lower = Math.floor(pos);
+  return sorted[lower] + (sorted[Math.min(lower + 1, sorted.length - 1)] - sorted[lower]) * (pos - lower);
+};
+
+// Values are compared the way Excel does: text ignoring case
+const duplicateKey = (value: CsvValue) => (typeof value === 'string' ? value.trim().toLowerCase() : String(value));
+
+type Apply = (value: CsvValue, format: CellFormat) => void;
+
+const compileRule = (rule: FormatRule, data: CsvRow[], schema: ColumnSchema): Apply => {
+  const numbers = () => data
+    .map(row => toNumber(row[rule.column], schema))
+    .filter((n): n is number => n !== null)
+    .sort((a, b) => a - b);
+
+  switch (rule.kind) {
+    case 'color-scale': {
+      const sorted = numbers();
+      if (sorted.length === 0) return () => {};
+      const [low, middle, high] = COLOR_SCALES[rule.scale || 'red-green'].colors;
+      const min = sorted[0];
+      const max = sorted[sorted.length - 1];
+      const median = percentile(sorted, 0.5);
+      return (value, format) => {
+        const n = toNumber(value, schema);
+        if (n === null || format.background) return;
+        if (n <= median) format.background = mix(low, middle, median === min ? 1 : (n - min) / (median - min));
+        else format.background = mix(middle, high, (n - median) / (max - median));
+      };
+    }
+    case 'data-bar':
+    case 'icon-set': {
+      const sorted = numbers();
+      if (sorted.length === 0) return () => {};
+      const min = sorted[0];
+      const span = sorted[sorted.length - 1] - min;
+      const barColor = HIGHLIGHT_COLORS[rule.color || 'blue'].bar;
+      return (value, format) => {
+        const n = toNumber(value, schema);
+        if (n === null) return;
+        const fraction = span === 0 ? 1 : (n - min) / span;
+        if (rule.kind === 'data-bar') {
+          format.bar ??= { fraction, color: barColor };
+        } else {
+          const percent = fraction * 100;
+          format.icon ??= percent >= ICON_THRESHOLDS[1] ? 'up' : percent >= ICON_THRESHOLDS[0] ? 'flat' : 'down';
+        }
+      };
+    }
+    case 'highlight': {
+      const { fill, text } = HIGHLIGHT_COLORS[rule.color || 'red'];
+      const matches = ((): ((value: CsvValue) => boolean) => {
+        const query = (rule.value || '').trim();
+        switch (rule.condition) {
+          case 'greater':
+          case 'less': {
+            const bound = parseBound(query, schema);
+            return value => {
+              const n = toNumber(value, schema);
+              return n !== null && (rule.condition === 'greater' ? n > bound : n < bound);
+            };
+          }
+          case 'equal': {
+            const bound = parseBound(query, schema);
+            if (!isNaN(bound) && isScalable(schema)) return value => toNumber(value, schema) === bound;
+            return value => duplicateKey(value) === query.toLowerCase();
+          }
+          case 'contains': {
+            const lowered = query.toLowerCase();
+            return value => formatValue(value, schema).toLowerCase().includes(lowered);
+          }
+          default: {
+            const counts = new Map<string, number>();
+            data.forEach(row => {
+              const value = row[rule.column];
+              if (!isEmptyValue(value)) counts.set(duplicateKey(value), (counts.get(duplicateKey(value)) || 0) + 1);
+            });
+            return value => (counts.get(duplicateKey(value)) || 0) > 1;
+          }
+        }
+      })();
+      return (value, format) => {
+        if (format.background || isEmptyValue(value) || !matches(value)) return;
+        format.background = fill;
+        format.color = text;
+      };
+    }
+  }
+};
+
+/**
+ * Prepares the rules against the whole dataset (scales span every row, not
+ * just the filtered ones, matching the export) and returns a function that
+ * formats a single cell, or null when no rule touches it. Earlier rules win
+ * where two set the same thing.
+ */
+export const buildFormatter = (
+  data: CsvRow[],
+  rules: FormatRule[],
+  schema: Record<string, ColumnSchema>
+): ((column: string, value: CsvValue) => CellFormat | null) => {
+  const byColumn = new Map<string, Apply[]>();
+  rules.forEach(rule => {
+    const colSchema = schema[rule.column];
+    if (!colSchema || validateFormatRule(rule, colSchema)) return;
+    byColumn.set(rule.column, [...(byColumn.get(rule.column) || []), compileRule(rule, data, colSchema)]);
+  });
+
+  return (column, value) => {
+    const applies = byColumn.get(column);
+    if (!applies) return null;
+    const format: CellFormat = {};
+    applies.forEach(apply => apply(value, format));
+    return format.background || format.bar || format.icon ? format : null;
+  };
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnMeta, CsvRow, CsvValue, ParseResult } from '../types';
+import { FormulaError, compileFormula, computeColumn, normalizeFormula, refreshComputedColumns, schemaForValues } from './formula';
+
+const COLUMNS: ColumnMeta[] = [
+  { key: 'price', name: 'Unit Price' },
+  { key: 'qty', name: 'qty' },
+  { key: 'name', name: 'name' },
+  { key: 'day', name: 'day' }
+];
+
+const ROW: CsvRow = { price: 2.5, qty: 4, name: ' Ada  Lovelace ', day: '2025-01-31' };
+
+const run = (formula: string, row: CsvRow = ROW): CsvValue => compileFormula(formula, COLUMNS).evaluate(row);
+
+const errorOf = (fn: () => unknown): FormulaError => {
+  try {
+    fn();
+  } catch (err) {
+    if (err instanceof FormulaError) return err;
+    throw err;
+  }
+  throw new Error('Expected a FormulaError');
+};
+
+describe('compileFormula', () => {
+  it('follows operator precedence and associativity', () => {
+    expect(run('1 + 2 * 3')).toBe(7);
+    expect(run('(1 + 2) * 3')).toBe(9);
+    expect(run('2 ^ 3 ^ 2')).toBe(512);
+    expect(run('-2 ^ 2')).toBe(-4);
+    expect(run('10 - 4 - 3')).toBe(3);
+    expect(run('1 + 1 = 2 AND NOT 1 > 2')).toBe(true);
+  });
+
+  it('resolves columns by key, by display name and ignoring case', () => {
+    expect(run('[price] * qty')).toBe(10);
+    expect(run('[Unit Price] * [QTY]')).toBe(10);
+  });
+
+  it('lists the columns it reads', () => {
+    expect(compileFormula('[Unit Price] * qty + price', COLUMNS).references).toEqual(['price', 'qty']);
+  });
+
+  it('joins and compares text', () => {
+    expect(run('"a" & 1 & TRUE')).toBe('a1TRUE');
+    expect(run('"He said ""hi"""')).toBe('He said "hi"');
+    expect(run('"abc" < "abd"')).toBe(true);
+  });
+
+  it('points at the problem in formulas it cannot read', () => {
+    expect(errorOf(() => compileFormula('1 +', COLUMNS)).message).toBe('Unexpected end of formula');
+    expect(errorOf(() => compileFormula('[missing] + 1', COLUMNS))).toMatchObject({ message: 'Unknown column "missing"', position: 0 });
+    expect(errorOf(() => compileFormula('1 + NOPE(2)', COLUMNS)).position).toBe(4);
+    expect(errorOf(() => compileFormula('ROUND()', COLUMNS)).message).toBe('ROUND() takes 1 to 2 arguments, got 0');
+    expect(errorOf(() => compileFormula('"open', COLUMNS)).message).toBe('Text is missing its closing quote');
+    expect(errorOf(() => compileFormula('', COLUMNS)).message).toBe('Formula is empty');
+  });
+});
+
+describe('functions', () => {
+  it('computes math', () => {
+    expect(run('ROUND(2.345, 2)')).toBe(2.35);
+    expect(run('MOD(7, 3)')).toBe(1);
+    expect(run('SUM(1, BLANK, 2)')).toBe(3);
+    expect(run('AVERAGE(BLANK)')).toBeNull();
+    expect(run('MAX(1, 5, 3)')).toBe(5);
+  });
+
+  it('works on text', () => {
+    expect(run('TRIM(name)')).toBe('Ada Lovelace');
+    expect(run('LEFT(TRIM(name), 3)')).toBe('Ada');
+    expect(run('RIGHT("abc", 0)')).toBe('');
+    expect(run('MID("abcdef", 2, 3)')).toBe('bcd');
+    expect(run('SUBSTITUTE("a-b-c", "-", "+")')).toBe('a+b+c');
+    expect(run('CONTAINS(name, "LOVE")')).toBe(true);
+  });
+
+  it('works on dates as UTC days', () => {
+    expect(run('YEAR(day) & "-" & MONTH(day) & "-" & DAY(day)')).toBe('2025-1-31');
+    expect(run('ADDDAYS(day, 1)')).toBe('2025-02-01');
+    expect(run('DAYS("2025-03-01", day)')).toBe(29);
+    expect(run('DATE(2024, 2, 30)')).toBe('2024-03-01');
+    expect(run('WEEKDAY("2025-01-05")')).toBe(1);
+  });
+
+  it('rejects dates outside four-digit years', () => {
+    expect(errorOf(() => run('DATE(300000, 1, 1)')).message).toBe('Date out of range');
+    expect(errorOf(() => run('ADDDAYS(day, 1e12)')).message).toBe('Date out of range');
+  });
+
+  it('only evaluates the branch it needs', () => {
+    expect(run('IF(qty > 1, "many", 1 / 0)')).toBe('many');
+    expect(run('IF(FALSE, 1)')).toBeNull();
+    expect(run('IFERROR(1 / 0, -1)')).toBe(-1);
+    expect(run('COALESCE(BLANK, "", "x")')).toBe('x');
+  });
+
+  it('reports values it cannot work with', () => {
+    expect(errorOf(() => run('1 / 0')).message).toBe('Division by zero');
+    expect(errorOf(() => run('name + 1')).message).toBe('" Ada  Lovelace " is not a number');
+    expect(errorOf(() => run('YEAR("soon")')).message).toBe('"soon" is not a date');
+  });
+});
+
+describe('normalizeFormula', () => {
+  it('rewrites references as keys and leaves the rest alone', () => {
+    expect(normalizeFormula('[Unit Price] * QTY + "[name]"', COLUMNS)).toBe('[price] * [qty] + "[name]"');
+  });
+});
+
+describe('computeColumn', () => {
+  it('leaves failing rows empty and reports the first failure', () => {
+    const data: CsvRow[] = [{ qty: 2 }, { qty: 0 }, { qty: 'x' }];
+    const result = computeColumn(compileFormula('10 / qty', COLUMNS), data);
+    expect(result.values).toEqual([5, null, null]);
+    expect(result.errorCount).toBe(2);
+    expect(result.firstError).toEqual({ row: 1, message: 'Division by zero' });
+  });
+});
+
+describe('schemaForValues', () => {
+  it('types the column from the values produced', () => {
+    expect(schemaForValues([1, 2, null]).type).toBe('integer');
+    expect(schemaForValues([1.5, 2]).type).toBe('decimal');
+    expect(schemaForValues([true, false]).type).toBe('boolean');
+    expect(schemaForValues(['2025-01-01']).type).toBe('date');
+    expect(schemaForValues(['a', 1]).type).toBe('string');
+  });
+});
+
+describe('refreshComputedColumns', () => {
+  it('recomputes formula columns from the current data', () => {
+    const result: ParseResult = {
+      data: [{ a: 1, total: 2 }, { a: 5, total: 2 }],
+      columns: ['a', 'total'],
+      columnMeta: [{ key: 'a', name: 'a' }, { key: 'total', name: 'total' }],
+      schema: { a: { type: 'integer', nullable: false }, total: { type: 'integer', nullable: false, formula: '[a] * 2' } },
+      meta: { rowCount: 2, fileSize: 0, fileName: 'test.csv' }
+    };
+    const next = refreshComputedColumns(result);
+    expect(next.data.map(row => row.total)).toEqual([2, 10]);
+    expect(next.data[0]).toBe(result.data[0]);
+  });
+});
@@ -0,0 +1,556 @@
+import { ColumnMeta, ColumnSchema, CsvRow, CsvValue, ParseResult } from '../types';
+import { isEmptyValue } from './schema';
+
+/**
+ * A formula that cannot be read, or a value it cannot work with. `position`
+ * is the character offset in the formula text, when known.
+ */
+export class FormulaError extends Error {
+  position?: number;
+
+  constructor(message: string, position?: number) {
+    super(message);
+    this.name = "FormulaError";
+    this.position = position;
+  }
+}
+
+// --- Tokenizer ---
+
+type TokenType = 'number' | 'string' | 'ident' | 'ref' | 'op' | 'lparen' | 'rparen' | 'comma' | 'eof';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+const OPERATORS = ['<=', '>=', '<>', '!=', '==', '=', '<', '>', '+', '-', '*', '/', '^', '%', '&'];
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const start = i;
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(text[i + 1] || ''))) {
+      const match = text.slice(i).match(/^(\d*\.?\d+|\d+\.)([eE][+-]?\d+)?/)!;
+      i += match[0].length;
+      tokens.push({ type: 'number', value: match[0], start, end: i });
+    } else if (ch === '"') {
+      // A doubled quote stands for a literal quote
+      let value = '';
+      i++;
+      for (;;) {
+        if (i >= text.length) throw new FormulaError('Text is missing its closing quote', start);
+        if (text[i] === '"') {
+          if (text[i + 1] === '"') {
+            value += '"';
+            i += 2;
+            continue;
+          }
+          i++;
+          break;
+        }
+        value += text[i++];
+      }
+      tokens.push({ type: 'string', value, start, end: i });
+    } else if (ch === '[') {
+      const close = text.indexOf(']', i);
+      if (close === -1) throw new FormulaError('Column reference is missing its closing ]', start);
+      i = close + 1;
+      tokens.push({ type: 'ref', value: text.slice(start + 1, close).trim(), start, end: i });
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = text.slice(i).match(/^[A-Za-z_][A-Za-z0-9_.]*/)!;
+      i += match[0].length;
+      tokens.push({ type: 'ident', value: match[0], start, end: i });
+    } else if (ch === '(' || ch === ')' || ch === ',') {
+      i++;
+      tokens.push({ type: ch === '(' ? 'lparen' : ch === ')' ? 'rparen' : 'comma', value: ch, start, end: i });
+    } else {
+      const op = OPERATORS.find(candidate => text.startsWith(candidate, i));
+      if (!op) throw new FormulaError(`Unexpected character "${ch}"`, start);
+      i += op.length;
+      tokens.push({ type: 'op', value: op, start, end: i });
+    }
+  }
+  tokens.push({ type: 'eof', value: '', start: text.length, end: text.length });
+  return tokens;
+};
+
+// --- Parser ---
+
+type FormulaNode =
+  | { type: 'literal'; value: CsvValue }
+  | { type: 'column'; key: string }
+  | { type: 'unary'; op: string; operand: FormulaNode }
+  | { type: 'binary'; op: string; left: FormulaNode; right: FormulaNode; position: number }
+  | { type: 'call'; name: string; args: FormulaNode[]; position: number };
+
+type ColumnResolver = (name: string) => string | undefined;
+
+// Binding strength of infix operators; higher binds tighter
+const PRECEDENCE: Record<string, number> = {
+  'OR': 1,
+  'AND': 2,
+  '=': 4, '==': 4, '<>': 4, '!=': 4, '<': 4, '>': 4, '<=': 4, '>=': 4,
+  '&': 5,
+  '+': 6, '-': 6,
+  '*': 7, '/': 7, '%': 7,
+  '^': 9
+};
+const NOT_PRECEDENCE = 3;
+const UNARY_PRECEDENCE = 8;
+
+const parse = (text: string, resolve: ColumnResolver): { node: FormulaNode; references: Token[] } => {
+  const tokens = tokenize(text);
+  const references: Token[] = [];
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const describe = (token: Token) => (token.type === 'eof' ? 'end of formula' : `"${token.value}"`);
+
+  // Word operators are written as identifiers
+  const infixOperator = (token: Token) => {
+    if (token.type === 'op') return token.value;
+    if (token.type === 'ident' && ['AND', 'OR'].includes(token.value.toUpperCase())) return token.value.toUpperCase();
+    return null;
+  };
+
+  const parseExpression = (minPrecedence: number): FormulaNode => {
+    let left = parsePrefix();
+    for (;;) {
+      const token = peek();
+      const op = infixOperator(token);
+      if (!op || PRECEDENCE[op] < minPrecedence) return left;
+      next();
+      // ^ groups to the right, everything else to the left
+      const right = parseExpression(op === '^' ? PRECEDENCE[op] : PRECEDENCE[op] + 1);
+      left = { type: 'binary', op, left, right, position: token.start };
+    }
+  };
+
+  const parsePrefix = (): FormulaNode => {
+    const token = peek();
+    if (token.type === 'op' && (token.value === '-' || token.value === '+')) {
+      next();
+      return { type: 'unary', op: token.value, operand: parseExpression(UNARY_PRECEDENCE) };
+    }
+    if (token.type === 'ident' && token.value.toUpperCase() === 'NOT' && tokens[pos + 1].type !== 'lparen') {
+      next();
+      return { type: 'unary', op: 'NOT', operand: parseExpression(NOT_PRECEDENCE) };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = next();
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'lparen': {
+        const inner = parseExpression(0);
+        const close = next();
+        if (close.type !== 'rparen') throw new FormulaError(`Expected ")" but found ${describe(close)}`, close.start);
+        return inner;
+      }
+      case 'ref':
+        return columnNode(token);
+      case 'ident': {
+        const upper = token.value.toUpperCase();
+        if (peek().type === 'lparen') return parseCall(token);
+        if (upper === 'TRUE' || upper === 'FALSE') return { type: 'literal', value: upper === 'TRUE' };
+        if (upper === 'NULL' || upper === 'BLANK') return { type: 'literal', value: null };
+        return columnNode(token);
+      }
+      default:
+        throw new FormulaError(`Unexpected ${describe(token)}`, token.start);
+    }
+  };
+
+  const columnNode = (token: Token): FormulaNode => {
+    const key = resolve(token.value);
+    if (key === undefined) throw new FormulaError(`Unknown column "${token.value}"`, token.start);
+    references.push(token);
+    return { type: 'column', key };
+  };
+
+  const parseCall = (nameToken: Token): FormulaNode => {
+    const name = nameToken.value.toUpperCase();
+    const fn = FUNCTIONS[name];
+    if (!fn) throw new FormulaError(`Unknown function ${nameToken.value}()`, nameToken.start);
+    next(); // (
+
+    const args: FormulaNode[] = [];
+    if (peek().type !== 'rparen') {
+      for (;;) {
+        args.push(parseExpression(0));
+        const sep = next();
+        if (sep.type === 'rparen') break;
+        if (sep.type !== 'comma') throw new FormulaError(`Expected "," or ")" but found ${describe(sep)}`, sep.start);
+      }
+    } else {
+      next();
+    }
+
+    if (args.length < fn.min || args.length > fn.max) {
+      const expected = fn.min === fn.max ? `${fn.min}` : fn.max === Infinity ? `at least ${fn.min}` : `${fn.min} to ${fn.max}`;
+      throw new FormulaError(`${name}() takes ${expected} argument${fn.max === 1 ? '' : 's'}, got ${args.length}`, nameToken.start);
+    }
+    return { type: 'call', name, args, position: nameToken.start };
+  };
+
+  if (peek().type === 'eof') throw new FormulaError('Formula is empty', 0);
+  const node = parseExpression(0);
+  const rest = peek();
+  if (rest.type !== 'eof') throw new FormulaError(`Unexpected ${describe(rest)}`, rest.start);
+  return { node, references };
+};
+
+// --- Values ---
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toNumber = (value: CsvValue): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (isEmptyValue(value)) return 0; // Blank cells count as zero, as in a spreadsheet
+  const parsed = Number(String(value).trim());
+  if (!Number.isFinite(parsed)) throw new FormulaError(`"${value}" is not a number`);
+  return parsed;
+};
+
+const toText = (value: CsvValue): string => {
+  if (value === null) return '';
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value);
+};
+
+const toBoolean = (value: CsvValue): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  const text = toText(value).trim().toLowerCase();
+  return text !== '' && text !== 'false' && text !== '0';
+};
+
+// Dates are ISO strings; they are handled as UTC days so time zones never shift them
+const toDay = (value: CsvValue): number => {
+  const match = typeof value === 'string' ? value.match(ISO_DATE) : null;
+  if (!match) throw new FormulaError(`"${toText(value)}" is not a date`);
+  return Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / DAY_MS;
+};
+
+// Only four-digit years make a valid ISO date
+const fromDay = (day: number): string => {
+  const date = new Date(day * DAY_MS);
+  const year = date.getUTCFullYear();
+  if (!Number.isFinite(day) || isNaN(date.getTime()) || year < 0 || year > 9999) throw new FormulaError('Date out of range');
+  return date.toISOString().slice(0, 10);
+};
+
+const checkNumber = (value: number): number => {
+  if (!Number.isFinite(value)) throw new FormulaError('Result is not a finite number');
+  return value;
+};
+
+const compare = (a: CsvValue, b: CsvValue): number => {
+  const aEmpty = isEmptyValue(a);
+  const bEmpty = isEmptyValue(b);
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? -1 : 1;
+  if (typeof a === 'number' || typeof b === 'number') {
+    const aNum = Number(typeof a === 'boolean' ? Number(a) : a);
+    const bNum = Number(typeof b === 'boolean' ? Number(b) : b);
+    if (Number.isFinite(aNum) && Number.isFinite(bNum)) return aNum - bNum;
+  }
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  // Text compares without regard to case, as spreadsheets do
+  return toText(a).localeCompare(toText(b), undefined, { sensitivity: 'base' });
+};
+
+// --- Functions ---
+
+interface FormulaFunction {
+  min: number;
+  max: number;
+  category: 'Math' | 'Text' | 'Date' | 'Logic';
+  signature: string;
+  description: string;
+  fn: (args: CsvValue[]) => CsvValue;
+}
+
+const numbers = (args: CsvValue[]) => args.filter(v => !isEmptyValue(v)).map(toNumber);
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  // Math
+  ABS: { min: 1, max: 1, category: 'Math', signature: 'ABS(number)', description: 'Absolute value', fn: ([x]) => Math.abs(toNumber(x)) },
+  ROUND: {
+    min: 1, max: 2, category: 'Math', signature: 'ROUND(number, [digits])', description: 'Rounds to a number of decimal places',
+    fn: ([x, digits]) => {
+      const factor = 10 ** (digits === undefined ? 0 : toNumber(digits));
+      return Math.round(toNumber(x) * factor) / factor;
+    }
+  },
+  FLOOR: { min: 1, max: 1, category: 'Math', signature: 'FLOOR(number)', description: 'Rounds down to a whole number', fn: ([x]) => Math.floor(toNumber(x)) },
+  CEIL: { min: 1, max: 1, category: 'Math', signature: 'CEIL(number)', description: 'Rounds up to a whole number', fn: ([x]) => Math.ceil(toNumber(x)) },
+  SQRT: {
+    min: 1, max: 1, category: 'Math', signature: 'SQRT(number)', description: 'Square root',
+    fn: ([x]) => {
+      const n = toNumber(x);
+      if (n < 0) throw new FormulaError('SQRT() of a negative number');
+      return Math.sqrt(n);
+    }
+  },
+  POWER: { min: 2, max: 2, category: 'Math', signature: 'POWER(number, exponent)', description: 'Raises a number to a power', fn: ([x, y]) => checkNumber(toNumber(x) ** toNumber(y)) },
+  MOD: {
+    min: 2, max: 2, category: 'Math', signature: 'MOD(number, divisor)', description: 'Remainder after division',
+    fn: ([x, y]) => {
+      const d = toNumber(y);
+      if (d === 0) throw new FormulaError('Division by zero');
+      return toNumber(x) % d;
+    }
+  },
+  SUM: { min: 1, max: Infinity, category: 'Math', signature: 'SUM(a, b, ...)', description: 'Adds the values, skipping blanks', fn: args => numbers(args).reduce((sum, n) => sum + n, 0) },
+  AVERAGE: {
+    min: 1, max: Infinity, category: 'Math', signature: 'AVERAGE(a, b, ...)', description: 'Mean of the values, skipping blanks',
+    fn: args => {
+      const values = numbers(args);
+      return values.length ? values.reduce((sum, n) => sum + n, 0) / values.length : null;
+    }
+  },
+  MIN: { min: 1, max: Infinity, category: 'Math', signature: 'MIN(a, b, ...)', description: 'Smallest value, skipping blanks', fn: args => (numbers(args).length ? Math.min(...numbers(args)) : null) },
+  MAX: { min: 1, max: Infinity, category: 'Math', signature: 'MAX(a, b, ...)', description: 'Largest value, skipping blanks', fn: args => (numbers(args).length ? Math.max(...numbers(args)) : null) },
+
+  // Text
+  UPPER: { min: 1, max: 1, category: 'Text', signature: 'UPPER(text)', description: 'Upper case', fn: ([s]) => toText(s).toUpperCase() },
+  LOWER: { min: 1, max: 1, category: 'Text', signature: 'LOWER(text)', description: 'Lower case', fn: ([s]) => toText(s).toLowerCase() },
+  TRIM: { min: 1, max: 1, category: 'Text', signature: 'TRIM(text)', description: 'Removes surrounding and repeated spaces', fn: ([s]) => toText(s).trim().replace(/\s+/g, ' ') },
+  LEN: { min: 1, max: 1, category: 'Text', signature: 'LEN(text)', description: 'Number of characters', fn: ([s]) => toText(s).length },
+  LEFT: { min: 1, max: 2, category: 'Text', signature: 'LEFT(text, [count])', description: 'First characters', fn: ([s, n]) => toText(s).slice(0, n === undefined ? 1 : Math.max(0, toNumber(n))) },
+  RIGHT: {
+    min: 1, max: 2, category: 'Text', signature: 'RIGHT(text, [count])', description: 'Last characters',
+    fn: ([s, n]) => {
+      const count = n === undefined ? 1 : Math.max(0, toNumber(n));
+      return count === 0 ? '' : toText(s).slice(-count);
+    }
+  },
+  MID: {
+    min: 3, max: 3, category: 'Text', signature: 'MID(text, start, count)', description: 'Characters from a 1-based position',
+    fn: ([s, start, n]) => {
+      const from = Math.max(1, toNumber(start)) - 1;
+      return toText(s).slice(from, from + Math.max(0, toNumber(n)));
+    }
+  },
+  CONCAT: { min: 1, max: Infinity, category: 'Text', signature: 'CONCAT(a, b, ...)', description: 'Joins values as text', fn: args => args.map(toText).join('') },
+  SUBSTITUTE: {
+    min: 3, max: 3, category: 'Text', signature: 'SUBSTITUTE(text, find, replacement)', description: 'Replaces every occurrence of some text',
+    fn: ([s, find, replacement]) => {
+      const needle = toText(find);
+      return needle ? toText(s).split(needle).join(toText(replacement)) : toText(s);
+    }
+  },
+  CONTAINS: {
+    min: 2, max: 2, category: 'Text', signature: 'CONTAINS(text, find)', description: 'Whether the text contains some text, ignoring case',
+    fn: ([s, find]) => toText(s).toLowerCase().includes(toText(find).toLowerCase())
+  },
+
+  // Date
+  TODAY: { min: 0, max: 0, category: 'Date', signature: 'TODAY()', description: "Today's date", fn: () => fromDay(Math.floor(Date.now() / DAY_MS)) },
+  DATE: {
+    min: 3, max: 3, category: 'Date', signature: 'DATE(year, month, day)', description: 'Builds a date',
+    fn: ([y, m, d]) => fromDay(Date.UTC(toNumber(y), toNumber(m) - 1, toNumber(d)) / DAY_MS)
+  },
+  YEAR: { min: 1, max: 1, category: 'Date', signature: 'YEAR(date)', description: 'Year of a date', fn: ([d]) => new Date(toDay(d) * DAY_MS).getUTCFullYear() },
+  MONTH: { min: 1, max: 1, category: 'Date', signature: 'MONTH(date)', description: 'Month of a date, 1 to 12', fn: ([d]) => new Date(toDay(d) * DAY_MS).getUTCMonth() + 1 },
+  DAY: { min: 1, max: 1, category: 'Date', signature: 'DAY(date)', description: 'Day of the month', fn: ([d]) => new Date(toDay(d) * DAY_MS).getUTCDate() },
+  WEEKDAY: { min: 1, max: 1, category: 'Date', signature: 'WEEKDAY(date)', description: 'Day of the week, 1 (Sunday) to 7', fn: ([d]) => new Date(toDay(d) * DAY_MS).getUTCDay() + 1 },
+  DAYS: { min: 2, max: 2, category: 'Date', signature: 'DAYS(end, start)', description: 'Days between two dates', fn: ([end, start]) => toDay(end) - toDay(start) },
+  ADDDAYS: { min: 2, max: 2, category: 'Date', signature: 'ADDDAYS(date, days)', description: 'Date a number of days later', fn: ([d, n]) => fromDay(toDay(d) + Math.trunc(toNumber(n))) },
+
+  // Logic (IF and IFERROR only evaluate the branch they need; see evaluate)
+  IF: { min: 2, max: 3, category: 'Logic', signature: 'IF(condition, then, [else])', description: 'Picks a value by a condition', fn: () => null },
+  IFERROR: { min: 2, max: 2, category: 'Logic', signature: 'IFERROR(value, fallback)', description: 'Fallback when the value has an error', fn: () => null },
+  AND: { min: 1, max: Infinity, category: 'Logic', signature: 'AND(a, b, ...)', description: 'Whether every condition holds', fn: args => args.every(toBoolean) },
+  OR: { min: 1, max: Infinity, category: 'Logic', signature: 'OR(a, b, ...)', description: 'Whether any condition holds', fn: args => args.some(toBoolean) },
+  NOT: { min: 1, max: 1, category: 'Logic', signature: 'NOT(condition)', description: 'Opposite of a condition', fn: ([x]) => !toBoolean(x) },
+  ISBLANK: { min: 1, max: 1, category: 'Logic', signature: 'ISBLANK(value)', description: 'Whether the value is empty', fn: ([x]) => isEmptyValue(x) },
+  COALESCE: { min: 1, max: Infinity, category: 'Logic', signature: 'COALESCE(a, b, ...)', description: 'First value that is not blank', fn: args => args.find(v => !isEmptyValue(v)) ?? null }
+};
+
+export const FORMULA_FUNCTIONS = Object.values(FUNCTIONS).map(({ category, signature, description }) => ({ category, signature, description }));
+
+// --- Evaluation ---
+
+const evaluate = (node: FormulaNode, row: CsvRow): CsvValue => {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'column':
+      return row[node.key] ?? null;
+    case 'unary': {
+      const value = evaluate(node.operand, row);
+      if (node.op === 'NOT') return !toBoolean(value);
+      return node.op === '-' ? -toNumber(value) : toNumber(value);
+    }
+    case 'binary': {
+      if (node.op === 'AND') return toBoolean(evaluate(node.left, row)) && toBoolean(evaluate(node.right, row));
+      if (node.op === 'OR') return toBoolean(evaluate(node.left, row)) || toBoolean(evaluate(node.right, row));
+
+      const left = evaluate(node.left, row);
+      const right = evaluate(node.right, row);
+      switch (node.op) {
+        case '&': return toText(left) + toText(right);
+        case '+': return checkNumber(toNumber(left) + toNumber(right));
+        case '-': return checkNumber(toNumber(left) - toNumber(right));
+        case '*': return checkNumber(toNumber(left) * toNumber(right));
+        case '/':
+        case '%': {
+          const divisor = toNumber(right);
+          if (divisor === 0) throw new FormulaError('Division by zero', node.position);
+          return node.op === '/' ? toNumber(left) / divisor : toNumber(left) % divisor;
+        }
+        case '^': return checkNumber(toNumber(left) ** toNumber(right));
+        case '=':
+        case '==': return compare(left, right) === 0;
+        case '<>':
+        case '!=': return compare(left, right) !== 0;
+        case '<': return compare(left, right) < 0;
+        case '>': return compare(left, right) > 0;
+        case '<=': return compare(left, right) <= 0;
+        case '>=': return compare(left, right) >= 0;
+      }
+      throw new FormulaError(`Unknown operator ${node.op}`, node.position);
+    }
+    case 'call': {
+      if (node.name === 'IF') {
+        const branch = toBoolean(evaluate(node.args[0], row)) ? node.args[1] : node.args[2];
+        return branch ? evaluate(branch, row) : null;
+      }
+      if (node.name === 'IFERROR') {
+        try {
+          return evaluate(node.args[0], row);
+        } catch (err) {
+          if (err instanceof FormulaError) return evaluate(node.args[1], row);
+          throw err;
+        }
+      }
+      return FUNCTIONS[node.name].fn(node.args.map(arg => evaluate(arg, row)));
+    }
+  }
+};
+
+// --- Public API ---
+
+export interface CompiledFormula {
+  evaluate: (row: CsvRow) => CsvValue;
+  references: string[]; // Keys of the columns the formula reads
+}
+
+// Columns are matched by key, then by display name, ignoring case as a last resort
+const createResolver = (columns: ColumnMeta[]): ColumnResolver => (name) => {
+  const exact = columns.find(c => c.key === name) || columns.find(c => c.name === name);
+  if (exact) return exact.key;
+  const lower = name.toLowerCase();
+  return (columns.find(c => c.key.toLowerCase() === lower) || columns.find(c => c.name.toLowerCase() === lower))?.key;
+};
+
+/**
+ * Parses a formula against the given columns. Throws a FormulaError pointing
+ * at the problem when the formula cannot be read.
+ */
+export const compileFormula = (text: string, columns: ColumnMeta[]): CompiledFormula => {
+  const resolve = createResolver(columns);
+  const { node, references } = parse(text, resolve);
+  return {
+    evaluate: row => evaluate(node, row),
+    references: [...new Set(references.map(token => resolve(token.value)!))]
+  };
+};
+
+/**
+ * Rewrites column references as `[key]`, so a stored formula keeps working
+ * when columns are renamed.
+ */
+export const normalizeFormula = (text: string, columns: ColumnMeta[]): string => {
+  const resolve = createResolver(columns);
+  const { references } = parse(text, resolve);
+  let result = '';
+  let last = 0;
+  [...references].sort((a, b) => a.start - b.start).forEach(token => {
+    result += `${text.slice(last, token.start)}[${resolve(token.value)}]`;
+    last = token.end;
+  });
+  return result + text.slice(last);
+};
+
+/**
+ * Evaluates a formula for every row. Rows where it fails get an empty value;
+ * the first failure is reported so it can be shown to the user. Unexpected
+ * errors count as failures too, so one bad row never breaks the grid.
+ */
+export const computeColumn = (formula: CompiledFormula, data: CsvRow[]) => {
+  let errorCount = 0;
+  let firstError: { row: number; message: string } | undefined;
+  const values = data.map((row, i) => {
+    try {
+      const value = formula.evaluate(row);
+      return typeof value === 'number' && !Number.isFinite(value) ? null : value;
+    } catch (err) {
+      errorCount++;
+      if (!firstError) firstError = { row: i, message: err instanceof Error ? err.message : String(err) };
+      return null;
+    }
+  });
+  return { values, errorCount, firstError };
+};
+
+/**
+ * Schema for computed values, taken from the types the formula produced
+ * rather than inferred from text.
+ */
+export const schemaForValues = (values: CsvValue[], formula?: string, locale?: string): ColumnSchema => {
+  const filled = values.filter(v => !isEmptyValue(v));
+  const nullable = filled.length < values.length;
+  let schema: ColumnSchema = { type: 'string', nullable };
+  if (filled.length > 0 && filled.every(v => typeof v === 'number')) {
+    schema = { type: filled.every(v => Number.isInteger(v)) ? 'integer' : 'decimal', nullable };
+  } else if (filled.length > 0 && filled.every(v => typeof v === 'boolean')) {
+    schema = { type: 'boolean', nullable, format: 'true/false' };
+  } else if (filled.length > 0 && filled.every(v => typeof v === 'string' && ISO_DATE.test(v))) {
+    schema = { type: 'date', nullable, format: 'YYYY-MM-DD' };
+  }
+  return { ...schema, locale, formula };
+};
+
+/**
+ * Recomputes every live formula column, in column order, after the data
+ * they read may have changed.
+ */
+export const refreshComputedColumns = (result: ParseResult): ParseResult => {
+  const computed = result.columns.filter(col => result.schema[col]?.formula);
+  if (computed.length === 0) return result;
+
+  let data = result.data;
+  const schema = { ...result.schema };
+  computed.forEach(col => {
+    const previous = schema[col];
+    let values: CsvValue[];
+    try {
+      values = computeColumn(compileFormula(previous.formula!, result.columnMeta), data).values;
+    } catch (err) {
+      if (!(err instanceof FormulaError)) throw err;
+      // A referenced column was deleted; the column keeps its formula but has no values
+      values = data.map(() => null);
+    }
+    data = data.map((row, i) => (row[col] === values[i] ? row : { ...row, [col]: values[i] }));
+    schema[col] = schemaForValues(values, previous.formula, previous.locale);
+  });
+  return { ...result, data, schema };
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import { ParseDiagnostic, ParseResult } from '../types';
+import {
+  EMPTY_HISTORY,
+  EditCommand,
+  EditHistory,
+  MAX_HISTORY,
+  applyCommand,
+  deleteRowsCommand,
+  invertCommand,
+  recordCommand,
+  travelTo
+} from './history';
+
+const diagnostic = (rowIndex: number): ParseDiagnostic => ({
+  kind: 'field-count',
+  line: rowIndex + 2,
+  expected: 2,
+  actual: 1,
+  raw: `row ${rowIndex}`,
+  rowIndex
+});
+
+const dataset = (): ParseResult => ({
+  data: [{ a: 1, b: 'x' }, { a: 2, b: null }, { a: 3, b: 'z' }],
+  columns: ['a', 'b'],
+  columnMeta: [{ key: 'a', name: 'a' }, { key: 'b', name: 'b' }],
+  schema: { a: { type: 'integer', nullable: false }, b: { type: 'string', nullable: true } },
+  meta: { rowCount: 3, fileSize: 0, fileName: 'test.csv', diagnostics: [diagnostic(1), diagnostic(2)] }
+});
+
+// Every kind of command, built against `dataset()`
+const COMMANDS: EditCommand[] = [
+  { kind: 'set-cells', label: 'Edit', changes: [{ rowIndex: 1, column: 'b', before: null, after: 'y' }] },
+  { kind: 'insert-rows', label: 'Add rows', indices: [0, 4], rows: [{ a: 0, b: '' }, { a: 4, b: '' }] },
+  deleteRowsCommand(dataset(), [2, 0], 'Delete rows'),
+  {
+    kind: 'set-column',
+    label: 'Retype',
+    column: 'a',
+    before: { schema: { type: 'integer', nullable: false }, values: [1, 2, 3] },
+    after: { schema: { type: 'string', nullable: false }, values: ['1', '2', '3'] }
+  },
+  { kind: 'insert-column', label: 'Add column', index: 1, column: { key: 'c', name: 'C' }, schema: { type: 'string', nullable: true }, values: ['p', 'q', 'r'] },
+  { kind: 'delete-column', label: 'Delete column', index: 0, column: { key: 'a', name: 'a' }, schema: { type: 'integer', nullable: false }, values: [1, 2, 3] },
+  { kind: 'rename-column', label: 'Rename', column: 'b', before: 'b', after: 'Bee' },
+  { kind: 'move-column', label: 'Move', from: 0, to: 1 },
+  { kind: 'set-diagnostics', label: 'Mark fixed', before: [diagnostic(1), diagnostic(2)] }
+];
+
+describe('invertCommand', () => {
+  it.each(COMMANDS.map(command => [command.kind, command] as const))('undoes %s', (_, command) => {
+    const original = dataset();
+    const changed = applyCommand(original, command);
+    expect(changed).not.toEqual(original);
+    expect(applyCommand(changed, invertCommand(command))).toEqual(original);
+  });
+
+  it('undoes a batch as one step, in reverse order', () => {
+    const batch: EditCommand = { kind: 'batch', label: 'Batch', commands: [COMMANDS[0], COMMANDS[1]] };
+    const original = dataset();
+    expect(applyCommand(applyCommand(original, batch), invertCommand(batch))).toEqual(original);
+  });
+});
+
+describe('applyCommand', () => {
+  it('does not change the dataset it is given', () => {
+    const original = dataset();
+    const copy = structuredClone(original);
+    COMMANDS.forEach(command => applyCommand(original, command));
+    expect(original).toEqual(copy);
+  });
+
+  it('keeps diagnostics pointing at their rows as rows move', () => {
+    const inserted = applyCommand(dataset(), COMMANDS[1]);
+    expect(inserted.meta.diagnostics?.map(d => d.rowIndex)).toEqual([2, 3]);
+    const deleted = applyCommand(dataset(), deleteRowsCommand(dataset(), [0, 1], 'Delete'));
+    expect(deleted.meta.diagnostics?.map(d => [d.rowIndex, d.raw])).toEqual([[0, 'row 2']]);
+  });
+});
+
+describe('deleteRowsCommand', () => {
+  it('sorts the rows, drops repeats and ignores rows that do not exist', () => {
+    const command = deleteRowsCommand(dataset(), [2, 0, 2, 7], 'Delete');
+    expect(command).toMatchObject({ indices: [0, 2], rows: [{ a: 1, b: 'x' }, { a: 3, b: 'z' }] });
+  });
+});
+
+describe('recordCommand and travelTo', () => {
+  const edit = (n: number): EditCommand => ({ kind: 'set-cells', label: `Edit ${n}`, changes: [{ rowIndex: 0, column: 'a', before: n - 1, after: n }] });
+
+  it('discards what could be redone when a new command is recorded', () => {
+    let history = recordCommand(recordCommand(EMPTY_HISTORY, edit(1)), edit(2));
+    history = { ...history, position: 1 };
+    history = recordCommand(history, edit(3));
+    expect(history.commands.map(c => c.label)).toEqual(['Edit 1', 'Edit 3']);
+    expect(history.position).toBe(2);
+  });
+
+  it('moves to any position by undoing or redoing', () => {
+    const start: ParseResult = { ...dataset(), data: [{ a: 0, b: 'x' }] };
+    let history: EditHistory = EMPTY_HISTORY;
+    let result = start;
+    [1, 2, 3].forEach(n => {
+      result = applyCommand(result, edit(n));
+      history = recordCommand(history, edit(n));
+    });
+
+    const back = travelTo(result, history, 1);
+    expect(back.result.data[0].a).toBe(1);
+    expect(back.history.position).toBe(1);
+    expect(travelTo(back.result, back.history, 3).result.data[0].a).toBe(3);
+    expect(travelTo(result, history, -5).result.data[0].a).toBe(0);
+  });
+
+  it('marks the history once old commands are dropped', () => {
+    let history: EditHistory = EMPTY_HISTORY;
+    for (let n = 1; n <= MAX_HISTORY; n++) history = recordCommand(history, edit(n));
+    expect(history.truncated).toBe(false);
+    history = recordCommand(history, edit(MAX_HISTORY + 1));
+    expect(history.commands).toHaveLength(MAX_HISTORY);
+    expect(history.commands[0].label).toBe('Edit 2');
+    expect(history.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,245 @@
+import { CellChange, ColumnMeta, ColumnSchema, CsvRow, CsvValue, ParseDiagnostic, ParseResult } from '../types';
+
+/**
+ * A reversible edit to a dataset. Commands record only what they change, so
+ * the history stays small however large the dataset is.
+ */
+export type EditCommand =
+  | { kind: 'set-cells'; label: string; changes: CellChange[] }
+  | {
+      kind: 'insert-rows';
+      label: string;
+      indices: number[]; // Positions of the new rows once inserted, ascending
+      rows: CsvRow[];
+      diagnostics?: ParseDiagnostic[]; // Restored along with the rows, indexed by their new position
+    }
+  | {
+      kind: 'delete-rows';
+      label: string;
+      indices: number[]; // Positions of the removed rows before removal, ascending
+      rows: CsvRow[];
+      diagnostics?: ParseDiagnostic[]; // Removed along with the rows
+    }
+  | {
+      kind: 'set-column';
+      label: string;
+      column: string;
+      before: { schema: ColumnSchema; values: CsvValue[] };
+      after: { schema: ColumnSchema; values: CsvValue[] };
+    }
+  | {
+      kind: 'insert-column' | 'delete-column';
+      label: string;
+      index: number; // Position in the column order
+      column: ColumnMeta;
+      schema: ColumnSchema;
+      values: CsvValue[]; // One per row
+    }
+  | { kind: 'rename-column'; label: string; column: string; before: string; after: string }
+  | { kind: 'move-column'; label: string; from: number; to: number }
+  | { kind: 'set-diagnostics'; label: string; before?: ParseDiagnostic[]; after?: ParseDiagnostic[] }
+  | { kind: 'batch'; label: string; commands: EditCommand[] }; // Undone and redone as one step
+
+export interface EditHistory {
+  commands: EditCommand[];
+  position: number; // Commands before this index are applied; the rest can be redone
+  truncated: boolean; // Older commands were dropped, so position 0 is no longer the opened file
+}
+
+export const EMPTY_HISTORY: EditHistory = { commands: [], position: 0, truncated: false };
+
+// Older entries are dropped beyond this
+export const MAX_HISTORY = 200;
+
+/**
+ * The command that undoes `command`.
+ */
+export const invertCommand = (command: EditCommand): EditCommand => {
+  switch (command.kind) {
+    case 'set-cells':
+      return {
+        ...command,
+        changes: command.changes.map(c => ({ ...c, before: c.after, after: c.before })).reverse()
+      };
+    case 'insert-rows':
+      return { ...command, kind: 'delete-rows' };
+    case 'delete-rows':
+      return { ...command, kind: 'insert-rows' };
+    case 'set-column':
+      return { ...command, before: command.after, after: command.before };
+    case 'insert-column':
+      return { ...command, kind: 'delete-column' };
+    case 'delete-column':
+      return { ...command, kind: 'insert-column' };
+    case 'rename-column':
+      return { ...command, before: command.after, after: command.before };
+    case 'move-column':
+      return { ...command, from: command.to, to: command.from };
+    case 'set-diagnostics':
+      return { ...command, before: command.after, after: command.before };
+    case 'batch':
+      return { ...command, commands: command.commands.map(invertCommand).reverse() };
+  }
+};
+
+const deleteRows = (result: ParseResult, indices: number[]): ParseResult => {
+  const removed = new Set(indices);
+  const data = result.data.filter((_, i) => !removed.has(i));
+
+  // Diagnostics point at rows by index, so drop the deleted ones and shift the rest
+  let diagnostics = result.meta.diagnostics;
+  if (diagnostics) {
+    const shift = (index: number) => {
+      let count = 0;
+      while (count < indices.length && indices[count] < index) count++;
+      return index - count;
+    };
+    diagnostics = diagnostics
+      .filter(d => !removed.has(d.rowIndex))
+      .map(d => ({ ...d, rowIndex: shift(d.rowIndex) }));
+  }
+
+  return {
+    ...result,
+    data,
+    meta: { ...result.meta, rowCount: data.length, diagnostics: diagnostics?.length ? diagnostics : undefined }
+  };
+};
+
+const insertRows = (result: ParseResult, indices: number[], rows: CsvRow[], restored?: ParseDiagnostic[]): ParseResult => {
+  const total = result.data.length + rows.length;
+  const data: CsvRow[] = new Array(total);
+  const oldToNew: number[] = new Array(result.data.length);
+  let next = 0; // Next inserted row
+  let source = 0; // Next existing row
+  for (let i = 0; i < total; i++) {
+    if (next < indices.length && indices[next] === i) {
+      data[i] = rows[next++];
+    } else {
+      oldToNew[source] = i;
+      data[i] = result.data[source++];
+    }
+  }
+
+  const shifted = (result.meta.diagnostics || []).map(d => ({ ...d, rowIndex: oldToNew[d.rowIndex] }));
+  const diagnostics = [...shifted, ...(restored || [])].sort((a, b) => a.rowIndex - b.rowIndex);
+
+  return {
+    ...result,
+    data,
+    meta: { ...result.meta, rowCount: data.length, diagnostics: diagnostics.length ? diagnostics : undefined }
+  };
+};
+
+const moveItem = <T>(items: T[], from: number, to: number) => {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+export const applyCommand = (result: ParseResult, command: EditCommand): ParseResult => {
+  switch (command.kind) {
+    case 'set-cells': {
+      const data = [...result.data];
+      command.changes.forEach(({ rowIndex, column, after }) => {
+        data[rowIndex] = { ...data[rowIndex], [column]: after };
+      });
+      return { ...result, data };
+    }
+    case 'insert-rows':
+      return insertRows(result, command.indices, command.rows, command.diagnostics);
+    case 'delete-rows':
+      return deleteRows(result, command.indices);
+    case 'set-column': {
+      const { column, after } = command;
+      const data = result.data.map((row, i) => ({ ...row, [column]: after.values[i] }));
+      return { ...result, data, schema: { ...result.schema, [column]: after.schema } };
+    }
+    case 'insert-column': {
+      const { index, column, schema, values } = command;
+      const columns = [...result.columns];
+      const columnMeta = [...result.columnMeta];
+      columns.splice(index, 0, column.key);
+      columnMeta.splice(index, 0, column);
+      return {
+        ...result,
+        data: result.data.map((row, i) => ({ ...row, [column.key]: values[i] ?? '' })),
+        columns,
+        columnMeta,
+        schema: { ...result.schema, [column.key]: schema }
+      };
+    }
+    case 'delete-column': {
+      const { key } = command.column;
+      const { [key]: _removed, ...schema } = result.schema;
+      return {
+        ...result,
+        data: result.data.map(row => {
+          const { [key]: _value, ...rest } = row;
+          return rest;
+        }),
+        columns: result.columns.filter(col => col !== key),
+        columnMeta: result.columnMeta.filter(col => col.key !== key),
+        schema
+      };
+    }
+    case 'rename-column':
+      return {
+        ...result,
+        columnMeta: result.columnMeta.map(col => (col.key === command.column ? { ...col, name: command.after } : col))
+      };
+    case 'move-column':
+      return {
+        ...result,
+        columns: moveItem(result.columns, command.from, command.to),
+        columnMeta: moveItem(result.columnMeta, command.from, command.to)
+      };
+    case 'set-diagnostics':
+      return { ...result, meta: { ...result.meta, diagnostics: command.after?.length ? command.after : undefined } };
+    case 'batch':
+      return command.commands.reduce(applyCommand, result);
+  }
+};
+
+/**
+ * Applies a new command, discarding anything that could have been redone.
+ */
+export const recordCommand = (history: EditHistory, command: EditCommand): EditHistory => {
+  const kept = [...history.commands.slice(0, history.position), command];
+  const commands = kept.slice(-MAX_HISTORY);
+  return { commands, position: commands.length, truncated: history.truncated || kept.length > commands.length };
+};
+
+/**
+ * Moves the dataset to the state after the first `target` commands, undoing
+ * or redoing one command at a time.
+ */
+export const travelTo = (result: ParseResult, history: EditHistory, target: number) => {
+  const position = Math.max(0, Math.min(history.commands.length, target));
+  let next = result;
+  for (let i = history.position - 1; i >= position; i--) {
+    next = applyCommand(next, invertCommand(history.commands[i]));
+  }
+  for (let i = history.position; i < position; i++) {
+    next = applyCommand(next, history.commands[i]);
+  }
+  return { result: next, history: { ...history, position } };
+};
+
+/**
+ * Builds a command that deletes the given rows, keeping what is needed to
+ * put them back.
+ */
+export const deleteRowsCommand = (result: ParseResult, indices: number[], label: string): EditCommand => {
+  const sorted = [...new Set(indices)].filter(i => i >= 0 && i < result.data.length).sort((a, b) => a - b);
+  const removed = new Set(sorted);
+  return {
+    kind: 'delete-rows',
+    label,
+    indices: sorted,
+    rows: sorted.map(i => result.data[i]),
+    diagnostics: result.meta.diagnostics?.filter(d => removed.has(d.rowIndex))
+  };
+};
+
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { flattenRecord, jsonToParseResult, parseJsonRecords } from './json';
+
+describe('parseJsonRecords', () => {
+  it('reads an array, a single object and one record per line', () => {
+    expect(parseJsonRecords('[{"a":1},{"a":2}]')).toEqual([{ a: 1 }, { a: 2 }]);
+    expect(parseJsonRecords('{"a":1}')).toEqual([{ a: 1 }]);
+    expect(parseJsonRecords('{"a":1}\n\n{"a":2}\n')).toEqual([{ a: 1 }, { a: 2 }]);
+  });
+
+  it('unwraps records held under a wrapper key or beside paging metadata', () => {
+    expect(parseJsonRecords('{"data":[{"a":1}],"status":"ok"}')).toEqual([{ a: 1 }]);
+    expect(parseJsonRecords('{"users":[{"a":1}],"total":1,"page":1}')).toEqual([{ a: 1 }]);
+  });
+
+  it('keeps objects that only happen to hold an array', () => {
+    expect(parseJsonRecords('{"name":"Ada","tags":[{"a":1}]}')).toEqual([{ name: 'Ada', tags: [{ a: 1 }] }]);
+    expect(parseJsonRecords('{"data":[1,2]}')).toEqual([{ data: [1, 2] }]);
+    expect(parseJsonRecords('{"data":[{"a":1}],"other":[{"b":2}]}')).toHaveLength(1);
+  });
+
+  it('points at where a document stops being valid', () => {
+    expect(() => parseJsonRecords('{"a": 1,\n  "b": }')).toThrow(/^Invalid JSON/);
+    expect(() => parseJsonRecords('{"a":1}\n{"a":\n')).toThrow('Invalid JSON on line 2.');
+  });
+});
+
+describe('flattenRecord', () => {
+  it('joins nested keys with dots and lists scalar arrays as text', () => {
+    expect(flattenRecord({ user: { name: 'Ada', address: { city: 'London' } }, tags: ['a', 'b'], meta: {} })).toEqual({
+      'user.name': 'Ada',
+      'user.address.city': 'London',
+      tags: 'a, b',
+      meta: null
+    });
+    expect(flattenRecord({ items: [{ id: 1 }] })).toEqual({ items: '[{"id":1}]' });
+  });
+});
+
+describe('jsonToParseResult', () => {
+  it('gives sparse records every column', () => {
+    const result = jsonToParseResult('[{"a":1},{"b":"x"}]', 'test.json', 0);
+    expect(result.columns).toEqual(['a', 'b']);
+    expect(result.data).toEqual([{ a: 1, b: null }, { a: null, b: 'x' }]);
+  });
+
+  it('fails when there are no records', () => {
+    expect(() => jsonToParseResult('[]', 'test.json', 0)).toThrow('No records found');
+  });
+});
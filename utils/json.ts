@@ -0,0 +1,153 @@
+import { CsvRow, ParseResult } from '../types';
+import { buildColumnMeta } from './columns';
+import { applySchema } from './schema';
+
+export const JSON_EXTENSIONS = ['.json', '.ndjson', '.jsonl'];
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+export const looksLikeJson = (text: string) => /^\s*[[{]/.test(text);
+
+const isPlainObject = (val: unknown): val is { [key: string]: JsonValue } =>
+  typeof val === 'object' && val !== null && !Array.isArray(val);
+
+// Keys that name the array of records in an API-style wrapper
+const WRAPPER_KEYS = new Set(['data', 'items', 'records', 'results', 'rows', 'entries']);
+
+// Keys that describe the wrapped records rather than being a field of one
+const METADATA_KEYS = new Set(['count', 'total', 'page', 'pages', 'per_page', 'page_size', 'limit', 'offset', 'next', 'previous']);
+
+/**
+ * The records an object wraps, or null when the object is itself a record.
+ * It is a wrapper when it holds exactly one array of objects and either that
+ * array sits under a wrapper key or every other key is metadata.
+ */
+const unwrapRecords = (obj: { [key: string]: JsonValue }): JsonValue[] | null => {
+  const arrayKeys = Object.keys(obj).filter(key => Array.isArray(obj[key]));
+  if (arrayKeys.length !== 1) return null;
+  const [key] = arrayKeys;
+  const records = obj[key] as JsonValue[];
+  if (records.length === 0 || !records.every(isPlainObject)) return null;
+  const others = Object.keys(obj).filter(k => k !== key);
+  return WRAPPER_KEYS.has(key.toLowerCase()) || others.every(k => METADATA_KEYS.has(k.toLowerCase())) ? records : null;
+};
+
+/**
+ * A parse error as a short message with the line and column, when the
+ * engine reports where it failed. The engine's quote of the text is dropped.
+ */
+const describeJsonError = (err: Error, text: string) => {
+  const reason = err.message
+    .replace(/, ".*" is not valid JSON$/s, '')
+    .replace(/ (in JSON )?at position \d+.*$/s, '');
+  const lineColumn = err.message.match(/\(line (\d+) column (\d+)\)/);
+  if (lineColumn) return `Invalid JSON at line ${lineColumn[1]}, column ${lineColumn[2]}: ${reason}.`;
+  const position = err.message.match(/at position (\d+)/);
+  if (!position) return `Invalid JSON: ${reason}.`;
+  const before = text.slice(0, Number(position[1]));
+  const line = before.split('\n').length;
+  const column = before.length - before.lastIndexOf('\n');
+  return `Invalid JSON at line ${line}, column ${column}: ${reason}.`;
+};
+
+/**
+ * Reads a JSON array, a single object, an object wrapping one array of
+ * records (e.g. `{ "data": [...] }`) or newline-delimited JSON.
+ */
+export const parseJsonRecords = (text: string): JsonValue[] => {
+  let parsed: JsonValue;
+  try {
+    parsed = JSON.parse(text);
+  } catch (err: any) {
+    // Not a single document, so try one record per line
+    const records: JsonValue[] = [];
+    const lines = text.split(/\r?\n/);
+    const firstLine = lines.findIndex(line => line.trim());
+    lines.forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // When even the first line fails, the text was meant as one document
+        if (i === firstLine) throw new Error(describeJsonError(err, text));
+        throw new Error(`Invalid JSON on line ${i + 1}.`);
+      }
+    });
+    return records;
+  }
+
+  if (Array.isArray(parsed)) return parsed;
+  if (isPlainObject(parsed)) return unwrapRecords(parsed) ?? [parsed];
+  return [parsed];
+};
+
+const serializeArray = (arr: JsonValue[]): string => {
+  if (arr.every(item => item === null || typeof item !== 'object')) {
+    return arr.map(item => (item === null ? '' : String(item))).join(', ');
+  }
+  return JSON.stringify(arr);
+};
+
+/**
+ * Flattens nested objects into dotted keys (`user.address.city`). Arrays of
+ * scalars become comma-separated text, other arrays are kept as JSON.
+ */
+export const flattenRecord = (value: JsonValue, prefix = '', out: CsvRow = {}): CsvRow => {
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value);
+    if (entries.length === 0 && prefix) out[prefix] = null;
+    entries.forEach(([key, child]) => flattenRecord(child, prefix ? `${prefix}.${key}` : key, out));
+    return out;
+  }
+
+  const key = prefix || 'value';
+  out[key] = Array.isArray(value) ? serializeArray(value) : value;
+  return out;
+};
+
+export const jsonToParseResult = (text: string, fileName: string, fileSize: number, locale?: string): ParseResult => {
+  const records = parseJsonRecords(text).map(record => flattenRecord(record));
+
+  if (records.length === 0) {
+    throw new Error("No records found in the provided JSON.");
+  }
+
+  // Union of keys in first-seen order, so sparse records still get every column
+  const seen = new Set<string>();
+  const header: string[] = [];
+  records.forEach(record => {
+    Object.keys(record).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key);
+        header.push(key);
+      }
+    });
+  });
+
+  const { columns: columnMeta, warnings } = buildColumnMeta(header);
+  const columns = columnMeta.map(col => col.key);
+
+  const data: CsvRow[] = records.map(record => {
+    const row: CsvRow = {};
+    header.forEach((name, i) => {
+      row[columns[i]] = record[name] ?? null;
+    });
+    return row;
+  });
+
+  const schema = applySchema(data, columns, locale);
+
+  return {
+    data,
+    columns,
+    columnMeta,
+    schema,
+    meta: {
+      rowCount: data.length,
+      fileSize,
+      fileName,
+      locale,
+      warnings
+    }
+  };
+};
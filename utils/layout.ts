@@ -0,0 +1,77 @@
+/**
+ * How a table's columns are shown: which are hidden, which are pinned next
+ * to the row numbers, and widths the user set by hand. Columns are referred
+ * to by key, so a layout survives reordering, renaming and added columns.
+ */
+export interface ColumnLayout {
+  hidden: string[];
+  pinned: string[];
+  widths: Record<string, number>;
+}
+
+export const EMPTY_LAYOUT: ColumnLayout = { hidden: [], pinned: [], widths: {} };
+
+const STORAGE_PREFIX = 'csv-insight:layout:';
+
+export const isEmptyLayout = (layout: ColumnLayout) =>
+  layout.hidden.length === 0 && layout.pinned.length === 0 && Object.keys(layout.widths).length === 0;
+
+/**
+ * The name a layout is stored under. Exports are named
+ * `edited_<name>_<timestamp>.<ext>`, so reopening one finds the layout of
+ * the file it came from.
+ */
+export const layoutStorageKey = (fileName: string) => {
+  const base = fileName
+    .replace(/\.[a-z0-9]+$/i, '')
+    .replace(/^edited_/, '')
+    .replace(/(_\d{12})+$/, '');
+  return `${STORAGE_PREFIX}${base}`;
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+export const loadColumnLayout = (fileName: string): ColumnLayout => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(layoutStorageKey(fileName)) || 'null');
+    if (!stored || typeof stored !== 'object') return EMPTY_LAYOUT;
+    const widths: Record<string, number> = {};
+    if (stored.widths && typeof stored.widths === 'object') {
+      Object.entries(stored.widths).forEach(([key, width]) => {
+        if (typeof width === 'number' && width > 0) widths[key] = width;
+      });
+    }
+    return {
+      hidden: isStringArray(stored.hidden) ? stored.hidden : [],
+      pinned: isStringArray(stored.pinned) ? stored.pinned : [],
+      widths
+    };
+  } catch {
+    // Storage can be unavailable (private browsing) or hold something unreadable
+    return EMPTY_LAYOUT;
+  }
+};
+
+export const saveColumnLayout = (fileName: string, layout: ColumnLayout) => {
+  try {
+    const key = layoutStorageKey(fileName);
+    if (isEmptyLayout(layout)) localStorage.removeItem(key);
+    else localStorage.setItem(key, JSON.stringify(layout));
+  } catch {
+    // A full or blocked storage only means the layout isn't remembered
+  }
+};
+
+/**
+ * The columns to display, in order: pinned columns first, then the rest,
+ * leaving out hidden ones. Keys in the layout that no longer exist are ignored.
+ */
+export const arrangeColumns = (columns: string[], layout: ColumnLayout): string[] => {
+  const hidden = new Set(layout.hidden);
+  const pinned = new Set(layout.pinned);
+  const visible = columns.filter(col => !hidden.has(col));
+  // A stored layout may hide every column the file has now
+  const shown = visible.length > 0 ? visible : columns;
+  return [...shown.filter(col => pinned.has(col)), ...shown.filter(col => !pinned.has(col))];
+};
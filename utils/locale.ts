@@ -0,0 +1,34 @@
+export interface LocaleSettings {
+  id: string;
+  label: string;
+  example: string; // How 1234.56 and 31 December 2025 are written
+  decimal: string;
+  group: string;
+  dateOrder: 'MDY' | 'DMY';
+}
+
+export const LOCALE_OPTIONS: LocaleSettings[] = [
+  { id: 'en-US', label: 'English (US)', example: '1,234.56 · 12/31/2025', decimal: '.', group: ',', dateOrder: 'MDY' },
+  { id: 'en-GB', label: 'English (UK)', example: '1,234.56 · 31/12/2025', decimal: '.', group: ',', dateOrder: 'DMY' },
+  { id: 'pt-BR', label: 'Português (BR)', example: '1.234,56 · 31/12/2025', decimal: ',', group: '.', dateOrder: 'DMY' },
+  { id: 'de-DE', label: 'Deutsch', example: '1.234,56 · 31.12.2025', decimal: ',', group: '.', dateOrder: 'DMY' },
+  { id: 'fr-FR', label: 'Français', example: '1 234,56 · 31/12/2025', decimal: ',', group: ' ', dateOrder: 'DMY' },
+  { id: 'de-CH', label: 'Schweiz', example: "1'234.56 · 31.12.2025", decimal: '.', group: "'", dateOrder: 'DMY' }
+];
+
+export const DEFAULT_LOCALE = 'en-US';
+
+export const getLocale = (id?: string): LocaleSettings =>
+  LOCALE_OPTIONS.find(l => l.id === id) || LOCALE_OPTIONS[0];
+
+/**
+ * Picks the preset closest to the browser language: an exact match first,
+ * then the first preset for the same language.
+ */
+export const detectBrowserLocale = (): string => {
+  const language = typeof navigator !== 'undefined' ? navigator.language : DEFAULT_LOCALE;
+  const exact = LOCALE_OPTIONS.find(l => l.id.toLowerCase() === language.toLowerCase());
+  if (exact) return exact.id;
+  const sameLanguage = LOCALE_OPTIONS.find(l => l.id.split('-')[0] === language.split('-')[0]);
+  return sameLanguage?.id || DEFAULT_LOCALE;
+};
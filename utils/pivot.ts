@@ -0,0 +1,279 @@
+import * as d3 from 'd3';
+import { ColumnMeta, ColumnSchema, CsvRow, CsvValue } from '../types';
+import { compareValues, formatValue, isEmptyValue, isNumericType } from './schema';
+
+export type Aggregation = 'sum' | 'count' | 'distinct' | 'mean' | 'median' | 'min' | 'max';
+export type DateGrain = 'day' | 'month' | 'quarter' | 'year';
+
+// A field on the rows or columns axis; dates are grouped by `grain`
+export interface PivotField {
+  column: string;
+  grain?: DateGrain;
+}
+
+export interface PivotValue {
+  column: string;
+  aggregation: Aggregation;
+}
+
+export interface PivotConfig {
+  rows: PivotField[];
+  columns: PivotField[];
+  values: PivotValue[];
+  subtotals: boolean;
+  grandTotals: boolean;
+}
+
+export const EMPTY_PIVOT: PivotConfig = { rows: [], columns: [], values: [], subtotals: true, grandTotals: true };
+
+export const AGGREGATIONS: { value: Aggregation; label: string; numeric: boolean }[] = [
+  { value: 'sum', label: 'Sum', numeric: true },
+  { value: 'count', label: 'Count', numeric: false },
+  { value: 'distinct', label: 'Distinct count', numeric: false },
+  { value: 'mean', label: 'Mean', numeric: true },
+  { value: 'median', label: 'Median', numeric: true },
+  { value: 'min', label: 'Min', numeric: true },
+  { value: 'max', label: 'Max', numeric: true }
+];
+
+export const DATE_GRAINS: { value: DateGrain; label: string }[] = [
+  { value: 'day', label: 'Day' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'year', label: 'Year' }
+];
+
+export const BLANK_LABEL = '(blank)';
+
+/**
+ * The aggregations that make sense for a column: everything for numbers,
+ * counts for anything else.
+ */
+export const aggregationsFor = (schema?: ColumnSchema) =>
+  AGGREGATIONS.filter(agg => !agg.numeric || isNumericType(schema?.type));
+
+export const describeValue = (value: PivotValue, columnName: string) =>
+  value.column ? `${AGGREGATIONS.find(agg => agg.value === value.aggregation)?.label} of ${columnName}` : 'Rows';
+
+// Date columns hold ISO strings, so buckets are slices of them and sort as text
+const dateBucket = (iso: string, grain: DateGrain) => {
+  if (!/^\d{4}-\d{2}-\d{2}/.test(iso)) return null;
+  switch (grain) {
+    case 'day': return iso.slice(0, 10);
+    case 'month': return iso.slice(0, 7);
+    case 'quarter': return `${iso.slice(0, 4)} Q${Math.ceil(Number(iso.slice(5, 7)) / 3)}`;
+    case 'year': return iso.slice(0, 4);
+  }
+};
+
+interface FieldKey {
+  label: string;
+  sortValue: CsvValue; // Orders the labels by the column's type
+}
+
+const fieldKey = (value: CsvValue | undefined, field: PivotField, schema?: ColumnSchema): FieldKey => {
+  if (isEmptyValue(value)) return { label: BLANK_LABEL, sortValue: null };
+  if (schema?.type === 'date' && field.grain && typeof value === 'string') {
+    const bucket = dateBucket(value, field.grain);
+    if (bucket) return { label: bucket, sortValue: bucket };
+  }
+  return { label: formatValue(value, schema), sortValue: value };
+};
+
+/**
+ * The label a row is grouped under for a field, as shown in the pivot.
+ */
+export const fieldLabel = (value: CsvValue | undefined, field: PivotField, schema?: ColumnSchema) =>
+  fieldKey(value, field, schema).label;
+
+const aggregate = (data: CsvRow[], indices: number[], value: PivotValue): number | null => {
+  // Without a column, the count is of rows
+  if (!value.column) return indices.length;
+  const cells = indices.map(idx => data[idx][value.column]).filter(v => !isEmptyValue(v));
+  if (value.aggregation === 'count') return cells.length;
+  if (value.aggregation === 'distinct') return new Set(cells.map(String)).size;
+
+  const numbers = cells.filter((v): v is number => typeof v === 'number');
+  if (numbers.length === 0) return null;
+  switch (value.aggregation) {
+    case 'sum': return d3.sum(numbers);
+    case 'mean': return d3.mean(numbers) ?? null;
+    case 'median': return d3.median(numbers) ?? null;
+    case 'min': return d3.min(numbers) ?? null;
+    case 'max': return d3.max(numbers) ?? null;
+    default: return null;
+  }
+};
+
+export interface PivotRow {
+  kind: 'item' | 'subtotal' | 'total';
+  path: string[]; // Row labels; shorter than the row fields for subtotals, empty for the grand total
+  cells: (number | null)[]; // For each column key, then the total column, one per value
+}
+
+export interface PivotResult {
+  values: PivotValue[]; // The configured values, or a row count when there are none
+  columnKeys: string[][]; // Column labels of each data column, in order
+  hasTotalColumn: boolean;
+  rows: PivotRow[];
+}
+
+// The implicit value when none is chosen
+export const ROW_COUNT: PivotValue = { column: '', aggregation: 'count' };
+
+const SEP = '\u0000';
+
+/**
+ * Groups the rows by the row and column fields and aggregates each value per
+ * group. Rows come out in order with subtotal rows after each group (when
+ * there is more than one row field) and a grand total row last.
+ */
+export const computePivot = (
+  data: CsvRow[],
+  rowIndices: number[],
+  config: PivotConfig,
+  schema: Record<string, ColumnSchema>
+): PivotResult => {
+  const values = config.values.length > 0 ? config.values : [ROW_COUNT];
+  const rowFields = config.rows;
+  const colFields = config.columns;
+
+  // Every distinct label per axis, with a value to order it by
+  const sortValues = new Map<string, CsvValue>();
+  const keysOf = (row: CsvRow, fields: PivotField[], axis: string) =>
+    fields.map((field, level) => {
+      const key = fieldKey(row[field.column], field, schema[field.column]);
+      sortValues.set(`${axis}${level}${SEP}${key.label}`, key.sortValue);
+      return key.label;
+    });
+
+  // Buckets of row indices by row path prefix and column key, or 't' for the total column
+  const buckets = new Map<string, number[]>();
+  const add = (key: string, idx: number) => {
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(idx);
+    else buckets.set(key, [idx]);
+  };
+  const rowPaths = new Map<string, string[]>();
+  const colKeys = new Map<string, string[]>();
+
+  rowIndices.forEach(idx => {
+    const rowPath = keysOf(data[idx], rowFields, 'r');
+    const colKey = keysOf(data[idx], colFields, 'c');
+    const colId = colKey.join(SEP);
+    rowPaths.set(rowPath.join(SEP), rowPath);
+    colKeys.set(colId, colKey);
+    for (let depth = 0; depth <= rowPath.length; depth++) {
+      const prefix = `${depth}${SEP}${rowPath.slice(0, depth).join(SEP)}`;
+      add(`${prefix}${SEP}c${colId}`, idx);
+      if (colFields.length > 0) add(`${prefix}${SEP}t`, idx);
+    }
+  });
+
+  const compareKeys = (axis: string) => (a: string[], b: string[]) => {
+    for (let level = 0; level < a.length; level++) {
+      if (a[level] === b[level]) continue;
+      const field = (axis === 'r' ? rowFields : colFields)[level];
+      return compareValues(
+        sortValues.get(`${axis}${level}${SEP}${a[level]}`),
+        sortValues.get(`${axis}${level}${SEP}${b[level]}`),
+        field.grain ? undefined : schema[field.column]
+      ) || (a[level] < b[level] ? -1 : 1);
+    }
+    return 0;
+  };
+
+  const columnKeys = [...colKeys.values()].sort(compareKeys('c'));
+  if (columnKeys.length === 0) columnKeys.push(colFields.map(() => BLANK_LABEL));
+  const hasTotalColumn = colFields.length > 0 && config.grandTotals;
+
+  const cellsFor = (depth: number, path: string[]) => {
+    const prefix = `${depth}${SEP}${path.join(SEP)}`;
+    const groups = columnKeys.map(key => buckets.get(`${prefix}${SEP}c${key.join(SEP)}`));
+    if (hasTotalColumn) groups.push(buckets.get(`${prefix}${SEP}t`));
+    return groups.flatMap(indices => values.map(value => (indices ? aggregate(data, indices, value) : null)));
+  };
+
+  const rows: PivotRow[] = [];
+  // Without row fields, the grand total is the only row
+  const sortedPaths = rowFields.length > 0 ? [...rowPaths.values()].sort(compareKeys('r')) : [];
+  sortedPaths.forEach((path, i) => {
+    rows.push({ kind: 'item', path, cells: cellsFor(path.length, path) });
+    if (!config.subtotals) return;
+    // Close every group that ends with this row, innermost first
+    const next = sortedPaths[i + 1];
+    for (let depth = path.length - 1; depth >= 1; depth--) {
+      if (next && next.slice(0, depth).join(SEP) === path.slice(0, depth).join(SEP)) break;
+      rows.push({ kind: 'subtotal', path: path.slice(0, depth), cells: cellsFor(depth, path.slice(0, depth)) });
+    }
+  });
+  if ((config.grandTotals && rowFields.length > 0) || rowFields.length === 0) {
+    rows.push({ kind: 'total', path: [], cells: cellsFor(0, []) });
+  }
+
+  return { values, columnKeys, hasTotalColumn, rows };
+};
+
+/**
+ * The rows behind a pivot cell: those whose labels match every given field.
+ */
+export const matchingRows = (
+  data: CsvRow[],
+  rowIndices: number[],
+  filters: { field: PivotField; label: string }[],
+  schema: Record<string, ColumnSchema>
+) => rowIndices.filter(idx =>
+  filters.every(({ field, label }) => fieldLabel(data[idx][field.column], field, schema[field.column]) === label)
+);
+
+/**
+ * Renders an aggregate for display. Counts are whole numbers; other
+ * aggregates keep the column's currency or percent format.
+ */
+export const formatAggregate = (n: number | null, value: PivotValue, schema?: ColumnSchema) => {
+  if (n === null) return '';
+  if (value.aggregation === 'count' || value.aggregation === 'distinct') return n.toLocaleString();
+  if (schema?.type === 'currency' || schema?.type === 'percent') return formatValue(n, schema);
+  return n.toLocaleString(undefined, { maximumFractionDigits: 2 });
+};
+
+/**
+ * A cell picked for a closer look: the field labels that select its rows.
+ */
+export interface PivotDrill {
+  filters: { field: PivotField; label: string }[];
+  description: string;
+}
+
+/**
+ * Flattens a pivot into a plain table for export, with one column per row
+ * field and per column key and value. Subtotal rows end with "Total".
+ */
+export const pivotToTable = (
+  result: PivotResult,
+  config: PivotConfig,
+  columnName: (column: string) => string
+): { columns: ColumnMeta[]; rows: CsvRow[] } => {
+  const valueNames = result.values.map(value => describeValue(value, columnName(value.column)));
+  const headers = [
+    ...config.rows.map(field => columnName(field.column)),
+    ...[...result.columnKeys, ...(result.hasTotalColumn ? [['Total']] : [])].flatMap(key =>
+      valueNames.map(name => [...key, ...(valueNames.length > 1 || key.length === 0 ? [name] : [])].join(' / '))
+    )
+  ];
+  const columns = headers.map((name, i) => ({ key: `c${i}`, name }));
+
+  const rows = result.rows.map(row => {
+    const labels = config.rows.map((_, level) => {
+      if (row.kind === 'total') return level === 0 ? 'Grand Total' : '';
+      if (level < row.path.length) return row.path[level];
+      return row.kind === 'subtotal' && level === row.path.length ? 'Total' : '';
+    });
+    const cells = [...labels, ...row.cells];
+    const out: CsvRow = {};
+    columns.forEach((col, i) => { out[col.key] = cells[i] ?? ''; });
+    return out;
+  });
+
+  return { columns, rows };
+};
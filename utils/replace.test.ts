@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnSchema, CsvRow } from '../types';
+import { FindOptions, findMatches, validateFind } from './replace';
+
+const SCHEMA: Record<string, ColumnSchema> = {
+  name: { type: 'string', nullable: true },
+  amount: { type: 'decimal', nullable: false, locale: 'de-DE' }
+};
+
+const DATA: CsvRow[] = [
+  { name: 'Ada Lovelace', amount: 1.5 },
+  { name: null, amount: 2 },
+  { name: 'ada', amount: 3 }
+];
+
+const find = (options: Partial<FindOptions>, rows = [0, 1, 2], columns = ['name', 'amount']) =>
+  findMatches(DATA, rows, columns, SCHEMA, { query: '', replacement: '', mode: 'text', caseSensitive: false, ...options });
+
+describe('findMatches', () => {
+  it('counts every occurrence and ignores case unless asked', () => {
+    expect(find({ query: 'a' }).matchCount).toBe(5);
+    expect(find({ query: 'a', caseSensitive: true }).matchCount).toBe(4);
+  });
+
+  it('matches whole cells only in whole-cell mode', () => {
+    const result = find({ query: 'ada', replacement: 'Grace', mode: 'whole-cell' });
+    expect(result.changes).toEqual([{ rowIndex: 2, column: 'name', before: 'ada', after: 'Grace' }]);
+  });
+
+  it('inserts captured text in regex mode but not in text mode', () => {
+    expect(find({ query: '(\\w+) (\\w+)', replacement: '$2, $1', mode: 'regex' }, [0]).changes[0].after).toBe('Lovelace, Ada');
+    expect(find({ query: 'Ada', replacement: '$1' }, [0]).changes[0].after).toBe('$1 Lovelace');
+  });
+
+  it('matches the displayed text and converts the result back to the column type', () => {
+    const result = find({ query: '1,5', replacement: '2,5' }, [0], ['amount']);
+    expect(result.changes).toEqual([{ rowIndex: 0, column: 'amount', before: 1.5, after: 2.5 }]);
+  });
+
+  it('records empty cells as they were, so undo restores them', () => {
+    const result = find({ query: '^$', replacement: 'unknown', mode: 'regex' }, [1], ['name']);
+    expect(result.changes).toEqual([{ rowIndex: 1, column: 'name', before: null, after: 'unknown' }]);
+  });
+});
+
+describe('validateFind', () => {
+  it('rejects empty queries and invalid regexes', () => {
+    expect(validateFind({ query: '', replacement: '', mode: 'text', caseSensitive: false })).toBe('Enter text to find.');
+    expect(validateFind({ query: '(', replacement: '', mode: 'regex', caseSensitive: false })).toMatch(/^Invalid regex/);
+    expect(validateFind({ query: '(', replacement: '', mode: 'text', caseSensitive: false })).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { CellChange, ColumnSchema, CsvRow } from '../types';
+import { convertValue, formatValue } from './schema';
+
+export type MatchMode = 'text' | 'whole-cell' | 'regex';
+
+export interface FindOptions {
+  query: string;
+  replacement: string; // In regex mode $1, $2, $<name> and $& insert captured text
+  mode: MatchMode;
+  caseSensitive: boolean;
+}
+
+export interface FindResult {
+  changes: CellChange[]; // One per cell the replacement changes, in row order
+  matchCount: number; // Every occurrence, so a cell can match more than once
+}
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Returns a message when the query can't be searched for, or null.
+ */
+export const validateFind = (options: FindOptions): string | null => {
+  if (!options.query) return 'Enter text to find.';
+  if (options.mode === 'regex') {
+    try {
+      new RegExp(options.query);
+    } catch (err: any) {
+      return `Invalid regex: ${err.message}`;
+    }
+  }
+  return null;
+};
+
+const buildPattern = ({ query, mode, caseSensitive }: FindOptions): RegExp => {
+  const flags = caseSensitive ? 'g' : 'gi';
+  if (mode === 'regex') return new RegExp(query, flags);
+  if (mode === 'whole-cell') return new RegExp(`^${escapeRegex(query)}$`, flags);
+  return new RegExp(escapeRegex(query), flags);
+};
+
+/**
+ * Finds matches in the cells as they are displayed and works out what each
+ * matching cell becomes. Replaced text is converted back to the column's
+ * type, so "1,5" replaced in a decimal column is stored as a number.
+ */
+export const findMatches = (
+  data: CsvRow[],
+  rowIndices: number[],
+  columns: string[],
+  schema: Record<string, ColumnSchema>,
+  options: FindOptions
+): FindResult => {
+  if (validateFind(options)) return { changes: [], matchCount: 0 };
+  const pattern = buildPattern(options);
+  // Plain text replacements are inserted as typed, without $ substitutions
+  const replace = (text: string) =>
+    options.mode === 'regex' ? text.replace(pattern, options.replacement) : text.replace(pattern, () => options.replacement);
+
+  const changes: CellChange[] = [];
+  let matchCount = 0;
+  rowIndices.forEach(rowIndex => {
+    const row = data[rowIndex];
+    columns.forEach(column => {
+      const text = formatValue(row[column], schema[column]);
+      pattern.lastIndex = 0;
+      const count = [...text.matchAll(pattern)].length;
+      if (count === 0) return;
+      matchCount += count;
+
+      const replaced = replace(text);
+      // The raw value, so undo restores an empty cell as it was (null or '')
+      const before = row[column];
+      const after = replaced.trim() === '' ? '' : convertValue(replaced, schema[column]);
+      if (after !== (before ?? '')) changes.push({ rowIndex, column, before, after });
+    });
+  });
+  return { changes, matchCount };
+};
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { ColumnSchema, CsvRow } from '../types';
+import {
+  applySchema,
+  compareValues,
+  convertValue,
+  detectLocale,
+  formatValue,
+  inferColumnSchema,
+  parseDate,
+  parseNumericBound,
+  parseValue,
+  retypeColumn
+} from './schema';
+
+describe('inferColumnSchema', () => {
+  it('picks the narrowest type every value fits', () => {
+    expect(inferColumnSchema(['1', '2', '-3']).type).toBe('integer');
+    expect(inferColumnSchema(['1', '2.50']).type).toBe('decimal');
+    expect(inferColumnSchema(['12%', '3.5%']).type).toBe('percent');
+    expect(inferColumnSchema(['$1.00', '$20']).type).toBe('currency');
+    expect(inferColumnSchema(['yes', 'no']).type).toBe('boolean');
+    expect(inferColumnSchema(['2025-01-31', '2025-02-01']).type).toBe('date');
+    expect(inferColumnSchema(['1', 'two']).type).toBe('string');
+  });
+
+  it('marks columns with empty values as nullable', () => {
+    expect(inferColumnSchema(['1', '', null])).toMatchObject({ type: 'integer', nullable: true });
+    expect(inferColumnSchema(['', null])).toMatchObject({ type: 'string', nullable: true });
+  });
+
+  it('keeps fixed-width codes with leading zeros as text', () => {
+    expect(inferColumnSchema(['01234', '00042', '12345']).type).toBe('string');
+  });
+
+  it('keeps whole numbers beyond the safe integer range as text', () => {
+    expect(inferColumnSchema(['12345678901234567891', '42']).type).toBe('string');
+    expect(inferColumnSchema([String(Number.MAX_SAFE_INTEGER)]).type).toBe('integer');
+  });
+
+  it('does not mix yes/no with true/false', () => {
+    expect(inferColumnSchema(['yes', 'false']).type).toBe('string');
+  });
+
+  it('records the decimals and date format it saw', () => {
+    expect(inferColumnSchema(['1.5', '2.25']).format).toBe('0.00');
+    expect(inferColumnSchema(['31/12/2025', '01/01/2026']).format).toBe('DD/MM/YYYY');
+  });
+
+  it('reads numbers and dates in the given locale', () => {
+    expect(inferColumnSchema(['1.234,5', '2,75'], 'pt-BR').type).toBe('decimal');
+    expect(inferColumnSchema(['1.234,5', '2,75'], 'en-US').type).toBe('string');
+    expect(inferColumnSchema(['03/04/2025'], 'en-GB').format).toBe('DD/MM/YYYY');
+    expect(inferColumnSchema(['03/04/2025'], 'en-US').format).toBe('MM/DD/YYYY');
+  });
+});
+
+describe('detectLocale', () => {
+  it('picks the locale that reads the most values', () => {
+    expect(detectLocale(['1.234,56', '12,5', '31.12.2025'], 'en-US')).not.toBe('en-US');
+  });
+
+  it('keeps the fallback on a tie', () => {
+    expect(detectLocale(['1,234', '42'], 'en-US')).toBe('en-US');
+    expect(detectLocale(['1,234', '42'], 'pt-BR')).toBe('pt-BR');
+  });
+});
+
+describe('parseDate', () => {
+  it('returns ISO dates, with the time when present', () => {
+    expect(parseDate('31.12.2025', 'DD.MM.YYYY')).toBe('2025-12-31');
+    expect(parseDate('2025-01-02T03:04:05Z', 'YYYY-MM-DD')).toBe('2025-01-02 03:04:05');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseDate('2025-02-30', 'YYYY-MM-DD')).toBeNull();
+    expect(parseDate('13/01/2025', 'MM/DD/YYYY')).toBeNull();
+  });
+});
+
+describe('parseValue and convertValue', () => {
+  const percent: ColumnSchema = { type: 'percent', nullable: false, format: '0%' };
+
+  it('reads bare numbers in a percent column as percentage points', () => {
+    expect(parseValue('12', percent)).toBe(0.12);
+    expect(parseValue('12%', percent)).toBe(0.12);
+  });
+
+  it('returns undefined for text that does not fit', () => {
+    expect(parseValue('abc', { type: 'integer', nullable: false })).toBeUndefined();
+  });
+
+  it('leaves values that do not fit untouched', () => {
+    expect(convertValue('abc', { type: 'integer', nullable: false })).toBe('abc');
+    expect(convertValue('12345678901234567891', { type: 'integer', nullable: false })).toBe('12345678901234567891');
+    expect(convertValue(undefined, { type: 'integer', nullable: true })).toBeNull();
+  });
+});
+
+describe('applySchema', () => {
+  it('converts every value in place', () => {
+    const data: CsvRow[] = [{ n: '1', p: '50%', d: '2025-01-31' }, { n: '', p: '5%', d: '2025-02-01' }];
+    const schema = applySchema(data, ['n', 'p', 'd']);
+    expect(schema.n).toMatchObject({ type: 'integer', nullable: true });
+    expect(data).toEqual([{ n: 1, p: 0.5, d: '2025-01-31' }, { n: '', p: 0.05, d: '2025-02-01' }]);
+  });
+});
+
+describe('formatValue', () => {
+  it('renders values in the column format and locale', () => {
+    expect(formatValue(0.125, { type: 'percent', nullable: false, format: '0.0%' })).toBe('12.5%');
+    expect(formatValue(1234.5, { type: 'currency', nullable: false, format: '$0.00' })).toBe('$1,234.50');
+    expect(formatValue(1234.5, { type: 'decimal', nullable: false, format: '0.00', locale: 'de-DE' })).toBe('1234,50');
+    expect(formatValue('2025-12-31', { type: 'date', nullable: false, format: 'DD.MM.YYYY' })).toBe('31.12.2025');
+    expect(formatValue(false, { type: 'boolean', nullable: false, format: 'yes/no' })).toBe('no');
+    expect(formatValue(null)).toBe('');
+  });
+});
+
+describe('retypeColumn', () => {
+  it('converts what fits and counts what does not', () => {
+    const data: CsvRow[] = [{ a: '1' }, { a: 'x' }, { a: '3' }];
+    const result = retypeColumn(data, 'a', { type: 'string', nullable: false }, 'integer');
+    expect(result.data.map(row => row.a)).toEqual([1, 'x', 3]);
+    expect(result.failed).toBe(1);
+    expect(result.failedValues).toEqual(['x']);
+  });
+});
+
+describe('compareValues', () => {
+  it('orders text naturally and empty values last', () => {
+    const values = ['item10', '', 'item2', null, 'Item1'];
+    expect([...values].sort((a, b) => compareValues(a, b))).toEqual(['Item1', 'item2', 'item10', '', null]);
+  });
+
+  it('orders numbers by value', () => {
+    const schema: ColumnSchema = { type: 'integer', nullable: false };
+    expect([10, 9, 100].sort((a, b) => compareValues(a, b, schema))).toEqual([9, 10, 100]);
+  });
+});
+
+describe('parseNumericBound', () => {
+  it('reads bounds in the column locale and format', () => {
+    expect(parseNumericBound('1,5', { type: 'decimal', nullable: false, locale: 'de-DE' })).toBe(1.5);
+    expect(parseNumericBound('$1,200', { type: 'currency', nullable: false, format: '$0.00' })).toBe(1200);
+    expect(parseNumericBound('2,5', { type: 'string', nullable: false, locale: 'pt-BR' })).toBe(2.5);
+  });
+
+  it('reads percent bounds as percentages', () => {
+    const percent: ColumnSchema = { type: 'percent', nullable: false, format: '0%' };
+    expect(parseNumericBound('50', percent)).toBe(0.5);
+    expect(parseNumericBound('50%', percent)).toBe(0.5);
+  });
+
+  it('returns NaN for text that is not a number', () => {
+    expect(parseNumericBound('abc')).toBeNaN();
+    expect(parseNumericBound('')).toBeNaN();
+  });
+});
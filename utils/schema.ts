@@ -0,0 +1,595 @@
+import { ColumnSchema, ColumnType, CsvRow, CsvValue } from '../types';
+import { LOCALE_OPTIONS, LocaleSettings, getLocale } from './locale';
+
+export const COLUMN_TYPES: { value: ColumnType; label: string }[] = [
+  { value: 'string', label: 'Text' },
+  { value: 'integer', label: 'Integer' },
+  { value: 'decimal', label: 'Decimal' },
+  { value: 'currency', label: 'Currency' },
+  { value: 'percent', label: 'Percent' },
+  { value: 'date', label: 'Date' },
+  { value: 'boolean', label: 'Boolean' }
+];
+
+const NUMERIC_TYPES: ColumnType[] = ['integer', 'decimal', 'currency', 'percent'];
+
+export const isNumericType = (type?: ColumnType) => !!type && NUMERIC_TYPES.includes(type);
+
+export const isEmptyValue = (value: CsvValue | undefined) => value === null || value === undefined || value === '';
+
+// --- Numbers ---
+
+interface ParsedNumber {
+  value: number;
+  decimals: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const numberPatterns = new Map<string, RegExp>();
+
+// Plain digits, or digits grouped in thousands, with an optional fraction
+const getNumberPattern = (locale: LocaleSettings) => {
+  let pattern = numberPatterns.get(locale.id);
+  if (!pattern) {
+    // Space-grouped locales also write thousands with (narrow) no-break spaces
+    const group = locale.group === ' ' ? '[ \\u00a0\\u202f]' : escapeRegExp(locale.group);
+    pattern = new RegExp(`^[+-]?(\\d+|\\d{1,3}(${group}\\d{3})+)?(${escapeRegExp(locale.decimal)}\\d+)?$`);
+    numberPatterns.set(locale.id, pattern);
+  }
+  return pattern;
+};
+
+const parsePlainNumber = (text: string, locale: LocaleSettings): ParsedNumber | null => {
+  if (!/\d/.test(text) || !getNumberPattern(locale).test(text)) return null;
+  const [whole, fraction = ''] = text.split(locale.decimal);
+  const value = Number(`${whole.replace(/[^\d+-]/g, '')}.${fraction || '0'}`);
+  if (!isFinite(value)) return null;
+  // Long whole numbers (order or account IDs) would lose digits, so they stay text
+  if (!fraction && !Number.isSafeInteger(value)) return null;
+  return { value, decimals: fraction.length };
+};
+
+const parsePercent = (text: string, locale: LocaleSettings): ParsedNumber | null => {
+  const match = text.match(/^(.+?)\s?%$/);
+  if (!match) return null;
+  const num = parsePlainNumber(match[1], locale);
+  return num && { value: num.value / 100, decimals: num.decimals };
+};
+
+// Longer symbols first so "R$" is not read as "$"
+const CURRENCY_SYMBOLS = ['US$', 'R$', 'CHF', 'kr', '$', '€', '£', '¥', '₹'];
+
+interface ParsedCurrency extends ParsedNumber {
+  symbol: string;
+  prefix: boolean;
+}
+
+const parseCurrency = (text: string, locale: LocaleSettings): ParsedCurrency | null => {
+  const negative = text.startsWith('-');
+  const body = negative ? text.slice(1).trim() : text;
+
+  for (const symbol of CURRENCY_SYMBOLS) {
+    const prefix = body.startsWith(symbol);
+    if (!prefix && !body.endsWith(symbol)) continue;
+
+    const rest = (prefix ? body.slice(symbol.length) : body.slice(0, -symbol.length)).trim();
+    const num = parsePlainNumber(rest, locale);
+    if (!num) return null;
+    return { value: negative ? -num.value : num.value, decimals: num.decimals, symbol, prefix };
+  }
+  return null;
+};
+
+const numberPattern = (decimals: number) => (decimals > 0 ? `0.${'0'.repeat(decimals)}` : '0');
+
+// Amounts with any cents are shown with two decimals
+const currencyPattern = (symbol: string, prefix: boolean, decimals: number) => {
+  const digits = numberPattern(decimals > 0 ? Math.max(decimals, 2) : 0);
+  return prefix ? `${symbol}${digits}` : `${digits} ${symbol}`;
+};
+
+// Swaps the en-US separators of a formatted number for the locale's
+const localizeDigits = (digits: string, locale: LocaleSettings) =>
+  digits.replace(/[,.]/g, ch => (ch === ',' ? locale.group : locale.decimal));
+
+const formatPlainNumber = (value: number, locale: LocaleSettings) => localizeDigits(String(value), locale);
+
+/**
+ * Formats a number with a pattern such as '0.00', '$0.00' or '0.0%': the
+ * digits placeholder is replaced and everything around it is kept. Patterns
+ * are locale-neutral; the separators come from the locale.
+ */
+const formatNumberPattern = (value: number, pattern: string, useGrouping: boolean, locale: LocaleSettings) => {
+  const placeholder = pattern.match(/0(\.0+)?/);
+  if (!placeholder) return formatPlainNumber(value, locale);
+  const decimals = placeholder[1] ? placeholder[1].length - 1 : 0;
+  const digits = Math.abs(value).toLocaleString('en-US', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+    useGrouping
+  });
+  return `${value < 0 ? '-' : ''}${pattern.replace(placeholder[0], localizeDigits(digits, locale))}`;
+};
+
+// --- Booleans ---
+
+const BOOLEAN_PAIRS = ['true/false', 'yes/no'];
+
+const parseBoolean = (text: string): { value: boolean; pair: string } | null => {
+  const lower = text.toLowerCase();
+  for (const pair of BOOLEAN_PAIRS) {
+    const [yes, no] = pair.split('/');
+    if (lower === yes) return { value: true, pair };
+    if (lower === no) return { value: false, pair };
+  }
+  return null;
+};
+
+// --- Dates ---
+
+// In order of preference when several formats fit every value
+export const DATE_FORMATS = ['YYYY-MM-DD', 'DD.MM.YYYY', 'MM/DD/YYYY', 'DD/MM/YYYY'];
+
+// Day-first locales read ambiguous dates such as 03/04/2025 as 3 April
+const dateFormatsFor = (locale: LocaleSettings) =>
+  locale.dateOrder === 'DMY'
+    ? ['YYYY-MM-DD', 'DD.MM.YYYY', 'DD/MM/YYYY', 'MM/DD/YYYY']
+    : DATE_FORMATS;
+
+const TIME_PART = '(?:[T ](\\d{1,2}):(\\d{2})(?::(\\d{2})(?:\\.\\d+)?)?(?:Z|[+-]\\d{2}:?\\d{2})?)?';
+
+const DATE_PATTERNS: Record<string, { regex: RegExp; order: ['y' | 'm' | 'd', 'y' | 'm' | 'd', 'y' | 'm' | 'd'] }> = {
+  'YYYY-MM-DD': { regex: new RegExp(`^(\\d{4})-(\\d{1,2})-(\\d{1,2})${TIME_PART}$`), order: ['y', 'm', 'd'] },
+  'DD.MM.YYYY': { regex: new RegExp(`^(\\d{1,2})\\.(\\d{1,2})\\.(\\d{4})${TIME_PART}$`), order: ['d', 'm', 'y'] },
+  'MM/DD/YYYY': { regex: new RegExp(`^(\\d{1,2})/(\\d{1,2})/(\\d{4})${TIME_PART}$`), order: ['m', 'd', 'y'] },
+  'DD/MM/YYYY': { regex: new RegExp(`^(\\d{1,2})/(\\d{1,2})/(\\d{4})${TIME_PART}$`), order: ['d', 'm', 'y'] }
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Parses a date in the given format and returns it as an ISO string
+ * ('YYYY-MM-DD', with ' HH:mm:ss' when a time is present), or null.
+ */
+export const parseDate = (text: string, format: string): string | null => {
+  const pattern = DATE_PATTERNS[format];
+  const match = pattern && text.match(pattern.regex);
+  if (!match) return null;
+
+  const parts: Record<string, number> = {};
+  pattern.order.forEach((part, i) => {
+    parts[part] = Number(match[i + 1]);
+  });
+  const { y, m, d } = parts;
+  if (m < 1 || m > 12 || d < 1 || d > new Date(y, m, 0).getDate()) return null;
+
+  const date = `${y}-${pad(m)}-${pad(d)}`;
+  if (match[4] === undefined) return date;
+
+  const hours = Number(match[4]);
+  const minutes = Number(match[5]);
+  const seconds = Number(match[6] || 0);
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  return `${date} ${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+/**
+ * Renders an ISO date string ('YYYY-MM-DD' with optional ' HH:mm:ss') in one
+ * of the supported date formats.
+ */
+export const formatDate = (iso: string, format: string): string => {
+  const match = iso.match(/^(\d{4})-(\d{2})-(\d{2})( .*)?$/);
+  if (!match) return iso;
+  const [, y, m, d, time = ''] = match;
+  switch (format) {
+    case 'DD.MM.YYYY': return `${d}.${m}.${y}${time}`;
+    case 'MM/DD/YYYY': return `${m}/${d}/${y}${time}`;
+    case 'DD/MM/YYYY': return `${d}/${m}/${y}${time}`;
+    default: return iso;
+  }
+};
+
+// --- Inference ---
+
+interface InferenceState {
+  locale: LocaleSettings;
+  nullable: boolean;
+  seen: number;
+  integer: boolean;
+  decimal: boolean;
+  percent: boolean;
+  currency: boolean;
+  boolean: boolean;
+  dateFormats: string[];
+  decimals: number;
+  currencySymbol: string | null;
+  currencyPrefix: boolean;
+  booleanPair: string | null;
+  codeWidth: number | null | false; // Width shared by every all-digit value, false once it varies
+  leadingZero: boolean;
+}
+
+const createState = (locale: LocaleSettings): InferenceState => ({
+  locale,
+  nullable: false,
+  seen: 0,
+  integer: true,
+  decimal: true,
+  percent: true,
+  currency: true,
+  boolean: true,
+  dateFormats: dateFormatsFor(locale),
+  decimals: 0,
+  currencySymbol: null,
+  currencyPrefix: true,
+  booleanPair: null,
+  codeWidth: null,
+  leadingZero: false
+});
+
+const isSettled = (s: InferenceState) =>
+  !s.integer && !s.decimal && !s.percent && !s.currency && !s.boolean && s.dateFormats.length === 0;
+
+const observe = (s: InferenceState, value: CsvValue | undefined) => {
+  if (isEmptyValue(value)) {
+    s.nullable = true;
+    return;
+  }
+  s.seen++;
+  if (isSettled(s)) return;
+
+  if (typeof value === 'boolean') {
+    s.integer = s.decimal = s.percent = s.currency = false;
+    s.dateFormats = [];
+    s.booleanPair = s.booleanPair || 'true/false';
+    return;
+  }
+
+  if (typeof value === 'number') {
+    s.boolean = s.percent = s.currency = false;
+    s.dateFormats = [];
+    s.codeWidth = false;
+    if (!Number.isInteger(value)) s.integer = false;
+    return;
+  }
+
+  const text = String(value).trim();
+
+  if (s.boolean) {
+    const parsed = parseBoolean(text);
+    if (!parsed || (s.booleanPair && parsed.pair !== s.booleanPair)) s.boolean = false;
+    else s.booleanPair = parsed.pair;
+  }
+
+  if (s.integer || s.decimal) {
+    const parsed = parsePlainNumber(text, s.locale);
+    if (!parsed) {
+      s.integer = s.decimal = false;
+    } else {
+      if (parsed.decimals > 0) s.integer = false;
+      s.decimals = Math.max(s.decimals, parsed.decimals);
+      if (/^\d+$/.test(text)) {
+        if (text.length > 1 && text.startsWith('0')) s.leadingZero = true;
+        if (s.codeWidth === null) s.codeWidth = text.length;
+        else if (s.codeWidth !== text.length) s.codeWidth = false;
+      } else {
+        s.codeWidth = false;
+      }
+    }
+  }
+
+  if (s.percent) {
+    const parsed = parsePercent(text, s.locale);
+    if (!parsed) s.percent = false;
+    else s.decimals = Math.max(s.decimals, parsed.decimals);
+  }
+
+  if (s.currency) {
+    const parsed = parseCurrency(text, s.locale);
+    if (!parsed || (s.currencySymbol && parsed.symbol !== s.currencySymbol)) {
+      s.currency = false;
+    } else {
+      s.currencySymbol = parsed.symbol;
+      s.currencyPrefix = parsed.prefix;
+      s.decimals = Math.max(s.decimals, parsed.decimals);
+    }
+  }
+
+  if (s.dateFormats.length > 0) {
+    s.dateFormats = s.dateFormats.filter(format => parseDate(text, format) !== null);
+  }
+};
+
+const resolve = (s: InferenceState): ColumnSchema => ({ ...resolveType(s), locale: s.locale.id });
+
+const resolveType = (s: InferenceState): ColumnSchema => {
+  const nullable = s.nullable;
+  if (s.seen === 0) return { type: 'string', nullable: true };
+  if (s.boolean) return { type: 'boolean', nullable, format: s.booleanPair || 'true/false' };
+  if (s.integer) {
+    // Fixed-width codes with leading zeros (zip codes, account numbers) are identifiers, not numbers
+    if (s.leadingZero && s.codeWidth) return { type: 'string', nullable };
+    return { type: 'integer', nullable };
+  }
+  if (s.decimal) return { type: 'decimal', nullable, format: s.decimals > 0 ? numberPattern(s.decimals) : undefined };
+  if (s.percent) return { type: 'percent', nullable, format: `${numberPattern(s.decimals)}%` };
+  if (s.currency) {
+    return { type: 'currency', nullable, format: currencyPattern(s.currencySymbol || '$', s.currencyPrefix, s.decimals) };
+  }
+  if (s.dateFormats.length > 0) return { type: 'date', nullable, format: s.dateFormats[0] };
+  return { type: 'string', nullable };
+};
+
+export const inferColumnSchema = (values: (CsvValue | undefined)[], locale?: string): ColumnSchema => {
+  const state = createState(getLocale(locale));
+  values.forEach(value => observe(state, value));
+  return resolve(state);
+};
+
+/**
+ * Infers a schema for every column. A type is only chosen when every
+ * non-empty value in the column fits it, read with the given locale.
+ */
+export const inferSchema = (data: CsvRow[], columns: string[], locale?: string): Record<string, ColumnSchema> => {
+  const settings = getLocale(locale);
+  const states = columns.map(() => createState(settings));
+  data.forEach(row => {
+    columns.forEach((col, i) => observe(states[i], row[col]));
+  });
+
+  const schema: Record<string, ColumnSchema> = {};
+  columns.forEach((col, i) => {
+    schema[col] = resolve(states[i]);
+  });
+  return schema;
+};
+
+/**
+ * Picks the locale that reads the most sample values as numbers or dates.
+ * Values like "1,234" fit several locales, so ties keep the fallback.
+ */
+export const detectLocale = (values: string[], fallback: string): string => {
+  const samples = values.map(v => v.trim()).filter(v => /\d/.test(v));
+  const score = (locale: LocaleSettings) => {
+    const dateFormat = locale.dateOrder === 'DMY' ? 'DD/MM/YYYY' : 'MM/DD/YYYY';
+    return samples.filter(text =>
+      parsePlainNumber(text, locale) || parsePercent(text, locale) || parseCurrency(text, locale) || parseDate(text, dateFormat)
+    ).length;
+  };
+
+  let best = getLocale(fallback);
+  let bestScore = score(best);
+  LOCALE_OPTIONS.forEach(locale => {
+    const localeScore = score(locale);
+    if (localeScore > bestScore) {
+      best = locale;
+      bestScore = localeScore;
+    }
+  });
+  return best.id;
+};
+
+// --- Conversion ---
+
+/**
+ * Parses text as a value of the schema's type. Returns undefined when the
+ * text does not fit the type.
+ */
+export const parseValue = (text: string, schema: ColumnSchema): CsvValue | undefined => {
+  const trimmed = text.trim();
+  const locale = getLocale(schema.locale);
+  switch (schema.type) {
+    case 'integer':
+    case 'decimal':
+      return parsePlainNumber(trimmed, locale)?.value;
+    case 'percent': {
+      // Bare numbers are read as percentage points, matching how the column is displayed
+      const plain = parsePlainNumber(trimmed, locale);
+      return parsePercent(trimmed, locale)?.value ?? (plain ? plain.value / 100 : undefined);
+    }
+    case 'currency':
+      return parseCurrency(trimmed, locale)?.value ?? parsePlainNumber(trimmed, locale)?.value;
+    case 'boolean':
+      return parseBoolean(trimmed)?.value;
+    case 'date':
+      return parseDate(trimmed, schema.format || DATE_FORMATS[0]) ?? parseDate(trimmed, DATE_FORMATS[0]) ?? undefined;
+    default:
+      return text;
+  }
+};
+
+/**
+ * Reads a number typed as a rule bound the way the column's cells are read,
+ * in its locale and format, falling back to a plain number. Non-numeric
+ * columns read it as a decimal. Percent columns hold fractions but show
+ * percentages, so 50 there is 0.5. Returns NaN when the text is not a number.
+ */
+export const parseNumericBound = (text: string, schema?: ColumnSchema): number => {
+  const trimmed = text.trim();
+  if (!trimmed) return NaN;
+  const parsed = parseValue(trimmed, isNumericType(schema?.type) ? schema : { nullable: true, ...schema, type: 'decimal' });
+  if (typeof parsed === 'number') return parsed;
+  const n = Number(trimmed);
+  return schema?.type === 'percent' ? n / 100 : n;
+};
+
+// A typed bound as shown in rule labels, with the sign percent columns imply
+export const describeBound = (text: string, schema?: ColumnSchema) =>
+  schema?.type === 'percent' && !text.trim().endsWith('%') ? `${text}%` : text;
+
+/**
+ * Converts a value to the schema's type, leaving it untouched when it does not fit.
+ */
+export const convertValue = (value: CsvValue | undefined, schema: ColumnSchema): CsvValue => {
+  if (value === undefined) return null;
+  if (isEmptyValue(value)) return value;
+  if (typeof value === 'number' && isNumericType(schema.type)) return value;
+  if (typeof value === 'boolean' && schema.type === 'boolean') return value;
+  if (schema.type === 'string') return String(value);
+
+  const parsed = parseValue(String(value), schema);
+  return parsed === undefined ? value : parsed;
+};
+
+/**
+ * Infers the schema and converts every value in place.
+ */
+export const applySchema = (data: CsvRow[], columns: string[], locale?: string): Record<string, ColumnSchema> => {
+  const schema = inferSchema(data, columns, locale);
+  data.forEach(row => {
+    columns.forEach(col => {
+      row[col] = convertValue(row[col], schema[col]);
+    });
+  });
+  return schema;
+};
+
+/**
+ * Renders a value for display using the column's detected format.
+ */
+export const formatValue = (value: CsvValue | undefined, schema?: ColumnSchema): string => {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'boolean') {
+    const [yes, no] = (schema?.format || 'true/false').split('/');
+    return value ? yes : no;
+  }
+  if (!schema) return String(value);
+  if (typeof value === 'string') {
+    return schema.type === 'date' && schema.format ? formatDate(value, schema.format) : value;
+  }
+
+  const locale = getLocale(schema.locale);
+  switch (schema.type) {
+    case 'percent':
+      return formatNumberPattern(value * 100, schema.format || '0%', false, locale);
+    case 'currency':
+      return formatNumberPattern(value, schema.format || '$0.00', true, locale);
+    case 'decimal':
+      return schema.format ? formatNumberPattern(value, schema.format, false, locale) : formatPlainNumber(value, locale);
+    default:
+      return String(value);
+  }
+};
+
+// Picks the format for a type the user forces onto a column, from the values that fit it
+const detectFormat = (texts: string[], type: ColumnType, locale: LocaleSettings): string | undefined => {
+  const decimalsOf = (parse: (text: string, locale: LocaleSettings) => ParsedNumber | null) =>
+    texts.reduce((max, text) => Math.max(max, parse(text, locale)?.decimals || 0), 0);
+
+  switch (type) {
+    case 'decimal': {
+      const decimals = decimalsOf(parsePlainNumber);
+      return decimals > 0 ? numberPattern(decimals) : undefined;
+    }
+    case 'percent':
+      return `${numberPattern(decimalsOf(parsePercent))}%`;
+    case 'currency': {
+      const sample = texts.map(text => parseCurrency(text, locale)).find(Boolean);
+      return currencyPattern(sample?.symbol || '$', sample?.prefix ?? true, Math.max(decimalsOf(parseCurrency), 2));
+    }
+    case 'boolean':
+      return texts.map(parseBoolean).find(Boolean)?.pair || 'true/false';
+    case 'date': {
+      const formats = dateFormatsFor(locale);
+      let best = formats[0];
+      let bestCount = 0;
+      formats.forEach(format => {
+        const count = texts.filter(text => parseDate(text, format) !== null).length;
+        if (count > bestCount) {
+          best = format;
+          bestCount = count;
+        }
+      });
+      return best;
+    }
+    default:
+      return undefined;
+  }
+};
+
+// Distinct values kept as examples of a failed conversion
+const MAX_FAILED_SAMPLES = 20;
+
+/**
+ * Forces a column to a type chosen by the user. Values are converted from
+ * their displayed text; those that do not fit are kept as text and counted
+ * in `failed`, with a few of them listed in `failedValues`.
+ */
+export const retypeColumn = (
+  data: CsvRow[],
+  key: string,
+  previous: ColumnSchema,
+  type: ColumnType
+): { data: CsvRow[]; schema: ColumnSchema; failed: number; failedValues: string[] } => {
+  const texts = data.map(row => formatValue(row[key], previous).trim());
+  const inferredType = previous.inferredType ?? previous.type;
+  const schema: ColumnSchema = {
+    type,
+    nullable: previous.nullable,
+    format: detectFormat(texts, type, getLocale(previous.locale)),
+    inferredType: type === inferredType ? undefined : inferredType,
+    locale: previous.locale
+  };
+
+  let failed = 0;
+  const failedValues = new Set<string>();
+  const newData = data.map((row, i) => {
+    const value = row[key];
+    let next: CsvValue;
+    if (isEmptyValue(value)) next = value ?? null;
+    else if (typeof value === 'number' && isNumericType(type)) next = value;
+    else if (type === 'string') next = texts[i];
+    else {
+      const parsed = parseValue(texts[i], schema);
+      if (parsed === undefined) {
+        failed++;
+        if (failedValues.size < MAX_FAILED_SAMPLES) failedValues.add(texts[i]);
+      }
+      next = parsed === undefined ? texts[i] : parsed;
+    }
+    return { ...row, [key]: next };
+  });
+
+  return { data: newData, schema, failed, failedValues: [...failedValues] };
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}/;
+
+const collators = new Map<string, Intl.Collator>();
+
+// Natural order for text: runs of digits compare by value, so item2 sorts before item10
+const getCollator = (locale = '') => {
+  let collator = collators.get(locale);
+  if (!collator) {
+    collator = new Intl.Collator(locale || undefined, { numeric: true, sensitivity: 'base' });
+    collators.set(locale, collator);
+  }
+  return collator;
+};
+
+/**
+ * Orders two cell values by the column's type. Empty cells always sort last;
+ * callers that want them first or want descending order handle that around it.
+ */
+export const compareValues = (a: CsvValue | undefined, b: CsvValue | undefined, schema?: ColumnSchema): number => {
+  const aEmpty = isEmptyValue(a);
+  const bEmpty = isEmptyValue(b);
+  if (aEmpty || bEmpty) return aEmpty === bEmpty ? 0 : aEmpty ? 1 : -1;
+
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  if (isNumericType(schema?.type) && (typeof a === 'number') !== (typeof b === 'number')) {
+    return typeof a === 'number' ? -1 : 1;
+  }
+
+  if (schema?.type === 'date') {
+    // Parsed dates are ISO strings and order correctly as text; values kept as typed go after them
+    const aIso = typeof a === 'string' && ISO_DATE.test(a);
+    const bIso = typeof b === 'string' && ISO_DATE.test(b);
+    if (aIso && bIso) return a < b ? -1 : a > b ? 1 : 0;
+    if (aIso !== bIso) return aIso ? -1 : 1;
+  }
+
+  return getCollator(schema?.locale).compare(String(a), String(b));
+};
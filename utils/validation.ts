@@ -0,0 +1,281 @@
+import { ColumnMeta, ColumnSchema, ColumnType, CsvRow, CsvValue } from '../types';
+import { COLUMN_TYPES, describeBound, formatValue, isEmptyValue, isNumericType, parseNumericBound, parseValue } from './schema';
+
+export type RuleKind = 'required' | 'unique' | 'type' | 'range' | 'pattern' | 'allowed' | 'max-length';
+
+export interface ValidationRule {
+  id: string;
+  column: string; // Column key
+  kind: RuleKind;
+  type?: ColumnType; // For 'type'
+  min?: string; // For 'range': numbers (percentages in percent columns), or YYYY-MM-DD in date columns; either may be left open
+  max?: string;
+  pattern?: string; // For 'pattern', matched against the displayed text
+  values?: string[]; // For 'allowed', compared with the displayed text
+  maxLength?: number; // For 'max-length'
+}
+
+export interface ValidationResult {
+  cellErrors: Map<number, Map<string, string[]>>; // Row index -> column key -> messages
+  columnCounts: Map<string, number>; // Invalid cells per column
+  ruleCounts: Map<string, number>; // Invalid cells per rule id
+  invalidCells: number;
+}
+
+export const RULE_KINDS: { value: RuleKind; label: string }[] = [
+  { value: 'required', label: 'Required' },
+  { value: 'unique', label: 'Unique' },
+  { value: 'type', label: 'Type' },
+  { value: 'range', label: 'Min / max' },
+  { value: 'pattern', label: 'Matches regex' },
+  { value: 'allowed', label: 'Allowed values' },
+  { value: 'max-length', label: 'Max length' }
+];
+
+let nextId = 0;
+export const createRuleId = () => `r${++nextId}`;
+
+const typeLabel = (type?: ColumnType) => COLUMN_TYPES.find(t => t.value === type)?.label || type || '';
+
+/**
+ * Short human-readable form of a rule, without the column.
+ */
+export const describeRule = (rule: ValidationRule, schema?: ColumnSchema): string => {
+  switch (rule.kind) {
+    case 'required':
+      return 'Required';
+    case 'unique':
+      return 'Unique';
+    case 'type':
+      return `Must be ${typeLabel(rule.type)}`;
+    case 'range': {
+      const min = rule.min && describeBound(rule.min, schema);
+      const max = rule.max && describeBound(rule.max, schema);
+      if (min && max) return `Between ${min} and ${max}`;
+      return min ? `At least ${min}` : `At most ${max}`;
+    }
+    case 'pattern':
+      return `Matches /${rule.pattern}/`;
+    case 'allowed': {
+      const values = rule.values || [];
+      return `One of ${values.length > 3 ? `${values.slice(0, 3).join(', ')} +${values.length - 3}` : values.join(', ')}`;
+    }
+    case 'max-length':
+      return `At most ${rule.maxLength} characters`;
+  }
+};
+
+/**
+ * Returns an error message when a rule cannot be applied as entered.
+ */
+export const validateRule = (rule: ValidationRule, schema?: ColumnSchema): string | null => {
+  switch (rule.kind) {
+    case 'type':
+      return rule.type ? null : 'Choose a type.';
+    case 'range': {
+      if (!rule.min && !rule.max) return 'Enter a minimum, a maximum or both.';
+      const isDate = schema?.type === 'date';
+      const bad = [rule.min, rule.max].find(bound => bound && (isDate ? !/^\d{4}-\d{2}-\d{2}$/.test(bound) : isNaN(parseNumericBound(bound, schema))));
+      if (bad) return isDate ? `"${bad}" is not a date (YYYY-MM-DD).` : `"${bad}" is not a number.`;
+      return null;
+    }
+    case 'pattern':
+      if (!rule.pattern) return 'Enter a regex.';
+      try {
+        new RegExp(rule.pattern);
+      } catch (err: any) {
+        return `Invalid regex: ${err.message}`;
+      }
+      return null;
+    case 'allowed':
+      return rule.values && rule.values.length > 0 ? null : 'List at least one value.';
+    case 'max-length':
+      return rule.maxLength !== undefined && rule.maxLength >= 0 ? null : 'Enter a length.';
+    default:
+      return null;
+  }
+};
+
+const fitsType = (value: CsvValue, type: ColumnType, schema?: ColumnSchema) => {
+  if (type === 'string') return true;
+  if (typeof value === 'number' && isNumericType(type)) return type !== 'integer' || Number.isInteger(value);
+  if (typeof value === 'boolean') return type === 'boolean';
+  const parsed = parseValue(String(value), { ...schema, type });
+  if (parsed === undefined) return false;
+  return type !== 'integer' || Number.isInteger(parsed);
+};
+
+type Check = (value: CsvValue, text: string) => string | null;
+
+// Checks a single cell; 'unique' needs the whole column and is handled separately
+const compileRule = (rule: ValidationRule, schema?: ColumnSchema): Check => {
+  switch (rule.kind) {
+    case 'required':
+      return value => (isEmptyValue(value) ? 'Required' : null);
+    case 'type': {
+      const message = `Not a valid ${typeLabel(rule.type)}`;
+      return value => (fitsType(value, rule.type!, schema) ? null : message);
+    }
+    case 'range': {
+      if (schema?.type === 'date') {
+        // Date columns hold ISO strings, which compare in date order
+        return value => {
+          const day = typeof value === 'string' ? value.slice(0, 10) : '';
+          if (!/^\d{4}-\d{2}-\d{2}$/.test(day)) return null;
+          if (rule.min && day < rule.min) return `Before ${rule.min}`;
+          if (rule.max && day > rule.max) return `After ${rule.max}`;
+          return null;
+        };
+      }
+      const min = rule.min ? parseNumericBound(rule.min, schema) : -Infinity;
+      const max = rule.max ? parseNumericBound(rule.max, schema) : Infinity;
+      return (value, text) => {
+        // Numbers kept as text (in a text column) are checked too
+        const n = typeof value === 'number' ? value : parseNumericBound(text, schema);
+        if (isNaN(n)) return null;
+        if (n < min) return `Below the minimum of ${describeBound(rule.min!, schema)}`;
+        if (n > max) return `Above the maximum of ${describeBound(rule.max!, schema)}`;
+        return null;
+      };
+    }
+    case 'pattern': {
+      const regex = new RegExp(rule.pattern!);
+      return (_, text) => (regex.test(text) ? null : `Doesn't match /${rule.pattern}/`);
+    }
+    case 'allowed': {
+      const allowed = new Set(rule.values);
+      return (_, text) => (allowed.has(text.trim()) ? null : `"${text}" is not an allowed value`);
+    }
+    case 'max-length':
+      return (_, text) => (text.length > rule.maxLength! ? `Longer than ${rule.maxLength} characters` : null);
+    default:
+      return () => null;
+  }
+};
+
+/**
+ * Checks every rule against the given rows. Empty cells only break
+ * 'required'; the other rules leave them alone. Rules that can't be applied
+ * as entered are skipped.
+ */
+export const validateRows = (
+  data: CsvRow[],
+  rowIndices: number[],
+  rules: ValidationRule[],
+  schema: Record<string, ColumnSchema>
+): ValidationResult => {
+  const result: ValidationResult = { cellErrors: new Map(), columnCounts: new Map(), ruleCounts: new Map(), invalidCells: 0 };
+
+  const flag = (rowIndex: number, rule: ValidationRule, message: string) => {
+    let row = result.cellErrors.get(rowIndex);
+    if (!row) result.cellErrors.set(rowIndex, (row = new Map()));
+    const messages = row.get(rule.column);
+    if (messages) {
+      messages.push(message);
+    } else {
+      row.set(rule.column, [message]);
+      result.columnCounts.set(rule.column, (result.columnCounts.get(rule.column) || 0) + 1);
+      result.invalidCells++;
+    }
+    result.ruleCounts.set(rule.id, (result.ruleCounts.get(rule.id) || 0) + 1);
+  };
+
+  rules.forEach(rule => {
+    const colSchema = schema[rule.column];
+    if (!colSchema || validateRule(rule, colSchema)) return;
+    const text = (rowIndex: number) => formatValue(data[rowIndex][rule.column], colSchema);
+
+    if (rule.kind === 'unique') {
+      const seen = new Map<string, number[]>();
+      rowIndices.forEach(rowIndex => {
+        if (isEmptyValue(data[rowIndex][rule.column])) return;
+        const key = text(rowIndex).trim();
+        const rows = seen.get(key);
+        if (rows) rows.push(rowIndex);
+        else seen.set(key, [rowIndex]);
+      });
+      seen.forEach((rows, key) => {
+        if (rows.length > 1) rows.forEach(rowIndex => flag(rowIndex, rule, `"${key}" appears ${rows.length} times`));
+      });
+      return;
+    }
+
+    const check = compileRule(rule, colSchema);
+    rowIndices.forEach(rowIndex => {
+      const value = data[rowIndex][rule.column];
+      if (rule.kind !== 'required' && isEmptyValue(value)) return;
+      const message = check(value ?? '', rule.kind === 'required' ? '' : text(rowIndex));
+      if (message) flag(rowIndex, rule, message);
+    });
+  });
+
+  return result;
+};
+
+// --- Saved rule sets ---
+
+/**
+ * Rules saved for reuse refer to columns by name, since the next file's
+ * column keys may differ.
+ */
+export interface SavedRuleSet {
+  name: string;
+  rules: (Omit<ValidationRule, 'id' | 'column'> & { columnName: string })[];
+}
+
+const STORAGE_KEY = 'csv-insight:validation-rules';
+
+export const loadRuleSets = (): SavedRuleSet[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(set => set && typeof set.name === 'string' && Array.isArray(set.rules)) : [];
+  } catch {
+    return [];
+  }
+};
+
+const storeRuleSets = (sets: SavedRuleSet[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sets));
+  } catch {
+    // Blocked storage only means the rules aren't kept for next time
+  }
+};
+
+/**
+ * Saves the rules under `name`, replacing a set with the same name.
+ */
+export const saveRuleSet = (name: string, rules: ValidationRule[], columnMeta: ColumnMeta[]): SavedRuleSet[] => {
+  const names = new Map(columnMeta.map(col => [col.key, col.name]));
+  const set: SavedRuleSet = {
+    name,
+    rules: rules.map(({ id, column, ...rest }) => ({ ...rest, columnName: names.get(column) ?? column }))
+  };
+  const sets = [...loadRuleSets().filter(s => s.name !== name), set];
+  storeRuleSets(sets);
+  return sets;
+};
+
+export const deleteRuleSet = (name: string): SavedRuleSet[] => {
+  const sets = loadRuleSets().filter(s => s.name !== name);
+  storeRuleSets(sets);
+  return sets;
+};
+
+/**
+ * Matches a saved set's rules to this file's columns by name (ignoring case
+ * and surrounding spaces). Rules for columns the file doesn't have are
+ * returned as `skipped`.
+ */
+export const applyRuleSet = (set: SavedRuleSet, columnMeta: ColumnMeta[]): { rules: ValidationRule[]; skipped: string[] } => {
+  const normalize = (name: string) => name.trim().toLowerCase();
+  const keys = new Map(columnMeta.map(col => [normalize(col.name), col.key]));
+  const rules: ValidationRule[] = [];
+  const skipped = new Set<string>();
+  set.rules.forEach(({ columnName, ...rest }) => {
+    const column = keys.get(normalize(columnName));
+    if (column) rules.push({ ...rest, id: createRuleId(), column });
+    else skipped.add(columnName);
+  });
+  return { rules, skipped: [...skipped] };
+};
@@ -0,0 +1,93 @@
+import { CsvDialect, ParseProgress, ParseResult } from '../types';
+import { createDelimitedParser, createRecordBuilder } from '../utils/csv';
+import { jsonToParseResult } from '../utils/json';
+
+export interface ParseWorkerRequest {
+  source: File | string;
+  fileName: string;
+  fileSize: number;
+  format: 'delimited' | 'json';
+  dialect?: CsvDialect;
+  encoding?: string; // Ignored for string sources, which are already decoded
+  locale?: string;
+}
+
+export type ParseWorkerMessage =
+  | { type: 'progress'; progress: ParseProgress }
+  | { type: 'done'; result: ParseResult }
+  | { type: 'error'; message: string };
+
+const CHUNK_SIZE = 1024 * 1024;
+
+const post = (message: ParseWorkerMessage) => self.postMessage(message);
+
+/**
+ * Yields the source as decoded text chunks. Files are read slice by slice so
+ * the whole file never has to be in memory as one string.
+ */
+async function* readChunks(source: File | string, encoding = 'utf-8'): AsyncGenerator<{ text: string; bytes: number }> {
+  if (typeof source === 'string') {
+    for (let offset = 0; offset < source.length; offset += CHUNK_SIZE) {
+      const text = source.slice(offset, offset + CHUNK_SIZE);
+      yield { text, bytes: text.length };
+    }
+    return;
+  }
+
+  const decoder = new TextDecoder(encoding);
+  for (let offset = 0; offset < source.size; offset += CHUNK_SIZE) {
+    const buffer = await source.slice(offset, offset + CHUNK_SIZE).arrayBuffer();
+    const end = offset + CHUNK_SIZE >= source.size;
+    yield { text: decoder.decode(buffer, { stream: !end }), bytes: buffer.byteLength };
+  }
+}
+
+const parseDelimitedSource = async (request: ParseWorkerRequest, totalBytes: number): Promise<ParseResult> => {
+  const dialect = request.dialect!;
+  const parser = createDelimitedParser(dialect);
+  const builder = createRecordBuilder(dialect.hasHeader);
+  let bytesProcessed = 0;
+
+  for await (const chunk of readChunks(request.source, request.encoding)) {
+    parser.push(chunk.text).forEach(record => builder.add(record.fields, record));
+    bytesProcessed += chunk.bytes;
+    post({ type: 'progress', progress: { bytesProcessed, totalBytes, rowsProcessed: builder.rowCount() } });
+  }
+  parser.flush().forEach(record => builder.add(record.fields, record));
+
+  return builder.finish({
+    fileName: request.fileName,
+    fileSize: request.fileSize,
+    dialect,
+    encoding: request.encoding,
+    locale: request.locale
+  });
+};
+
+const parseJsonSource = async (request: ParseWorkerRequest, totalBytes: number): Promise<ParseResult> => {
+  let text = '';
+  let bytesProcessed = 0;
+
+  for await (const chunk of readChunks(request.source, request.encoding)) {
+    text += chunk.text;
+    bytesProcessed += chunk.bytes;
+    post({ type: 'progress', progress: { bytesProcessed, totalBytes, rowsProcessed: 0 } });
+  }
+
+  const result = jsonToParseResult(text, request.fileName, request.fileSize, request.locale);
+  return { ...result, meta: { ...result.meta, encoding: request.encoding } };
+};
+
+self.onmessage = async (e: MessageEvent<ParseWorkerRequest>) => {
+  const request = e.data;
+  const totalBytes = typeof request.source === 'string' ? request.source.length : request.source.size;
+
+  try {
+    const result = request.format === 'json'
+      ? await parseJsonSource(request, totalBytes)
+      : await parseDelimitedSource(request, totalBytes);
+    post({ type: 'done', result });
+  } catch (err: any) {
+    post({ type: 'error', message: err.message || 'Failed to parse file.' });
+  }
+};